@@ -19,7 +19,13 @@ class MacOSNotifyMCP: NSObject, UNUserNotificationCenterDelegate {
         session: String? = nil,
         window: String? = nil,
         pane: String? = nil,
-        terminal: String? = nil
+        tmuxIds: [String: String] = [:],
+        terminal: String? = nil,
+        terminalApp: String? = nil,
+        interruptionLevel: String = "active",
+        actions: [String] = [],
+        reply: Bool = false,
+        replySocket: String? = nil
     ) {
         center.requestAuthorization(options: [.alert, .sound]) { granted, error in
             if granted {
@@ -30,7 +36,13 @@ class MacOSNotifyMCP: NSObject, UNUserNotificationCenterDelegate {
                     session: session,
                     window: window,
                     pane: pane,
-                    terminal: terminal
+                    tmuxIds: tmuxIds,
+                    terminal: terminal,
+                    terminalApp: terminalApp,
+                    interruptionLevel: interruptionLevel,
+                    actions: actions,
+                    reply: reply,
+                    replySocket: replySocket
                 )
             } else {
                 print("Notification permission denied")
@@ -46,16 +58,34 @@ class MacOSNotifyMCP: NSObject, UNUserNotificationCenterDelegate {
         session: String?,
         window: String?,
         pane: String?,
-        terminal: String?
+        tmuxIds: [String: String],
+        terminal: String?,
+        terminalApp: String?,
+        interruptionLevel: String,
+        actions: [String],
+        reply: Bool,
+        replySocket: String?
     ) {
         let content = UNMutableNotificationContent()
         content.title = title
         content.body = message
-        if sound == "default" {
+        if sound == "none" {
+            content.sound = nil
+        } else if sound == "default" {
             content.sound = .default
         } else {
             content.sound = UNNotificationSound(named: UNNotificationSoundName(sound + ".aiff"))
         }
+        if #available(macOS 12.0, *) {
+            switch interruptionLevel {
+            case "passive":
+                content.interruptionLevel = .passive
+            case "timeSensitive":
+                content.interruptionLevel = .timeSensitive
+            default:
+                content.interruptionLevel = .active
+            }
+        }
         
         // tmux情報とターミナル情報をuserInfoに格納
         var userInfo: [String: Any] = [:]
@@ -67,10 +97,47 @@ class MacOSNotifyMCP: NSObject, UNUserNotificationCenterDelegate {
             if let pane = pane {
                 userInfo["pane"] = pane
             }
+            // Stable ids survive window renumbering and pane splits
+            for (key, id) in tmuxIds {
+                userInfo[key] = id
+            }
         }
         if let terminal = terminal {
             userInfo["terminal"] = terminal
         }
+        if let terminalApp = terminalApp {
+            userInfo["terminalApp"] = terminalApp
+        }
+        
+        // Action buttons and a reply field; the answer goes to replySocket.
+        // Without buttons the category still reports dismissals there.
+        var newCategory: UNNotificationCategory?
+        if !actions.isEmpty || reply || replySocket != nil {
+            var notificationActions = actions.enumerated().map { index, title in
+                UNNotificationAction(identifier: "action.\(index)", title: title, options: [])
+            }
+            if reply {
+                notificationActions.append(UNTextInputNotificationAction(
+                    identifier: "reply",
+                    title: "Reply",
+                    options: [],
+                    textInputButtonTitle: "Send",
+                    textInputPlaceholder: ""
+                ))
+            }
+            let category = UNNotificationCategory(
+                identifier: UUID().uuidString,
+                actions: notificationActions,
+                intentIdentifiers: [],
+                options: [.customDismissAction]
+            )
+            content.categoryIdentifier = category.identifier
+            userInfo["actions"] = actions
+            newCategory = category
+        }
+        if let replySocket = replySocket {
+            userInfo["replySocket"] = replySocket
+        }
         content.userInfo = userInfo
         
         let request = UNNotificationRequest(
@@ -79,12 +146,29 @@ class MacOSNotifyMCP: NSObject, UNUserNotificationCenterDelegate {
             trigger: nil
         )
         
-        center.add(request) { error in
-            if let error = error {
-                print("Notification error: \(error)")
-                exit(1)
+        let post = {
+            self.center.add(request) { error in
+                if let error = error {
+                    print("Notification error: \(error)")
+                    exit(1)
+                }
+                print("Notification sent")
+            }
+        }
+        guard let category = newCategory else {
+            post()
+            return
+        }
+        
+        // Setting the categories replaces all of them, so keep the ones of
+        // notifications still on screen or their buttons stop working
+        center.getDeliveredNotifications { delivered in
+            let shown = Set(delivered.map { $0.request.content.categoryIdentifier })
+            self.center.getNotificationCategories { existing in
+                let kept = existing.filter { shown.contains($0.identifier) }
+                self.center.setNotificationCategories(kept.union([category]))
+                post()
             }
-            print("Notification sent")
         }
     }
     
@@ -96,17 +180,30 @@ class MacOSNotifyMCP: NSObject, UNUserNotificationCenterDelegate {
     ) {
         let userInfo = response.notification.request.content.userInfo
         let terminal = userInfo["terminal"] as? String
+        let terminalApp = userInfo["terminalApp"] as? String
         
-        if let session = userInfo["session"] as? String {
-            focusToTmux(
-                session: session,
-                window: userInfo["window"] as? String,
-                pane: userInfo["pane"] as? String,
-                terminal: terminal
-            )
-        } else if let terminal = terminal {
-            // tmuxセッションがない場合でもターミナルをアクティブ化
-            activateTerminal(preferredTerminal: terminal)
+        if let replySocket = userInfo["replySocket"] as? String {
+            sendResponse(response, actions: userInfo["actions"] as? [String] ?? [], to: replySocket)
+        }
+        
+        // Buttons and replies are answered in place; only a click on the
+        // notification itself switches to tmux
+        if response.actionIdentifier == UNNotificationDefaultActionIdentifier {
+            if let session = userInfo["session"] as? String {
+                focusToTmux(
+                    session: session,
+                    window: userInfo["window"] as? String,
+                    pane: userInfo["pane"] as? String,
+                    sessionId: userInfo["sessionId"] as? String,
+                    windowId: userInfo["windowId"] as? String,
+                    paneId: userInfo["paneId"] as? String,
+                    terminal: terminal,
+                    terminalApp: terminalApp
+                )
+            } else if terminal != nil || terminalApp != nil {
+                // tmuxセッションがない場合でもターミナルをアクティブ化
+                activateTerminal(preferredTerminal: terminal, app: terminalApp)
+            }
         }
         
         completionHandler()
@@ -117,41 +214,147 @@ class MacOSNotifyMCP: NSObject, UNUserNotificationCenterDelegate {
         }
     }
     
-    private func focusToTmux(session: String, window: String?, pane: String?, terminal: String?) {
+    private func focusToTmux(
+        session: String,
+        window: String?,
+        pane: String?,
+        sessionId: String?,
+        windowId: String?,
+        paneId: String?,
+        terminal: String?,
+        terminalApp: String?
+    ) {
         // Activate terminal
-        activateTerminal(preferredTerminal: terminal)
+        activateTerminal(preferredTerminal: terminal, app: terminalApp)
         
         // Execute tmux commands
         DispatchQueue.main.asyncAfter(deadline: .now() + 0.5) {
             let tmuxPath = self.findTmuxPath()
             guard !tmuxPath.isEmpty else { return }
             
-            // Switch to session
-            var tmuxTarget = session
-            if let window = window {
-                tmuxTarget += ":\(window)"
-                if let pane = pane {
-                    tmuxTarget += ".\(pane)"
+            // Prefer the stable ids, from the pane up to its session. Indexes
+            // are only used without ids, since they may point elsewhere by now.
+            let ids = [paneId, windowId, sessionId].compactMap { $0 }
+            var targets = ids + [session]
+            if ids.isEmpty {
+                var tmuxTarget = session
+                if let window = window {
+                    tmuxTarget += ":\(window)"
+                    if let pane = pane {
+                        tmuxTarget += ".\(pane)"
+                    }
                 }
+                targets = [tmuxTarget]
+            }
+            
+            guard let target = targets.first(where: {
+                self.runCommand(tmuxPath, args: ["has-session", "-t", $0])
+            }) else {
+                self.reportMissingTarget(
+                    title: "tmux session no longer exists",
+                    message: "Session '\(session)' was closed after this notification was sent."
+                )
+                return
             }
             
-            self.runCommand(tmuxPath, args: ["switch-client", "-t", tmuxTarget])
+            self.runCommand(tmuxPath, args: ["switch-client", "-t", target])
+            
+            if target != targets.first {
+                let lost = paneId != nil ? "pane" : windowId != nil ? "window" : "session"
+                let fallback = target == windowId ? "its window" : "session '\(session)'"
+                self.reportMissingTarget(
+                    title: "tmux \(lost) no longer exists",
+                    message: "The \(lost) this notification came from was closed; switched to \(fallback) instead."
+                )
+            }
+        }
+    }
+    
+    /// Send the user's answer as JSON to the socket the server listens on
+    private func sendResponse(_ response: UNNotificationResponse, actions: [String], to socketPath: String) {
+        var answer: [String: String]
+        switch response.actionIdentifier {
+        case UNNotificationDefaultActionIdentifier:
+            answer = ["action": "click"]
+        case UNNotificationDismissActionIdentifier:
+            answer = ["action": "dismiss"]
+        case "reply":
+            let text = (response as? UNTextInputNotificationResponse)?.userText ?? ""
+            answer = ["action": "reply", "text": text]
+        default:
+            // action.<index> -> button title
+            let index = Int(response.actionIdentifier.dropFirst("action.".count)) ?? -1
+            answer = ["action": actions.indices.contains(index) ? actions[index] : response.actionIdentifier]
         }
+        guard let data = try? JSONSerialization.data(withJSONObject: answer) else { return }
+        
+        let fd = socket(AF_UNIX, SOCK_STREAM, 0)
+        guard fd >= 0 else { return }
+        defer { close(fd) }
+        
+        var address = sockaddr_un()
+        address.sun_family = sa_family_t(AF_UNIX)
+        let path = Array(socketPath.utf8CString)
+        guard path.count <= MemoryLayout.size(ofValue: address.sun_path) else {
+            print("Reply socket path is too long: \(socketPath)")
+            return
+        }
+        withUnsafeMutableBytes(of: &address.sun_path) { buffer in
+            buffer.copyBytes(from: path.map { UInt8(bitPattern: $0) })
+        }
+        let connected = withUnsafePointer(to: &address) {
+            $0.withMemoryRebound(to: sockaddr.self, capacity: 1) {
+                connect(fd, $0, socklen_t(MemoryLayout<sockaddr_un>.size))
+            }
+        }
+        guard connected == 0 else {
+            // The server stopped waiting, e.g. after a timeout
+            print("Nobody is waiting for the response at \(socketPath)")
+            return
+        }
+        _ = data.withUnsafeBytes { write(fd, $0.baseAddress, data.count) }
+    }
+    
+    /// Explain why a click did not land where the notification came from
+    private func reportMissingTarget(title: String, message: String) {
+        print("\(title): \(message)")
+        
+        let content = UNMutableNotificationContent()
+        content.title = title
+        content.body = message
+        let request = UNNotificationRequest(
+            identifier: UUID().uuidString,
+            content: content,
+            trigger: nil
+        )
+        
+        // Wait for delivery, the app terminates right after handling a click
+        let delivered = DispatchSemaphore(value: 0)
+        center.add(request) { _ in
+            delivered.signal()
+        }
+        _ = delivered.wait(timeout: .now() + 1)
     }
     
-    private func activateTerminal(preferredTerminal: String? = nil) {
+    private func activateTerminal(preferredTerminal: String? = nil, app: String? = nil) {
         // ターミナルタイプからアプリケーション名へのマッピング
         let terminalMap: [String: String] = [
             "VSCode": "Visual Studio Code",
             "Cursor": "Cursor",
+            "Zed": "Zed",
             "iTerm2": "iTerm2",
+            "WezTerm": "WezTerm",
+            "Kitty": "kitty",
+            "Ghostty": "Ghostty",
+            "Warp": "Warp",
+            "Hyper": "Hyper",
             "Terminal": "Terminal",
             "alacritty": "Alacritty"
         ]
         
         // 検出されたターミナルを優先的に使用
-        if let preferred = preferredTerminal,
-           let appName = terminalMap[preferred] {
+        // The app sent by the server wins, so custom terminals need no entry here
+        if let appName = app ?? preferredTerminal.flatMap({ terminalMap[$0] }) {
             if isAppRunning(appName) {
                 runCommand("/usr/bin/osascript", args: ["-e", "tell application \"\(appName)\" to activate"])
                 return
@@ -159,7 +362,10 @@ class MacOSNotifyMCP: NSObject, UNUserNotificationCenterDelegate {
         }
         
         // フォールバック: 実行中のターミナルを探す
-        let terminals = ["Alacritty", "iTerm2", "WezTerm", "Terminal", "Visual Studio Code", "Cursor"]
+        let terminals = [
+            "Alacritty", "iTerm2", "WezTerm", "kitty", "Ghostty", "Warp",
+            "Hyper", "Terminal", "Visual Studio Code", "Cursor", "Zed"
+        ]
         
         for terminal in terminals {
             if isAppRunning(terminal) {
@@ -244,8 +450,14 @@ var message = ""
 var session: String?
 var window: String?
 var pane: String?
+var tmuxIds: [String: String] = [:]
 var sound = "default"
 var terminal: String?
+var terminalApp: String?
+var interruptionLevel = "active"
+var actions: [String] = []
+var reply = false
+var replySocket: String?
 
 var i = 1
 let args = CommandLine.arguments
@@ -276,6 +488,13 @@ while i < args.count {
             pane = args[i + 1]
             i += 1
         }
+    case "--session-id", "--window-id", "--pane-id":
+        if i + 1 < args.count {
+            // --pane-id -> paneId
+            let key = args[i].dropFirst(2).replacingOccurrences(of: "-id", with: "Id")
+            tmuxIds[key] = args[i + 1]
+            i += 1
+        }
     case "--sound":
         if i + 1 < args.count {
             sound = args[i + 1]
@@ -286,6 +505,28 @@ while i < args.count {
             terminal = args[i + 1]
             i += 1
         }
+    case "--terminal-app":
+        if i + 1 < args.count {
+            terminalApp = args[i + 1]
+            i += 1
+        }
+    case "--interruption-level":
+        if i + 1 < args.count {
+            interruptionLevel = args[i + 1]
+            i += 1
+        }
+    case "--action":
+        if i + 1 < args.count {
+            actions.append(args[i + 1])
+            i += 1
+        }
+    case "--reply":
+        reply = true
+    case "--reply-socket":
+        if i + 1 < args.count {
+            replySocket = args[i + 1]
+            i += 1
+        }
     case "-h", "--help":
         print("""
         Usage:
@@ -297,12 +538,31 @@ while i < args.count {
           -s, --session <name>    tmux session name
           -w, --window <number>   tmux window number
           -p, --pane <number>     tmux pane number
-          --sound <name>          Notification sound (default: "default")
-          --terminal <type>       Terminal type (VSCode, Cursor, iTerm2, etc.)
+          --session-id <id>       Stable tmux session id ($1)
+          --window-id <id>        Stable tmux window id (@2)
+          --pane-id <id>          Stable tmux pane id (%3), preferred over
+                                  the indexes; falls back to the window or
+                                  session when the pane was closed
+          --sound <name>          Notification sound (default: "default", "none" for silent)
+          --terminal <type>       Terminal type (VSCode, Cursor, iTerm2, WezTerm, etc.)
+          --terminal-app <name>   Application to activate on click, overriding
+                                  the one looked up from --terminal
+          --interruption-level <level>
+                                  passive, active or timeSensitive (default: active;
+                                  timeSensitive needs an entitlement this
+                                  ad-hoc signed app does not have)
+          --action <title>        Add an action button (repeatable)
+          --reply                 Add a text reply field
+          --reply-socket <path>   Unix socket to send the user's response to,
+                                  as JSON like {"action": "Approve"}; clicks
+                                  and dismissals are sent as "click" and
+                                  "dismiss"
         
         Examples:
           MacOSNotifyMCP -m "Build completed"
           MacOSNotifyMCP -t "Build" -m "Success" -s development -w 1 -p 0
+          MacOSNotifyMCP -m "Tests failed" -s development --pane-id %3
+          MacOSNotifyMCP -m "Deploy?" --action Approve --action Reject --reply-socket /tmp/reply.sock
         """)
         exit(0)
     default:
@@ -328,7 +588,13 @@ notifier.requestPermissionAndSendNotification(
     session: session,
     window: window,
     pane: pane,
-    terminal: terminal
+    tmuxIds: tmuxIds,
+    terminal: terminal,
+    terminalApp: terminalApp,
+    interruptionLevel: interruptionLevel,
+    actions: actions,
+    reply: reply,
+    replySocket: replySocket
 )
 
 // Run the app
@@ -0,0 +1,593 @@
+import { appendFileSync, existsSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { AppNotFoundError } from './errors.js'
+import {
+  getInterruptionLevel,
+  meetsPriority,
+  type Priority,
+} from './priority.js'
+import type { TerminalType } from './terminal.js'
+
+export type CommandRunner = (command: string, args: string[]) => Promise<string>
+
+export const BACKEND_NAMES = [
+  'macos-app',
+  'terminal-notifier',
+  'notify-send',
+  'log',
+  'webhook',
+] as const
+
+export type BackendName = (typeof BACKEND_NAMES)[number]
+
+/**
+ * A backend name, or `auto` to pick the first backend available on this host
+ */
+export type BackendSelection = BackendName | 'auto'
+
+export interface NotificationPayload {
+  title: string
+  message: string
+  /**
+   * Sound name, or `none` for a silent notification
+   */
+  sound: string
+  session?: string
+  window?: string
+  pane?: string
+  /**
+   * Stable tmux ids (`$1`, `@2`, `%3`), preferred over the indexes
+   */
+  sessionId?: string
+  windowId?: string
+  paneId?: string
+  /**
+   * Notification priority (default: normal)
+   */
+  priority?: Priority
+  terminal: TerminalType
+  /**
+   * macOS application of the terminal, brought to the front on click
+   */
+  terminalApp?: string
+  /**
+   * Titles of action buttons shown on the notification
+   */
+  actions?: string[]
+  /**
+   * Whether the notification has a text reply field
+   */
+  reply?: boolean
+  /**
+   * Unix socket the user's response is sent to
+   */
+  replySocket?: string
+}
+
+export interface NotificationBackend {
+  readonly name: BackendName
+  /**
+   * Lower priority notifications skip this backend
+   */
+  readonly minPriority?: Priority
+  /**
+   * Whether the backend shows `actions` and `reply` and reports clicks,
+   * dismissals and the user's response to `replySocket`
+   */
+  readonly supportsActions?: boolean
+  /**
+   * Whether the backend can deliver on this host (used by auto-detection)
+   */
+  isAvailable(): Promise<boolean>
+  send(payload: NotificationPayload): Promise<void>
+}
+
+export const WEBHOOK_FORMATS = ['json', 'slack', 'discord', 'ntfy'] as const
+
+export type WebhookFormat = (typeof WEBHOOK_FORMATS)[number]
+
+export interface WebhookOptions {
+  url: string
+  /**
+   * Payload preset (default: `json`); ignored when `template` is set
+   */
+  format?: WebhookFormat
+  /**
+   * Custom JSON body with `{{title}}`, `{{message}}`, `{{sound}}`,
+   * `{{session}}`, `{{window}}`, `{{pane}}`, `{{target}}`, `{{priority}}`,
+   * `{{terminal}}` and `{{timestamp}}` placeholders
+   */
+  template?: string
+  /**
+   * Only POST notifications of at least this priority (default: low)
+   */
+  minPriority?: Priority
+  headers?: Record<string, string>
+  timeoutMs?: number
+  /**
+   * Extra attempts after the first one fails (default: 2)
+   */
+  retries?: number
+  /**
+   * Delay before the first retry, doubled for each further one (default: 500)
+   */
+  backoffMs?: number
+}
+
+/**
+ * Order in which `auto` probes backends; `log` always works and comes last.
+ * `webhook` needs a URL and is never picked automatically.
+ */
+export const AUTO_DETECT_ORDER: BackendName[] = [
+  'macos-app',
+  'terminal-notifier',
+  'notify-send',
+  'log',
+]
+
+/**
+ * Parse a comma-separated backend list such as `macos-app,log`
+ */
+export function parseBackendList(value: string): BackendSelection[] {
+  const names = value
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean)
+
+  if (names.length === 0) {
+    throw new Error('No notification backend specified')
+  }
+
+  for (const name of names) {
+    if (name !== 'auto' && !BACKEND_NAMES.includes(name as BackendName)) {
+      throw new Error(
+        `Unknown notification backend: ${name} (expected one of: auto, ${BACKEND_NAMES.join(', ')})`,
+      )
+    }
+  }
+
+  return names as BackendSelection[]
+}
+
+export function isWebhookFormat(value: string): value is WebhookFormat {
+  return WEBHOOK_FORMATS.includes(value as WebhookFormat)
+}
+
+/**
+ * Build a tmux target string (session:window.pane) from its parts
+ */
+export function formatTmuxTarget(payload: {
+  session?: string
+  window?: string
+  pane?: string
+}): string | undefined {
+  if (!payload.session) return undefined
+
+  let target = payload.session
+  if (payload.window) {
+    target += `:${payload.window}`
+    if (payload.pane) {
+      target += `.${payload.pane}`
+    }
+  }
+  return target
+}
+
+/**
+ * tmux targets to try in turn when focusing a notification's pane: its
+ * stable ids from pane to session, then the session name. Indexes are only
+ * used without ids, since they may point at a different pane by now.
+ */
+export function getTmuxFocusTargets(payload: {
+  session?: string
+  window?: string
+  pane?: string
+  sessionId?: string
+  windowId?: string
+  paneId?: string
+}): string[] {
+  const ids = [payload.paneId, payload.windowId, payload.sessionId].filter(
+    (id): id is string => Boolean(id),
+  )
+  if (ids.length === 0) {
+    const target = formatTmuxTarget(payload)
+    return target ? [target] : []
+  }
+  return payload.session ? [...ids, payload.session] : ids
+}
+
+/**
+ * ntfy message priorities (1 = min, 5 = max)
+ */
+const NTFY_PRIORITIES: Record<Priority, number> = {
+  low: 2,
+  normal: 3,
+  high: 4,
+  critical: 5,
+}
+
+/**
+ * Split an ntfy topic URL like `https://ntfy.sh/my-topic` into the server
+ * to publish to and the topic
+ */
+function parseNtfyUrl(url: string): { server: string; topic: string } {
+  const parsed = new URL(url)
+  const segments = parsed.pathname.split('/').filter(Boolean)
+  const topic = segments.pop()
+  if (!topic) throw new Error(`ntfy URL has no topic: ${url}`)
+  parsed.pathname = segments.join('/')
+  parsed.search = ''
+  return { server: parsed.toString(), topic }
+}
+
+async function commandExists(
+  run: CommandRunner,
+  command: string,
+): Promise<boolean> {
+  try {
+    await run('which', [command])
+    return true
+  } catch (_error) {
+    return false
+  }
+}
+
+/**
+ * First MacOSNotifyMCP.app version that shows action buttons and replies and
+ * reports clicks; older bundles silently ignore those arguments
+ */
+export const APP_ACTIONS_VERSION = 2
+
+/**
+ * `CFBundleShortVersionString` of an app bundle, if it can be read
+ */
+export function getAppVersion(appPath: string): string | undefined {
+  try {
+    const plist = readFileSync(join(appPath, 'Contents', 'Info.plist'), 'utf-8')
+    return plist.match(
+      /<key>CFBundleShortVersionString<\/key>\s*<string>([^<]*)<\/string>/,
+    )?.[1]
+  } catch (_error) {
+    return undefined
+  }
+}
+
+/**
+ * Native notifications through the bundled MacOSNotifyMCP.app
+ */
+export class MacOSAppBackend implements NotificationBackend {
+  readonly name = 'macos-app'
+  private actionsSupported?: boolean
+
+  constructor(
+    private appPath: string,
+    private run: CommandRunner,
+  ) {}
+
+  /**
+   * Only bundles built from the current main.swift can report responses;
+   * waiting on an older one would always time out
+   */
+  get supportsActions(): boolean {
+    this.actionsSupported ??=
+      Number.parseInt(getAppVersion(this.appPath) ?? '', 10) >=
+      APP_ACTIONS_VERSION
+    return this.actionsSupported
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return (
+      process.platform === 'darwin' &&
+      !!this.appPath &&
+      existsSync(this.appPath)
+    )
+  }
+
+  async send(payload: NotificationPayload): Promise<void> {
+    if (!this.appPath || !existsSync(this.appPath)) {
+      throw new AppNotFoundError(
+        this.appPath
+          ? `MacOSNotifyMCP.app not found at ${this.appPath}`
+          : undefined,
+      )
+    }
+
+    const args = [
+      '-n',
+      this.appPath,
+      '--args',
+      '-t',
+      payload.title,
+      '-m',
+      payload.message,
+      '--sound',
+      payload.sound,
+      '--terminal',
+      payload.terminal,
+    ]
+
+    if (payload.terminalApp) {
+      args.push('--terminal-app', payload.terminalApp)
+    }
+
+    const interruptionLevel = getInterruptionLevel(payload.priority)
+    if (interruptionLevel !== 'active') {
+      args.push('--interruption-level', interruptionLevel)
+    }
+
+    if (payload.session) {
+      args.push('-s', payload.session)
+      if (payload.window !== undefined && payload.window !== '') {
+        args.push('-w', payload.window)
+      }
+      if (payload.pane !== undefined && payload.pane !== '') {
+        args.push('-p', payload.pane)
+      }
+    }
+    if (payload.sessionId) args.push('--session-id', payload.sessionId)
+    if (payload.windowId) args.push('--window-id', payload.windowId)
+    if (payload.paneId) args.push('--pane-id', payload.paneId)
+
+    for (const action of payload.actions ?? []) {
+      args.push('--action', action)
+    }
+    if (payload.reply) args.push('--reply')
+    if (payload.replySocket) args.push('--reply-socket', payload.replySocket)
+
+    await this.run('/usr/bin/open', args)
+  }
+}
+
+/**
+ * Notifications through the `terminal-notifier` command (Homebrew)
+ */
+export class TerminalNotifierBackend implements NotificationBackend {
+  readonly name = 'terminal-notifier'
+
+  constructor(private run: CommandRunner) {}
+
+  async isAvailable(): Promise<boolean> {
+    return commandExists(this.run, 'terminal-notifier')
+  }
+
+  async send(payload: NotificationPayload): Promise<void> {
+    const args = ['-title', payload.title, '-message', payload.message]
+    if (payload.sound !== 'none') {
+      args.push('-sound', payload.sound)
+    }
+    if (payload.priority === 'critical') {
+      args.push('-ignoreDnD')
+    }
+
+    // Clicking the notification switches the tmux client to the target,
+    // falling back to its window or session when the pane is gone
+    const targets = getTmuxFocusTargets(payload)
+    if (targets.length > 0) {
+      args.push(
+        '-execute',
+        targets
+          .map(
+            (target) =>
+              `tmux switch-client -t '${target.replace(/'/g, `'\\''`)}'`,
+          )
+          .join(' || '),
+      )
+    }
+
+    await this.run('terminal-notifier', args)
+  }
+}
+
+/**
+ * Desktop notifications on Linux through `notify-send` (D-Bus)
+ */
+export class NotifySendBackend implements NotificationBackend {
+  readonly name = 'notify-send'
+
+  constructor(private run: CommandRunner) {}
+
+  async isAvailable(): Promise<boolean> {
+    return commandExists(this.run, 'notify-send')
+  }
+
+  async send(payload: NotificationPayload): Promise<void> {
+    const args = ['--app-name', 'macos-notify-mcp']
+    // notify-send only knows low, normal and critical urgency
+    if (payload.priority === 'low') {
+      args.push('--urgency', 'low')
+    } else if (meetsPriority(payload.priority, 'high')) {
+      args.push('--urgency', 'critical')
+    }
+    args.push(payload.title, payload.message)
+
+    await this.run('notify-send', args)
+  }
+}
+
+/**
+ * Write notifications to a file, or to stderr when no file is configured.
+ * Never writes to stdout, which carries the MCP protocol.
+ */
+export class LogBackend implements NotificationBackend {
+  readonly name = 'log'
+
+  constructor(private logFile?: string) {}
+
+  async isAvailable(): Promise<boolean> {
+    return true
+  }
+
+  async send(payload: NotificationPayload): Promise<void> {
+    const target = formatTmuxTarget(payload)
+    const line = `[${new Date().toISOString()}] ${payload.title}: ${payload.message}${target ? ` (tmux: ${target})` : ''}\n`
+
+    if (this.logFile) {
+      appendFileSync(this.logFile, line)
+    } else {
+      process.stderr.write(line)
+    }
+  }
+}
+
+/**
+ * POST notifications as JSON to an HTTP endpoint (Slack, Discord, ntfy, ...)
+ */
+export class WebhookBackend implements NotificationBackend {
+  readonly name = 'webhook'
+
+  constructor(private options: WebhookOptions | undefined) {}
+
+  get minPriority(): Priority | undefined {
+    return this.options?.minPriority
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return !!this.options?.url
+  }
+
+  async send(payload: NotificationPayload): Promise<void> {
+    if (!this.options?.url) {
+      throw new Error('Webhook URL is not configured')
+    }
+
+    const { timeoutMs = 10000, retries = 2, backoffMs = 500 } = this.options
+    // Errors building the request, e.g. an invalid URL or a header that
+    // is not Latin-1, would fail every attempt the same way
+    let request: ReturnType<WebhookBackend['buildRequest']>
+    try {
+      request = this.buildRequest(payload)
+      new Request(request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: request.body,
+      })
+    } catch (error) {
+      throw new Error(
+        `Invalid webhook request: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      let failure: Error
+      let retryable = true
+      try {
+        const response = await fetch(request.url, {
+          method: 'POST',
+          headers: request.headers,
+          body: request.body,
+          signal: AbortSignal.timeout(timeoutMs),
+        })
+        if (response.ok) return
+
+        failure = new Error(
+          `Webhook responded with ${response.status} ${response.statusText}`,
+        )
+        // Client errors other than rate limiting will not succeed on retry
+        retryable = response.status >= 500 || response.status === 429
+      } catch (error) {
+        // Network errors and timeouts
+        failure = new Error(
+          `Webhook request failed: ${error instanceof Error ? error.message : String(error)}`,
+        )
+      }
+
+      if (!retryable || attempt >= retries) throw failure
+      await new Promise((resolve) =>
+        setTimeout(resolve, backoffMs * 2 ** attempt),
+      )
+    }
+  }
+
+  /**
+   * Render the request URL, body and headers for the configured format
+   */
+  buildRequest(payload: NotificationPayload): {
+    url: string
+    headers: Record<string, string>
+    body: string
+  } {
+    const {
+      url = '',
+      format = 'json',
+      template,
+      headers = {},
+    } = this.options ?? {}
+    const target = formatTmuxTarget(payload)
+    const fields: Record<string, string> = {
+      title: payload.title,
+      message: payload.message,
+      sound: payload.sound,
+      session: payload.session ?? '',
+      window: payload.window ?? '',
+      pane: payload.pane ?? '',
+      target: target ?? '',
+      priority: payload.priority ?? 'normal',
+      terminal: payload.terminal,
+      timestamp: new Date().toISOString(),
+    }
+
+    if (template) {
+      return {
+        url,
+        headers: { 'Content-Type': 'application/json', ...headers },
+        // Values are JSON-escaped so templates stay valid JSON
+        body: template.replace(/\{\{(\w+)\}\}/g, (placeholder, key: string) =>
+          key in fields
+            ? JSON.stringify(fields[key]).slice(1, -1)
+            : placeholder,
+        ),
+      }
+    }
+
+    switch (format) {
+      case 'slack':
+        return {
+          url,
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify({
+            text: `*${payload.title}*\n${payload.message}${target ? `\n_tmux: ${target}_` : ''}`,
+          }),
+        }
+      case 'discord':
+        return {
+          url,
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify({
+            content: `**${payload.title}**\n${payload.message}${target ? `\n*tmux: ${target}*` : ''}`,
+          }),
+        }
+      case 'ntfy': {
+        // Publish as JSON to the server root rather than with a Title
+        // header, which cannot carry titles outside Latin-1
+        const { topic, server } = parseNtfyUrl(url)
+        return {
+          url: server,
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify({
+            topic,
+            title: payload.title,
+            message: payload.message,
+            priority: NTFY_PRIORITIES[payload.priority ?? 'normal'],
+          }),
+        }
+      }
+      default:
+        return {
+          url,
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify({
+            title: payload.title,
+            message: payload.message,
+            sound: payload.sound,
+            session: payload.session,
+            window: payload.window,
+            pane: payload.pane,
+            target,
+            priority: fields.priority,
+            terminal: payload.terminal,
+            timestamp: fields.timestamp,
+          }),
+        }
+    }
+  }
+}
@@ -1,6 +1,43 @@
 #!/usr/bin/env node
 
-import { TmuxNotifier } from './notifier.js'
+import { isWebhookFormat, parseBackendList } from './backends.js'
+import { loadConfig, type NotifyConfig, toNotifierOptions } from './config.js'
+import { formatDiagnosis } from './doctor.js'
+import {
+  formatNotificationRecord,
+  type HistoryQuery,
+  type NotificationRecord,
+} from './history.js'
+import {
+  buildHookSettings,
+  DEFAULT_HOOK_EVENTS,
+  describeHookEvent,
+  getAgentSettingsPath,
+  HOOK_EVENTS,
+  type HookEvent,
+  type HookPayload,
+  installHooks,
+  isHookEvent,
+  parseHookPayload,
+} from './hooks.js'
+import { type NotifierOptions, TmuxNotifier } from './notifier.js'
+import { NotificationPolicy } from './policy.js'
+import { isPriority, PRIORITIES, type Priority } from './priority.js'
+import { executeCommand } from './run.js'
+import { formatScheduledNotification } from './schedule.js'
+import { startScheduler } from './scheduler.js'
+import {
+  hasTargetSelector,
+  type ResolvedTarget,
+  type TargetSelector,
+} from './target.js'
+import { TerminalRegistry } from './terminal.js'
+import {
+  formatDuration,
+  parseDueTime,
+  parseDuration,
+  parseTimeInput,
+} from './time.js'
 
 interface CliOptions {
   message: string
@@ -9,31 +46,506 @@ interface CliOptions {
   session?: string
   window?: string
   pane?: string
+  sessionId?: string
+  windowId?: string
+  paneId?: string
+  priority?: Priority
+  waitForClick?: boolean
+  timeoutMs?: number
+  /**
+   * Schedule the notification for this time instead of sending it now
+   */
+  dueAt?: Date
+}
+
+/**
+ * Get the value following a flag, if the flag is present
+ */
+function getOptionValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag)
+  return index >= 0 ? (args[index + 1] ?? '') : undefined
+}
+
+/**
+ * Validate a `--priority` value, exiting on an unknown level
+ */
+function parsePriority(value: string | undefined): Priority {
+  const priority = value ?? ''
+  if (!isPriority(priority)) {
+    console.error(
+      `Error: Invalid priority: ${priority} (expected one of: ${PRIORITIES.join(', ')})`,
+    )
+    process.exit(1)
+  }
+  return priority
+}
+
+/**
+ * Apply the flags that configure delivery on top of the config file options
+ */
+function parseNotifierOptions(
+  args: string[],
+  defaults: NotifierOptions,
+): NotifierOptions {
+  const options: NotifierOptions = { ...defaults }
+
+  const backends = getOptionValue(args, '--backend')
+  if (backends !== undefined) {
+    options.backends = parseBackendList(backends)
+  }
+
+  const webhookUrl = getOptionValue(args, '--webhook')
+  if (webhookUrl !== undefined) {
+    const format = getOptionValue(args, '--webhook-format')
+    if (format !== undefined && !isWebhookFormat(format)) {
+      throw new Error(`Unknown webhook format: ${format}`)
+    }
+    options.webhook = { url: webhookUrl, format }
+    options.backends = [...(options.backends ?? ['auto']), 'webhook']
+  }
+
+  const terminal = getOptionValue(args, '--terminal')
+  if (terminal !== undefined) {
+    const registry = new TerminalRegistry(options.terminals)
+    if (!registry.has(terminal)) {
+      throw new Error(
+        `Unknown terminal: ${terminal} (expected one of: ${registry.names.join(', ')})`,
+      )
+    }
+    options.terminal = terminal
+  }
+
+  return options
+}
+
+/**
+ * Print notification history (`macos-notify-cli history [options]`)
+ */
+async function showHistory(notifier: TmuxNotifier, args: string[]) {
+  const query: HistoryQuery = { limit: 20 }
+  let json = false
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '-s':
+      case '--session':
+        query.session = args[++i]
+        break
+      case '--since':
+      case '--until': {
+        const flag = args[i]
+        const date = parseTimeInput(args[++i] ?? '', 'ago')
+        if (!date) {
+          console.error(`Error: Invalid time for ${flag}: ${args[i]}`)
+          process.exit(1)
+        }
+        query[flag === '--since' ? 'since' : 'until'] = date
+        break
+      }
+      case '--grep':
+        query.text = args[++i]
+        break
+      case '-n':
+      case '--limit':
+        query.limit = Number(args[++i])
+        if (!Number.isInteger(query.limit) || query.limit < 0) {
+          console.error(`Error: Invalid limit: ${args[i]}`)
+          process.exit(1)
+        }
+        break
+      case '--all':
+        query.limit = undefined
+        break
+      case '--json':
+        json = true
+        break
+    }
+  }
+
+  const records = await notifier.listNotifications(query)
+  if (json) {
+    console.log(JSON.stringify(records, null, 2))
+  } else if (records.length === 0) {
+    console.log('No notifications found')
+  } else {
+    records.forEach((record) => console.log(formatNotificationRecord(record)))
+  }
+}
+
+/**
+ * Parse `--for <duration>` / `--until <time>`; `null` means indefinitely
+ */
+function parseUntil(args: string[], fallback: string | null): Date | null {
+  const value =
+    getOptionValue(args, '--until') ?? getOptionValue(args, '--for') ?? fallback
+  if (value === null) return null
+
+  const until = parseTimeInput(value, 'ahead')
+  if (!until || until.getTime() <= Date.now()) {
+    console.error(`Error: Invalid end time: ${value}`)
+    process.exit(1)
+  }
+  return until
+}
+
+/**
+ * List or cancel scheduled notifications (`scheduled [cancel <id>]`)
+ */
+async function manageScheduled(notifier: TmuxNotifier, args: string[]) {
+  if (args[0] === 'cancel') {
+    const id = args[1]
+    if (!id) {
+      console.error('Error: Scheduled notification id is required')
+      process.exit(1)
+    }
+    const cancelled = await notifier.cancelScheduled(id)
+    if (!cancelled) {
+      console.error(`Error: Scheduled notification '${id}' not found`)
+      process.exit(1)
+    }
+    console.log(
+      `Cancelled notification scheduled for ${new Date(cancelled.dueAt).toLocaleString()}`,
+    )
+    return
+  }
+
+  const scheduled = await notifier.listScheduled()
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(scheduled, null, 2))
+  } else if (scheduled.length === 0) {
+    console.log('No scheduled notifications')
+  } else {
+    scheduled.forEach((item) => console.log(formatScheduledNotification(item)))
+  }
+}
+
+/**
+ * Manage meeting mode and session mutes (`dnd`, `mute`, `unmute`)
+ */
+function manageDoNotDisturb(command: string, args: string[]) {
+  const policy = new NotificationPolicy()
+
+  if (command === 'mute' || command === 'unmute') {
+    const session = args[0]
+    if (!session || session.startsWith('-')) {
+      console.error(`Error: Session name is required (${command} <session>)`)
+      process.exit(1)
+    }
+    if (command === 'mute') {
+      const until = parseUntil(args, null)
+      policy.muteSession(session, until)
+      console.log(
+        `Muted session '${session}'${until ? ` until ${until.toLocaleString()}` : ''}`,
+      )
+    } else {
+      policy.unmuteSession(session)
+      console.log(`Unmuted session '${session}'`)
+    }
+    return
+  }
+
+  switch (args[0]) {
+    case 'meeting': {
+      const until = parseUntil(args, '1h') as Date
+      policy.setMeeting(until)
+      console.log(
+        `Meeting mode on until ${until.toLocaleString()}: only high and critical priority notifications are delivered`,
+      )
+      break
+    }
+    case 'off':
+      policy.setMeeting(null)
+      console.log('Meeting mode off')
+      break
+    case 'status':
+    case undefined: {
+      const state = policy.getState()
+      console.log(
+        state.meetingUntil
+          ? `Meeting mode on until ${new Date(state.meetingUntil).toLocaleString()}`
+          : 'Meeting mode off',
+      )
+      for (const [session, until] of Object.entries(state.mutedSessions)) {
+        console.log(
+          `Muted session '${session}'${until ? ` until ${new Date(until).toLocaleString()}` : ''}`,
+        )
+      }
+      break
+    }
+    default:
+      console.error(`Error: Unknown dnd command: ${args[0]}`)
+      process.exit(1)
+  }
+}
+
+/**
+ * Read all of stdin, or nothing when it is a terminal
+ */
+async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) return ''
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) chunks.push(Buffer.from(chunk))
+  return Buffer.concat(chunks).toString('utf-8')
+}
+
+/**
+ * Notify about an agent lifecycle event (`macos-notify-cli hook <event>`)
+ * from the hook payload on stdin. Prints nothing on stdout, which agents may
+ * add to the conversation.
+ */
+async function handleHook(
+  notifier: TmuxNotifier,
+  config: NotifyConfig,
+  event: string | undefined,
+) {
+  if (!event) {
+    console.error('Error: Hook event is required (e.g. hook Stop)')
+    process.exit(1)
+  }
+  const hook = isHookEvent(event) ? (config.hooks?.[event] ?? {}) : {}
+  if (hook.enabled === false) return
+
+  let payload: HookPayload
+  try {
+    payload = parseHookPayload(await readStdin())
+  } catch (error) {
+    console.error(
+      `Error: Invalid hook payload: ${error instanceof Error ? error.message : String(error)}`,
+    )
+    process.exit(1)
+  }
+
+  // Hooks run inside the agent's pane, so clicking leads back to it
+  const current = await notifier.getCurrentTmuxInfo()
+  try {
+    await notifier.sendNotification({
+      ...current,
+      title: hook.title,
+      message: describeHookEvent(event, payload),
+      sound: hook.sound,
+      priority: hook.priority,
+    })
+  } catch (error) {
+    console.error('Failed to send notification:', error)
+    process.exit(1)
+  }
+}
+
+/**
+ * Add hooks running `macos-notify-cli hook <event>` to the agent settings
+ * (`macos-notify-cli install-hooks [options]`)
+ */
+function manageHookInstall(args: string[]) {
+  let events = DEFAULT_HOOK_EVENTS
+  const eventList = getOptionValue(args, '--events')
+  if (eventList !== undefined) {
+    const names = eventList.split(',').map((name) => name.trim())
+    const unknown = names.find((name) => !isHookEvent(name))
+    if (unknown !== undefined) {
+      console.error(
+        `Error: Unknown hook event: ${unknown} (expected one of: ${HOOK_EVENTS.join(', ')})`,
+      )
+      process.exit(1)
+    }
+    events = names as HookEvent[]
+  }
+
+  if (args.includes('--print')) {
+    console.log(JSON.stringify(buildHookSettings(events), null, 2))
+    return
+  }
+
+  const path =
+    getOptionValue(args, '--settings') ??
+    getAgentSettingsPath({ project: args.includes('--project') })
+  let added: HookEvent[]
+  try {
+    added = installHooks(path, events)
+  } catch (error) {
+    console.error(
+      `Error: ${error instanceof Error ? error.message : String(error)}`,
+    )
+    process.exit(1)
+  }
+  console.log(
+    added.length > 0
+      ? `Installed hooks for ${added.join(', ')} in ${path}`
+      : `Hooks are already installed in ${path}`,
+  )
+}
+
+/**
+ * Sound of the notification when a command run with `run` fails
+ */
+const FAILURE_SOUND = 'Basso'
+
+/**
+ * Run a command and notify when it finishes
+ * (`macos-notify-cli run [options] -- <command...>`); returns the exit code
+ * of the command
+ */
+async function runCommand(
+  notifier: TmuxNotifier,
+  args: string[],
+  command: string[],
+): Promise<number> {
+  if (command.length === 0) {
+    console.error('Error: Command is required (run [options] -- <command...>)')
+    process.exit(1)
+  }
+
+  const options: Omit<CliOptions, 'message'> = {}
+  let tailLines = 5
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '-t':
+      case '--title':
+        options.title = args[++i]
+        break
+      case '--sound':
+        options.sound = args[++i]
+        break
+      case '--priority':
+        options.priority = parsePriority(args[++i])
+        break
+      case '--lines':
+        tailLines = Number(args[++i])
+        if (!Number.isInteger(tailLines) || tailLines < 0) {
+          console.error(`Error: Invalid number of lines: ${args[i]}`)
+          process.exit(1)
+        }
+        break
+    }
+  }
+
+  const result = await executeCommand(command, { tailLines })
+  const failed = result.exitCode !== 0
+  const commandLine = command.join(' ')
+
+  const duration = formatDuration(result.durationMs)
+  let status = `Exited with ${result.exitCode} after ${duration}`
+  if (result.error) {
+    status = `Could not start: ${result.error}`
+  } else if (result.signal) {
+    status = `Killed by ${result.signal} after ${duration}`
+  }
+
+  // Clicking takes you back to the pane the command ran in
+  const current = await notifier.getCurrentTmuxInfo()
+  try {
+    await notifier.sendNotification({
+      ...current,
+      ...options,
+      title:
+        options.title ?? `${failed ? 'Failed' : 'Succeeded'}: ${commandLine}`,
+      message: [status, ...result.tail].join('\n'),
+      sound: options.sound ?? (failed ? FAILURE_SOUND : undefined),
+    })
+  } catch (error) {
+    console.error('Failed to send notification:', error)
+  }
+
+  return result.exitCode
 }
 
 export async function main() {
-  const notifier = new TmuxNotifier()
+  // Parse command line arguments; for `run`, everything after `--` is the
+  // command to run
+  const argv = process.argv.slice(2)
+  const separator = argv[0] === 'run' ? argv.indexOf('--') : -1
+  const args = separator >= 0 ? argv.slice(0, separator) : argv
+  const command = separator >= 0 ? argv.slice(separator + 1) : []
 
-  // Parse command line arguments
-  const args = process.argv.slice(2)
+  let config: NotifyConfig
+  let notifier: TmuxNotifier
+  try {
+    config = loadConfig({ path: getOptionValue(args, '--config') })
+    notifier = new TmuxNotifier(
+      config.appPath,
+      parseNotifierOptions(args, toNotifierOptions(config)),
+    )
+  } catch (error) {
+    console.error(
+      `Error: ${error instanceof Error ? error.message : String(error)}`,
+    )
+    process.exit(1)
+  }
 
   if (args.includes('--help') || args.includes('-h')) {
     console.log(`
 Usage:
   macos-notify-cli [options]
+  macos-notify-cli history [history options]
+  macos-notify-cli dnd [meeting [--for <duration> | --until <time>] | off | status]
+  macos-notify-cli mute <session> [--for <duration> | --until <time>]
+  macos-notify-cli unmute <session>
+  macos-notify-cli digest
+  macos-notify-cli doctor [--json]
+  macos-notify-cli scheduled [--json | cancel <id>]
+  macos-notify-cli daemon
+  macos-notify-cli run [run options] -- <command...>
+  macos-notify-cli hook <event>
+  macos-notify-cli install-hooks [install options]
 
 Options:
   -m, --message <text>    Notification message (required)
   -t, --title <text>      Notification title (default: git repository name)
   -s, --session <name>    tmux session name
-  -w, --window <number>   tmux window number
-  -p, --pane <number>     tmux pane number
+  -w, --window <window>   tmux window index or name
+  -p, --pane <pane>       tmux pane index, pane title, or id like %3
+  --cwd <glob>            Target the pane whose working directory matches
+                          (e.g. ~/src/api, or api for the last component)
+  --command <command>     Target the pane running this command (e.g. "npm test")
   --sound <name>          Notification sound (default: "Glass")
+  --priority <level>      low, normal, high or critical (default: normal);
+                          high is delivered in meetings, critical also
+                          during quiet hours
+  --backend <names>       Comma-separated backends: auto, macos-app,
+                          terminal-notifier, notify-send, log, webhook
+                          (default: auto)
+  --webhook <url>         Also POST the notification to this URL
+  --webhook-format <fmt>  Webhook payload: json, slack, discord, ntfy
+  --config <path>         Config file (default: MACOS_NOTIFY_CONFIG or
+                          ~/.config/macos-notify-mcp/config.json)
+  --terminal <name>       Skip terminal detection and assume this terminal,
+                          e.g. iTerm2, WezTerm, Kitty or Ghostty
+  --wait <seconds>        Wait until the notification is clicked (exit 0),
+                          dismissed (exit 1) or the time is up (exit 2)
+  --at <time>             Deliver at this time instead of now (HH:MM, or an
+                          ISO date); needs a running MCP server or daemon
+  --in <duration>         Deliver after this delay (e.g. 20m or 1h30m)
   --current-tmux          Use current tmux location
   --list-sessions         List available tmux sessions
   --detect-terminal       Detect and display the current terminal emulator
+                          (see doctor for how it was detected)
   -h, --help              Show this help message
 
+History options:
+  -s, --session <name>    Only notifications targeting this tmux session
+  --since <time>          Only notifications after this time
+  --until <time>          Only notifications before this time
+                          (ISO date, HH:MM, or a duration like 2h ago)
+  --grep <text>           Search titles and messages
+  -n, --limit <number>    Maximum number of notifications (default: 20)
+  --all                   Show every matching notification
+  --json                  Print records as JSON
+
+Run options:
+  -t, --title <text>      Notification title
+                          (default: Succeeded: or Failed: and the command)
+  --sound <name>          Notification sound (default: "Glass", or "Basso"
+                          when the command fails)
+  --priority <level>      Priority of the notification
+  --lines <number>        Lines of output to include (default: 5)
+
+Install options:
+  --events <names>        Comma-separated hook events
+                          (default: Notification,Stop)
+  --project               Install into .claude/settings.json of this
+                          directory instead of ~/.claude/settings.json
+  --settings <path>       Install into this settings file
+  --print                 Print the settings snippet instead of installing
+
 Examples:
   # Basic notification
   macos-notify-cli -m "Build completed"
@@ -43,10 +555,99 @@ Examples:
   
   # Use current tmux location
   macos-notify-cli -m "Task finished" --current-tmux
+
+  # What did the agent say over lunch?
+  macos-notify-cli history --since 12:00 --until 13:00
+
+  # Click through to the pane running the tests
+  macos-notify-cli -m "Tests failed" --command "npm test"
+
+  # Only high and critical notifications for the next 45 minutes
+  macos-notify-cli dnd meeting --for 45m
+
+  # Deploy once the notification is clicked within 5 minutes
+  macos-notify-cli -m "Deploy ready?" --wait 300 && ./deploy.sh
+
+  # Blocked waiting for approval: break through meeting mode and quiet hours
+  macos-notify-cli -m "Approve the migration?" --priority critical
+
+  # Remind me to check the deploy in 15 minutes
+  macos-notify-cli -m "Check the deploy" --in 15m
+
+  # Notify with the last lines of output when the build finishes
+  macos-notify-cli run -- npm run build
+
+  # Notify when the agent needs permission or finishes a task
+  macos-notify-cli install-hooks
+
+  # Deliver scheduled notifications without an MCP server running
+  macos-notify-cli daemon
+
+  # Why does clicking a notification open the wrong app?
+  macos-notify-cli doctor
+
+  # Also send to a Slack incoming webhook
+  macos-notify-cli -m "Deploy done" --webhook https://hooks.slack.com/... --webhook-format slack
     `)
     process.exit(0)
   }
 
+  if (args[0] === 'history') {
+    await showHistory(notifier, args.slice(1))
+    process.exit(0)
+  }
+
+  if (args[0] === 'dnd' || args[0] === 'mute' || args[0] === 'unmute') {
+    manageDoNotDisturb(args[0], args.slice(1))
+    process.exit(0)
+  }
+
+  if (args[0] === 'digest') {
+    const record = await notifier.flushDigest()
+    console.log(
+      record ? `Delivered digest: ${record.title}` : 'No digest to deliver',
+    )
+    process.exit(0)
+  }
+
+  if (args[0] === 'doctor') {
+    const diagnosis = await notifier.diagnose()
+    console.log(
+      args.includes('--json')
+        ? JSON.stringify(diagnosis, null, 2)
+        : formatDiagnosis(diagnosis),
+    )
+    process.exit(0)
+  }
+
+  if (args[0] === 'scheduled') {
+    await manageScheduled(notifier, args.slice(1))
+    process.exit(0)
+  }
+
+  if (args[0] === 'hook') {
+    await handleHook(notifier, config, args[1])
+    process.exit(0)
+  }
+
+  if (args[0] === 'install-hooks') {
+    manageHookInstall(args.slice(1))
+    process.exit(0)
+  }
+
+  if (args[0] === 'run') {
+    process.exit(await runCommand(notifier, args.slice(1), command))
+  }
+
+  if (args[0] === 'daemon') {
+    // Runs until interrupted
+    startScheduler(notifier, { keepAlive: true })
+    console.log(
+      'Delivering scheduled notifications, digests and reminders (Ctrl-C to stop)',
+    )
+    return
+  }
+
   if (args.includes('--list-sessions')) {
     const sessions = await notifier.listSessions()
     console.log('Available tmux sessions:')
@@ -64,6 +665,8 @@ Examples:
   const options: CliOptions = {
     message: '',
   }
+  const selector: TargetSelector = {}
+  let currentTmux = false
 
   for (let i = 0; i < args.length; i++) {
     switch (args[i]) {
@@ -77,25 +680,72 @@ Examples:
         break
       case '-s':
       case '--session':
-        options.session = args[++i]
+        selector.session = args[++i]
         break
       case '-w':
       case '--window':
-        options.window = args[++i]
+        selector.window = args[++i]
         break
       case '-p':
       case '--pane':
-        options.pane = args[++i]
+        selector.pane = args[++i]
+        break
+      case '--cwd':
+        selector.cwd = args[++i]
+        break
+      case '--command':
+        selector.command = args[++i]
         break
       case '--sound':
         options.sound = args[++i]
         break
+      case '--priority':
+        options.priority = parsePriority(args[++i])
+        break
+      case '--wait': {
+        const seconds = Number(args[++i])
+        if (!Number.isFinite(seconds) || seconds <= 0) {
+          console.error(`Error: Invalid wait time: ${args[i]} (seconds)`)
+          process.exit(1)
+        }
+        options.waitForClick = true
+        options.timeoutMs = seconds * 1000
+        break
+      }
+      case '--at':
+      case '--in': {
+        const flag = args[i]
+        const value = args[++i] ?? ''
+        let dueAt = parseDueTime(value)
+        if (flag === '--in') {
+          const duration = parseDuration(value)
+          dueAt = duration === null ? null : new Date(Date.now() + duration)
+        }
+        if (!dueAt || dueAt.getTime() <= Date.now()) {
+          console.error(`Error: Invalid time for ${flag}: ${value}`)
+          process.exit(1)
+        }
+        options.dueAt = dueAt
+        break
+      }
+      case '--backend':
+      case '--config':
+      case '--terminal':
+      case '--webhook':
+      case '--webhook-format':
+        // Already handled when creating the notifier
+        i++
+        break
       case '--current-tmux': {
         const current = await notifier.getCurrentTmuxInfo()
+        currentTmux = true
         if (current) {
           options.session = current.session
           options.window = current.window
           options.pane = current.pane
+          options.sessionId = current.sessionId
+          options.windowId = current.windowId
+          options.paneId = current.paneId
         } else {
           console.error('Error: Not in a tmux session')
           process.exit(1)
@@ -110,29 +760,72 @@ Examples:
     process.exit(1)
   }
 
-  // Check if session exists
-  if (options.session) {
-    const exists = await notifier.sessionExists(options.session)
-    if (!exists) {
-      console.error(`Error: Session '${options.session}' does not exist`)
-      const sessions = await notifier.listSessions()
-      if (sessions.length > 0) {
-        console.log('\nAvailable sessions:')
-        sessions.forEach((s) => console.log(`  ${s}`))
-      }
+  // Resolve names, ids, cwd globs and commands to tmux indexes and ids
+  if (!currentTmux && hasTargetSelector(selector)) {
+    let target: ResolvedTarget
+    try {
+      target = await notifier.resolveTarget(selector)
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`,
+      )
       process.exit(1)
     }
+    options.session = target.session
+    if (target.window !== undefined) options.window = target.window
+    if (target.pane !== undefined) options.pane = target.pane
+    options.sessionId = target.sessionId
+    if (target.windowId !== undefined) options.windowId = target.windowId
+    if (target.paneId !== undefined) options.paneId = target.paneId
+  }
+
+  if (options.dueAt) {
+    if (options.waitForClick) {
+      console.error('Error: --wait cannot be combined with --at or --in')
+      process.exit(1)
+    }
+    const { dueAt, ...notification } = options
+    const scheduled = await notifier.scheduleNotification(notification, dueAt)
+    console.log(
+      `Notification scheduled for ${dueAt.toLocaleString()} (id: ${scheduled.id})`,
+    )
+    process.exit(0)
   }
 
   // Send notification
+  let record: NotificationRecord
   try {
-    await notifier.sendNotification(options)
-    console.log('Notification sent successfully')
-    process.exit(0)
+    record = await notifier.sendNotification(options)
   } catch (error) {
     console.error('Failed to send notification:', error)
     process.exit(1)
   }
+
+  if (record.status !== 'delivered') {
+    console.log(`Notification ${record.status}: ${record.reason}`)
+    process.exit(options.waitForClick ? 1 : 0)
+  }
+
+  if (!options.waitForClick) {
+    console.log('Notification sent successfully')
+    process.exit(0)
+  }
+  if (record.acknowledgement === 'clicked') {
+    console.log('Notification clicked')
+    process.exit(0)
+  }
+  if (record.acknowledgement === 'dismissed') {
+    console.log('Notification dismissed')
+    process.exit(1)
+  }
+  if (record.acknowledgement === 'timeout') {
+    console.log(`No click within ${(options.timeoutMs ?? 0) / 1000}s`)
+    process.exit(2)
+  }
+  console.error(
+    'Error: None of the backends can report clicks (use the macos-app backend, version 2.0 or later)',
+  )
+  process.exit(1)
 }
 
 // Export for testing (already exported as function declaration)
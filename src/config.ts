@@ -0,0 +1,798 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { homedir } from 'node:os'
+import { dirname, join, resolve, sep } from 'node:path'
+import {
+  type BackendSelection,
+  isWebhookFormat,
+  parseBackendList,
+  type WebhookOptions,
+} from './backends.js'
+import type { EscalationOptions, EscalationStep } from './escalation.js'
+import {
+  HOOK_EVENTS,
+  type HookEvent,
+  type HookEventConfig,
+  isHookEvent,
+} from './hooks.js'
+import type { NotifierOptions } from './notifier.js'
+import { QUIET_HOURS_ACTIONS, type QuietHoursAction } from './policy.js'
+import { isPriority, PRIORITIES } from './priority.js'
+import {
+  type TerminalDefinition,
+  TerminalRegistry,
+  type TerminalType,
+  UNKNOWN_TERMINAL,
+} from './terminal.js'
+import type { ThrottleOptions } from './throttle.js'
+
+export const WEEKDAYS = [
+  'sun',
+  'mon',
+  'tue',
+  'wed',
+  'thu',
+  'fri',
+  'sat',
+] as const
+
+export type Weekday = (typeof WEEKDAYS)[number]
+
+export interface QuietHours {
+  /**
+   * Start time in 24-hour `HH:MM` format
+   */
+  start: string
+  /**
+   * End time in 24-hour `HH:MM` format; may be earlier than `start` to span
+   * midnight
+   */
+  end: string
+  /**
+   * Days the range starts on (default: every day)
+   */
+  days?: Weekday[]
+}
+
+/**
+ * Settings that can be overridden per project
+ */
+export interface ProjectConfig {
+  defaults?: {
+    title?: string
+    sound?: string
+  }
+  backends?: BackendSelection[]
+  logFile?: string
+  webhook?: WebhookOptions
+  quietHours?: QuietHours[]
+  /**
+   * What happens during quiet hours (default: defer)
+   */
+  quietHoursAction?: QuietHoursAction
+  /**
+   * Sessions whose notifications are always dropped
+   */
+  mutedSessions?: string[]
+  /**
+   * Notifications sent by `macos-notify-cli hook <event>`, keyed by event
+   */
+  hooks?: Partial<Record<HookEvent, HookEventConfig>>
+}
+
+export interface NotifyConfig extends ProjectConfig {
+  appPath?: string
+  historyFile?: string
+  /**
+   * Terminal emulator to assume instead of detecting it
+   */
+  terminal?: TerminalType
+  /**
+   * Additional terminal emulators to detect, tried before the built-in ones
+   */
+  terminals?: TerminalDefinition[]
+  /**
+   * Rate limiting and duplicate suppression; `false` disables it
+   */
+  throttle?: ThrottleOptions | false
+  /**
+   * Reminders sent while a high priority notification is not clicked
+   */
+  escalation?: EscalationOptions
+  /**
+   * Overrides keyed by project directory (absolute or `~/...`), applied when
+   * the working directory is inside it
+   */
+  projects?: Record<string, ProjectConfig>
+}
+
+/**
+ * Per-repository config file, looked up from the working directory upwards
+ */
+export const PROJECT_CONFIG_FILE = '.macos-notify.json'
+
+/**
+ * Settings only the user config and its `projects` map may set: they decide
+ * where notifications are sent and which file is written, so a cloned
+ * repository must not be able to change them
+ */
+const USER_ONLY_KEYS = ['backends', 'logFile', 'webhook']
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ConfigError'
+  }
+}
+
+/**
+ * Get the user config path: explicit path, MACOS_NOTIFY_CONFIG, or
+ * $XDG_CONFIG_HOME/macos-notify-mcp/config.json
+ */
+export function getConfigPath(explicitPath?: string): string {
+  if (explicitPath) return expandHome(explicitPath)
+  if (process.env.MACOS_NOTIFY_CONFIG) {
+    return expandHome(process.env.MACOS_NOTIFY_CONFIG)
+  }
+  const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), '.config')
+  return join(configHome, 'macos-notify-mcp', 'config.json')
+}
+
+/**
+ * Load the user config and apply project overrides for `cwd`
+ */
+export function loadConfig(
+  options: { path?: string; cwd?: string } = {},
+): NotifyConfig {
+  const cwd = resolve(options.cwd ?? process.cwd())
+  const path = getConfigPath(options.path)
+  // A missing default file is fine; a missing file the user pointed at is not
+  const required = !!(options.path || process.env.MACOS_NOTIFY_CONFIG)
+
+  let config: NotifyConfig = {}
+  if (existsSync(path)) {
+    config = validateConfig(readJson(path), path)
+  } else if (required) {
+    throw new ConfigError(`Config file not found: ${path}`)
+  }
+
+  // Apply matching project entries, outermost directory first
+  const projects = Object.entries(config.projects ?? {})
+    .map(([dir, project]) => [resolve(expandHome(dir)), project] as const)
+    .filter(([dir]) => cwd === dir || cwd.startsWith(dir + sep))
+    .sort(([a], [b]) => a.length - b.length)
+  for (const [, project] of projects) {
+    config = mergeConfig(config, project)
+  }
+
+  const projectFile = findProjectConfig(cwd)
+  if (projectFile) {
+    config = mergeConfig(
+      config,
+      validateProjectConfig(
+        readJson(projectFile),
+        projectFile,
+        '',
+        ['$schema'],
+        true,
+      ),
+    )
+  }
+
+  return config
+}
+
+/**
+ * Convert a loaded config into TmuxNotifier options
+ */
+export function toNotifierOptions(config: NotifyConfig): NotifierOptions {
+  return {
+    backends: config.backends,
+    logFile: config.logFile,
+    webhook: config.webhook,
+    defaultTitle: config.defaults?.title,
+    defaultSound: config.defaults?.sound,
+    quietHours: config.quietHours,
+    quietHoursAction: config.quietHoursAction,
+    mutedSessions: config.mutedSessions,
+    historyFile: config.historyFile,
+    throttle: config.throttle,
+    escalation: config.escalation,
+    terminal: config.terminal,
+    terminals: config.terminals,
+  }
+}
+
+/**
+ * Find the quiet hour range `date` falls within, if any
+ */
+export function findQuietHours(
+  quietHours: QuietHours[] | undefined,
+  date: Date = new Date(),
+): QuietHours | undefined {
+  const minutes = date.getHours() * 60 + date.getMinutes()
+  const today = WEEKDAYS[date.getDay()]
+  const yesterday = WEEKDAYS[(date.getDay() + 6) % 7]
+
+  return (quietHours ?? []).find((range) => {
+    const start = parseTime(range.start)
+    const end = parseTime(range.end)
+    const onDay = (day: Weekday) => !range.days || range.days.includes(day)
+
+    if (start <= end) {
+      return onDay(today) && minutes >= start && minutes < end
+    }
+    // Overnight range: the early-morning part belongs to the previous day
+    return (
+      (onDay(today) && minutes >= start) || (onDay(yesterday) && minutes < end)
+    )
+  })
+}
+
+/**
+ * Check whether `date` falls within any of the quiet hour ranges
+ */
+export function isQuietTime(
+  quietHours: QuietHours[] | undefined,
+  date: Date = new Date(),
+): boolean {
+  return findQuietHours(quietHours, date) !== undefined
+}
+
+function parseTime(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+function expandHome(path: string): string {
+  return path === '~' || path.startsWith('~/')
+    ? join(homedir(), path.slice(1))
+    : path
+}
+
+function readJson(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'))
+  } catch (error) {
+    throw new ConfigError(
+      `Failed to read config file ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    )
+  }
+}
+
+function findProjectConfig(cwd: string): string | null {
+  let dir = cwd
+  while (true) {
+    const candidate = join(dir, PROJECT_CONFIG_FILE)
+    if (existsSync(candidate)) return candidate
+    const parent = dirname(dir)
+    if (parent === dir) return null
+    dir = parent
+  }
+}
+
+function mergeConfig(
+  base: NotifyConfig,
+  override: ProjectConfig,
+): NotifyConfig {
+  return {
+    ...base,
+    ...override,
+    defaults: { ...base.defaults, ...override.defaults },
+    webhook: override.webhook
+      ? { ...base.webhook, ...override.webhook }
+      : base.webhook,
+    hooks: override.hooks ? { ...base.hooks, ...override.hooks } : base.hooks,
+  }
+}
+
+/**
+ * Validate a parsed user config file
+ */
+export function validateConfig(value: unknown, source: string): NotifyConfig {
+  const object = expectObject(value, source, 'config')
+  const config: NotifyConfig = validateProjectConfig(object, source, '', [
+    'appPath',
+    'historyFile',
+    'terminal',
+    'terminals',
+    'throttle',
+    'escalation',
+    'projects',
+    '$schema',
+  ])
+
+  if (object.appPath !== undefined) {
+    config.appPath = expectString(object.appPath, source, 'appPath')
+  }
+
+  if (object.historyFile !== undefined) {
+    config.historyFile = expandHome(
+      expectString(object.historyFile, source, 'historyFile'),
+    )
+  }
+
+  if (object.terminals !== undefined) {
+    if (!Array.isArray(object.terminals)) {
+      fail(source, 'terminals', 'must be an array')
+    }
+    config.terminals = object.terminals.map((terminal, index) =>
+      validateTerminal(terminal, source, `terminals[${index}]`),
+    )
+  }
+
+  if (object.terminal !== undefined) {
+    const terminal = expectString(object.terminal, source, 'terminal')
+    const registry = new TerminalRegistry(config.terminals)
+    if (!registry.has(terminal)) {
+      fail(source, 'terminal', `must be one of ${registry.names.join(', ')}`)
+    }
+    config.terminal = terminal
+  }
+
+  if (object.throttle !== undefined) {
+    config.throttle = validateThrottle(object.throttle, source)
+  }
+
+  if (object.escalation !== undefined) {
+    config.escalation = validateEscalation(object.escalation, source)
+  }
+
+  if (object.projects !== undefined) {
+    const projects = expectObject(object.projects, source, 'projects')
+    config.projects = {}
+    for (const [dir, project] of Object.entries(projects)) {
+      config.projects[dir] = validateProjectConfig(
+        expectObject(project, source, `projects["${dir}"]`),
+        source,
+        `projects["${dir}"].`,
+      )
+    }
+  }
+
+  return config
+}
+
+function validateProjectConfig(
+  value: unknown,
+  source: string,
+  prefix = '',
+  extraKeys: string[] = [],
+  repository = false,
+): ProjectConfig {
+  const object = expectObject(value, source, prefix || 'config')
+  const allowed = [
+    'defaults',
+    'backends',
+    'logFile',
+    'webhook',
+    'quietHours',
+    'quietHoursAction',
+    'mutedSessions',
+    'hooks',
+    ...extraKeys,
+  ]
+  for (const key of Object.keys(object)) {
+    if (!allowed.includes(key)) {
+      fail(source, `${prefix}${key}`, 'is not a known setting')
+    }
+    if (repository && USER_ONLY_KEYS.includes(key)) {
+      fail(
+        source,
+        `${prefix}${key}`,
+        'can only be set in the user config (use its projects map)',
+      )
+    }
+  }
+
+  const config: ProjectConfig = {}
+
+  if (object.defaults !== undefined) {
+    const defaults = expectObject(object.defaults, source, `${prefix}defaults`)
+    config.defaults = {}
+    if (defaults.title !== undefined) {
+      config.defaults.title = expectString(
+        defaults.title,
+        source,
+        `${prefix}defaults.title`,
+      )
+    }
+    if (defaults.sound !== undefined) {
+      config.defaults.sound = expectString(
+        defaults.sound,
+        source,
+        `${prefix}defaults.sound`,
+      )
+    }
+  }
+
+  if (object.backends !== undefined) {
+    const backends = object.backends
+    if (
+      !Array.isArray(backends) ||
+      !backends.every((name) => typeof name === 'string')
+    ) {
+      fail(source, `${prefix}backends`, 'must be an array of backend names')
+    }
+    try {
+      config.backends = parseBackendList(backends.join(','))
+    } catch (error) {
+      fail(source, `${prefix}backends`, (error as Error).message)
+    }
+  }
+
+  if (object.logFile !== undefined) {
+    config.logFile = expandHome(
+      expectString(object.logFile, source, `${prefix}logFile`),
+    )
+  }
+
+  if (object.webhook !== undefined) {
+    config.webhook = validateWebhook(object.webhook, source, `${prefix}webhook`)
+  }
+
+  if (object.quietHours !== undefined) {
+    if (!Array.isArray(object.quietHours)) {
+      fail(source, `${prefix}quietHours`, 'must be an array')
+    }
+    config.quietHours = object.quietHours.map((range, index) =>
+      validateQuietHours(range, source, `${prefix}quietHours[${index}]`),
+    )
+  }
+
+  if (object.quietHoursAction !== undefined) {
+    const action = expectString(
+      object.quietHoursAction,
+      source,
+      `${prefix}quietHoursAction`,
+    )
+    if (!QUIET_HOURS_ACTIONS.includes(action as QuietHoursAction)) {
+      fail(
+        source,
+        `${prefix}quietHoursAction`,
+        `must be one of ${QUIET_HOURS_ACTIONS.join(', ')}`,
+      )
+    }
+    config.quietHoursAction = action as QuietHoursAction
+  }
+
+  if (object.mutedSessions !== undefined) {
+    const sessions = object.mutedSessions
+    if (
+      !Array.isArray(sessions) ||
+      !sessions.every((session) => typeof session === 'string')
+    ) {
+      fail(source, `${prefix}mutedSessions`, 'must be an array of strings')
+    }
+    config.mutedSessions = sessions
+  }
+
+  if (object.hooks !== undefined) {
+    const hooks = expectObject(object.hooks, source, `${prefix}hooks`)
+    config.hooks = {}
+    for (const [event, hook] of Object.entries(hooks)) {
+      if (!isHookEvent(event)) {
+        fail(
+          source,
+          `${prefix}hooks.${event}`,
+          `is not a hook event (expected one of ${HOOK_EVENTS.join(', ')})`,
+        )
+      }
+      config.hooks[event] = validateHookEvent(
+        hook,
+        source,
+        `${prefix}hooks.${event}`,
+      )
+    }
+  }
+
+  return config
+}
+
+function validateHookEvent(
+  value: unknown,
+  source: string,
+  path: string,
+): HookEventConfig {
+  const object = expectObject(value, source, path)
+  for (const key of Object.keys(object)) {
+    if (!['enabled', 'title', 'sound', 'priority'].includes(key)) {
+      fail(source, `${path}.${key}`, 'is not a known setting')
+    }
+  }
+
+  const hook: HookEventConfig = {}
+  if (object.enabled !== undefined) {
+    if (typeof object.enabled !== 'boolean') {
+      fail(source, `${path}.enabled`, 'must be a boolean')
+    }
+    hook.enabled = object.enabled
+  }
+  if (object.title !== undefined) {
+    hook.title = expectString(object.title, source, `${path}.title`)
+  }
+  if (object.sound !== undefined) {
+    hook.sound = expectString(object.sound, source, `${path}.sound`)
+  }
+  if (object.priority !== undefined) {
+    const priority = expectString(object.priority, source, `${path}.priority`)
+    if (!isPriority(priority)) {
+      fail(
+        source,
+        `${path}.priority`,
+        `must be one of ${PRIORITIES.join(', ')}`,
+      )
+    }
+    hook.priority = priority
+  }
+
+  return hook
+}
+
+function validateWebhook(
+  value: unknown,
+  source: string,
+  path: string,
+): WebhookOptions {
+  const object = expectObject(value, source, path)
+  const webhook: WebhookOptions = {
+    url: expectString(object.url, source, `${path}.url`),
+  }
+
+  if (object.format !== undefined) {
+    const format = expectString(object.format, source, `${path}.format`)
+    if (!isWebhookFormat(format)) {
+      fail(source, `${path}.format`, 'must be json, slack, discord or ntfy')
+    }
+    webhook.format = format
+  }
+  if (object.template !== undefined) {
+    webhook.template = expectString(object.template, source, `${path}.template`)
+  }
+  if (object.minPriority !== undefined) {
+    const minPriority = expectString(
+      object.minPriority,
+      source,
+      `${path}.minPriority`,
+    )
+    if (!isPriority(minPriority)) {
+      fail(
+        source,
+        `${path}.minPriority`,
+        `must be one of ${PRIORITIES.join(', ')}`,
+      )
+    }
+    webhook.minPriority = minPriority
+  }
+  if (object.headers !== undefined) {
+    const headers = expectObject(object.headers, source, `${path}.headers`)
+    webhook.headers = {}
+    for (const [name, header] of Object.entries(headers)) {
+      webhook.headers[name] = expectString(
+        header,
+        source,
+        `${path}.headers.${name}`,
+      )
+    }
+  }
+  for (const key of ['timeoutMs', 'retries', 'backoffMs'] as const) {
+    if (object[key] !== undefined) {
+      webhook[key] = expectNumber(object[key], source, `${path}.${key}`)
+    }
+  }
+
+  return webhook
+}
+
+function validateThrottle(
+  value: unknown,
+  source: string,
+): ThrottleOptions | false {
+  if (value === false) return false
+  const object = expectObject(value, source, 'throttle')
+  const throttle: ThrottleOptions = {}
+
+  for (const key of ['burst', 'perMinute', 'dedupeSeconds'] as const) {
+    if (object[key] !== undefined) {
+      throttle[key] = expectNumber(object[key], source, `throttle.${key}`)
+    }
+  }
+  if (object.stateFile !== undefined) {
+    throttle.stateFile = expandHome(
+      expectString(object.stateFile, source, 'throttle.stateFile'),
+    )
+  }
+
+  return throttle
+}
+
+function validateEscalation(value: unknown, source: string): EscalationOptions {
+  const object = expectObject(value, source, 'escalation')
+  for (const key of Object.keys(object)) {
+    if (!['steps', 'minPriority', 'stateFile'].includes(key)) {
+      fail(source, `escalation.${key}`, 'is not a known setting')
+    }
+  }
+
+  if (!Array.isArray(object.steps) || object.steps.length === 0) {
+    fail(source, 'escalation.steps', 'must be a non-empty array')
+  }
+  const escalation: EscalationOptions = {
+    steps: object.steps.map((step, index) =>
+      validateEscalationStep(step, source, `escalation.steps[${index}]`),
+    ),
+  }
+
+  if (object.minPriority !== undefined) {
+    const minPriority = expectString(
+      object.minPriority,
+      source,
+      'escalation.minPriority',
+    )
+    if (!isPriority(minPriority)) {
+      fail(
+        source,
+        'escalation.minPriority',
+        `must be one of ${PRIORITIES.join(', ')}`,
+      )
+    }
+    escalation.minPriority = minPriority
+  }
+  if (object.stateFile !== undefined) {
+    escalation.stateFile = expandHome(
+      expectString(object.stateFile, source, 'escalation.stateFile'),
+    )
+  }
+
+  return escalation
+}
+
+function validateEscalationStep(
+  value: unknown,
+  source: string,
+  path: string,
+): EscalationStep {
+  const object = expectObject(value, source, path)
+  for (const key of Object.keys(object)) {
+    if (!['afterMinutes', 'sound', 'backends'].includes(key)) {
+      fail(source, `${path}.${key}`, 'is not a known setting')
+    }
+  }
+
+  const step: EscalationStep = {
+    afterMinutes: expectNumber(
+      object.afterMinutes,
+      source,
+      `${path}.afterMinutes`,
+    ),
+  }
+  if (object.sound !== undefined) {
+    step.sound = expectString(object.sound, source, `${path}.sound`)
+  }
+  if (object.backends !== undefined) {
+    const backends = object.backends
+    if (
+      !Array.isArray(backends) ||
+      !backends.every((name) => typeof name === 'string')
+    ) {
+      fail(source, `${path}.backends`, 'must be an array of backend names')
+    }
+    try {
+      step.backends = parseBackendList(backends.join(','))
+    } catch (error) {
+      fail(source, `${path}.backends`, (error as Error).message)
+    }
+  }
+
+  return step
+}
+
+function validateTerminal(
+  value: unknown,
+  source: string,
+  path: string,
+): TerminalDefinition {
+  const object = expectObject(value, source, path)
+  for (const key of Object.keys(object)) {
+    if (!['name', 'app', 'env', 'processes', 'termnames'].includes(key)) {
+      fail(source, `${path}.${key}`, 'is not a known setting')
+    }
+  }
+
+  const name = expectString(object.name, source, `${path}.name`)
+  if (name === '' || name === UNKNOWN_TERMINAL) {
+    fail(source, `${path}.name`, `must not be empty or ${UNKNOWN_TERMINAL}`)
+  }
+  const terminal: TerminalDefinition = { name }
+
+  if (object.app !== undefined) {
+    terminal.app = expectString(object.app, source, `${path}.app`)
+  }
+  if (object.env !== undefined) {
+    const env = expectObject(object.env, source, `${path}.env`)
+    terminal.env = {}
+    for (const [variable, pattern] of Object.entries(env)) {
+      terminal.env[variable] = expectString(
+        pattern,
+        source,
+        `${path}.env.${variable}`,
+      )
+    }
+  }
+  for (const key of ['processes', 'termnames'] as const) {
+    const list = object[key]
+    if (list === undefined) continue
+    if (
+      !Array.isArray(list) ||
+      !list.every((text) => typeof text === 'string' && text !== '')
+    ) {
+      fail(source, `${path}.${key}`, 'must be an array of non-empty strings')
+    }
+    terminal[key] = list
+  }
+
+  if (!terminal.env && !terminal.processes && !terminal.termnames) {
+    fail(source, path, 'needs at least one of env, processes or termnames')
+  }
+
+  return terminal
+}
+
+function validateQuietHours(
+  value: unknown,
+  source: string,
+  path: string,
+): QuietHours {
+  const object = expectObject(value, source, path)
+  const range: QuietHours = {
+    start: expectTime(object.start, source, `${path}.start`),
+    end: expectTime(object.end, source, `${path}.end`),
+  }
+
+  if (object.days !== undefined) {
+    if (
+      !Array.isArray(object.days) ||
+      !object.days.every((day) => WEEKDAYS.includes(day))
+    ) {
+      fail(source, `${path}.days`, `must be an array of ${WEEKDAYS.join(', ')}`)
+    }
+    range.days = object.days
+  }
+
+  return range
+}
+
+function expectObject(
+  value: unknown,
+  source: string,
+  path: string,
+): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(source, path, 'must be an object')
+  }
+  return value as Record<string, unknown>
+}
+
+function expectString(value: unknown, source: string, path: string): string {
+  if (typeof value !== 'string') fail(source, path, 'must be a string')
+  return value
+}
+
+function expectNumber(value: unknown, source: string, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    fail(source, path, 'must be a non-negative number')
+  }
+  return value
+}
+
+function expectTime(value: unknown, source: string, path: string): string {
+  const time = expectString(value, source, path)
+  const match = time.match(/^(\d{1,2}):(\d{2})$/)
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    fail(source, path, 'must be a time in HH:MM format')
+  }
+  return time
+}
+
+function fail(source: string, path: string, reason: string): never {
+  throw new ConfigError(`Invalid config in ${source}: "${path}" ${reason}`)
+}
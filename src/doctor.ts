@@ -0,0 +1,122 @@
+import { formatTmuxTarget } from './backends.js'
+import type { TmuxInfo } from './notifier.js'
+import type { TerminalType } from './terminal.js'
+
+/**
+ * Something terminal detection looked at on its way to a result
+ */
+export interface DetectionSignal {
+  /**
+   * Where the signal came from: `env`, `tmux client`, `lsof`, `ps`,
+   * `tmux termname`, `tmux environment` or `process tree`
+   */
+  source: string
+  value: string
+  /**
+   * Terminal this signal points to, if any
+   */
+  terminal?: TerminalType
+}
+
+/**
+ * Where the default notification title comes from
+ */
+export type TitleSource = 'config' | 'git remote' | 'git directory' | 'default'
+
+/**
+ * Everything that decides how notifications are delivered and which app a
+ * click brings to the front
+ */
+export interface Diagnosis {
+  terminal: {
+    /**
+     * Terminal passed to the backends: the configured one, or the detected one
+     */
+    name: TerminalType
+    detected: TerminalType
+    configured?: TerminalType
+    /**
+     * Detection rule that matched, e.g. `env TERM_PROGRAM=iTerm.app`
+     */
+    rule?: string
+    /**
+     * Application activated when a notification is clicked
+     */
+    app?: string
+    signals: DetectionSignal[]
+  }
+  app: {
+    path: string
+    found: boolean
+  }
+  backends: string[]
+  tmux: {
+    available: boolean
+    version?: string
+    error?: string
+    /**
+     * Whether this process runs inside tmux
+     */
+    inside: boolean
+    current?: TmuxInfo
+    sessions: string[]
+  }
+  title: {
+    title: string
+    source: TitleSource
+    remote?: string
+    root?: string
+  }
+}
+
+/**
+ * Format a diagnosis as a human-readable report
+ */
+export function formatDiagnosis(diagnosis: Diagnosis): string {
+  const { terminal, app, tmux, title } = diagnosis
+  const lines = ['Terminal']
+
+  lines.push(`  Detected: ${terminal.detected}`)
+  if (terminal.rule) lines.push(`  Matched rule: ${terminal.rule}`)
+  if (terminal.configured) {
+    lines.push(`  Configured: ${terminal.configured} (detection is skipped)`)
+  }
+  lines.push(
+    `  Activates on click: ${terminal.app ?? 'first running terminal'}`,
+  )
+  lines.push('  Signals:')
+  if (terminal.signals.length === 0) lines.push('    (none)')
+  for (const signal of terminal.signals) {
+    const match = signal.terminal ? ` -> ${signal.terminal}` : ''
+    lines.push(`    ${signal.source}: ${signal.value}${match}`)
+  }
+
+  lines.push('', 'Notification app')
+  lines.push(`  Path: ${app.path}`)
+  lines.push(`  Found: ${app.found ? 'yes' : 'no'}`)
+  lines.push(`  Backends: ${diagnosis.backends.join(', ')}`)
+
+  lines.push('', 'tmux')
+  if (tmux.available) {
+    lines.push(`  Version: ${tmux.version}`)
+  } else {
+    lines.push(`  Not available${tmux.error ? `: ${tmux.error}` : ''}`)
+  }
+  const current = tmux.current
+  if (current) {
+    const target = formatTmuxTarget(current)
+    lines.push(
+      `  Current pane: ${target} (${current.sessionId} ${current.windowId} ${current.paneId})`,
+    )
+  } else {
+    lines.push(`  Current pane: ${tmux.inside ? 'unknown' : 'not in tmux'}`)
+  }
+  lines.push(`  Sessions: ${tmux.sessions.join(', ') || '(none)'}`)
+
+  lines.push('', 'Title')
+  lines.push(`  Default title: ${title.title} (from ${title.source})`)
+  if (title.remote) lines.push(`  Git remote: ${title.remote}`)
+  if (title.root) lines.push(`  Git root: ${title.root}`)
+
+  return lines.join('\n')
+}
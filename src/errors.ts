@@ -0,0 +1,150 @@
+import type { DeliveryResult } from './history.js'
+
+/**
+ * Machine-readable error codes returned to MCP clients
+ */
+export const ERROR_CODES = [
+  'invalid_arguments',
+  'unknown_tool',
+  'not_found',
+  'target_not_found',
+  'target_ambiguous',
+  'session_not_found',
+  'tmux_unavailable',
+  'app_not_found',
+  'delivery_failed',
+  'internal_error',
+] as const
+
+export type ErrorCode = (typeof ERROR_CODES)[number]
+
+/**
+ * An expected failure with a code clients can act on, unlike a bug
+ */
+export class NotifyError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    options?: ErrorOptions,
+  ) {
+    super(message, options)
+    this.name = 'NotifyError'
+  }
+
+  /**
+   * Extra fields for error results, e.g. the candidates of a target
+   */
+  get details(): Record<string, unknown> {
+    return {}
+  }
+}
+
+export interface ArgumentIssue {
+  /**
+   * Dotted path of the argument, e.g. `actions.0`; empty for the whole input
+   */
+  path: string
+  message: string
+}
+
+/**
+ * Tool arguments that do not match the tool's input schema
+ */
+export class InvalidArgumentsError extends NotifyError {
+  constructor(
+    message: string,
+    readonly issues: ArgumentIssue[] = [],
+  ) {
+    super('invalid_arguments', message)
+    this.name = 'InvalidArgumentsError'
+  }
+
+  get details(): Record<string, unknown> {
+    return { issues: this.issues }
+  }
+}
+
+/**
+ * A notification or scheduled notification id that does not exist
+ */
+export class NotFoundError extends NotifyError {
+  constructor(message: string) {
+    super('not_found', message)
+    this.name = 'NotFoundError'
+  }
+}
+
+/**
+ * A target that does not exist or is ambiguous, with the candidates the
+ * caller could have meant
+ */
+export class TargetError extends NotifyError {
+  constructor(
+    message: string,
+    readonly candidates: string[],
+    code: ErrorCode = 'target_not_found',
+  ) {
+    super(code, message)
+    this.name = 'TargetError'
+  }
+
+  get details(): Record<string, unknown> {
+    return { candidates: this.candidates }
+  }
+}
+
+/**
+ * A tmux session that does not exist
+ */
+export class SessionNotFoundError extends TargetError {
+  constructor(
+    message: string,
+    readonly session: string,
+    candidates: string[] = [],
+  ) {
+    super(message, candidates, 'session_not_found')
+    this.name = 'SessionNotFoundError'
+  }
+
+  get details(): Record<string, unknown> {
+    return { session: this.session, candidates: this.candidates }
+  }
+}
+
+/**
+ * tmux is not installed, or no tmux server is running
+ */
+export class TmuxUnavailableError extends NotifyError {
+  constructor(message: string, options?: ErrorOptions) {
+    super('tmux_unavailable', message, options)
+    this.name = 'TmuxUnavailableError'
+  }
+}
+
+/**
+ * The MacOSNotifyMCP.app bundle the macos-app backend runs is missing
+ */
+export class AppNotFoundError extends NotifyError {
+  constructor(message = 'MacOSNotifyMCP.app not found') {
+    super('app_not_found', message)
+    this.name = 'AppNotFoundError'
+  }
+}
+
+/**
+ * Every backend failed to deliver a notification
+ */
+export class DeliveryFailedError extends NotifyError {
+  constructor(
+    message: string,
+    readonly deliveries: DeliveryResult[],
+    options?: ErrorOptions,
+  ) {
+    super('delivery_failed', message, options)
+    this.name = 'DeliveryFailedError'
+  }
+
+  get details(): Record<string, unknown> {
+    return { deliveries: this.deliveries }
+  }
+}
@@ -0,0 +1,274 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from 'node:fs'
+import { dirname, join } from 'node:path'
+import type { BackendSelection } from './backends.js'
+import { getStateDir, type NotificationRecord } from './history.js'
+import { isRunning, withFileLock } from './lock.js'
+import { meetsPriority, type Priority } from './priority.js'
+
+/**
+ * One reminder sent when a notification is still not clicked
+ */
+export interface EscalationStep {
+  /**
+   * Minutes to wait after the previous notification
+   */
+  afterMinutes: number
+  /**
+   * Sound of the reminder (default: Sosumi)
+   */
+  sound?: string
+  /**
+   * Backends the reminder is sent through, e.g. `["webhook"]`
+   * (default: the configured backends)
+   */
+  backends?: BackendSelection[]
+}
+
+export interface EscalationOptions {
+  /**
+   * Reminders sent one after another until the user clicks
+   */
+  steps: EscalationStep[]
+  /**
+   * Lowest priority that escalates (default: high)
+   */
+  minPriority?: Priority
+  /**
+   * File keeping pending escalations across restarts
+   * (default: ~/.local/state/macos-notify-mcp/escalations.json)
+   */
+  stateFile?: string
+}
+
+/**
+ * What a reminder repeats from the notification that was not clicked
+ */
+export type EscalatedNotification = Pick<
+  NotificationRecord,
+  | 'title'
+  | 'message'
+  | 'session'
+  | 'window'
+  | 'pane'
+  | 'sessionId'
+  | 'windowId'
+  | 'paneId'
+  | 'priority'
+>
+
+export interface PendingEscalation {
+  /**
+   * Id of the notification that started the escalation
+   */
+  id: string
+  /**
+   * Ids of the notifications sent so far that report clicks; a click on any
+   * of them ends the escalation
+   */
+  ids: string[]
+  notification: EscalatedNotification
+  /**
+   * Index of the next step
+   */
+  step: number
+  /**
+   * When the next step is due
+   */
+  dueAt: string
+  /**
+   * Process that sends the reminders
+   */
+  owner: number
+}
+
+/**
+ * Sound of reminders without one
+ */
+export const ESCALATION_SOUND = 'Sosumi'
+
+/**
+ * Unacknowledged notifications waiting for their next reminder, persisted so
+ * a restarted or different process can carry on where the sender stopped
+ */
+export class EscalationQueue {
+  readonly steps: EscalationStep[]
+  private minPriority: Priority
+  private stateFile: string
+
+  constructor(options: EscalationOptions) {
+    this.steps = options.steps
+    this.minPriority = options.minPriority ?? 'high'
+    this.stateFile =
+      options.stateFile ?? join(getStateDir(), 'escalations.json')
+  }
+
+  /**
+   * Whether notifications of this priority escalate
+   */
+  appliesTo(priority: Priority | undefined): boolean {
+    return this.steps.length > 0 && meetsPriority(priority, this.minPriority)
+  }
+
+  /**
+   * Time from the given step being scheduled until the escalation ends
+   */
+  durationMs(fromStep = 0): number {
+    return this.steps
+      .slice(fromStep)
+      .reduce((total, step) => total + step.afterMinutes * 60 * 1000, 0)
+  }
+
+  /**
+   * Start escalating a delivered notification
+   */
+  schedule(
+    record: NotificationRecord,
+    now: Date = new Date(),
+  ): PendingEscalation {
+    const pending: PendingEscalation = {
+      id: record.id,
+      ids: [record.id],
+      notification: {
+        title: record.title,
+        message: record.message,
+        session: record.session,
+        window: record.window,
+        pane: record.pane,
+        sessionId: record.sessionId,
+        windowId: record.windowId,
+        paneId: record.paneId,
+        priority: record.priority,
+      },
+      step: 0,
+      dueAt: this.dueAt(0, now),
+      owner: process.pid,
+    }
+    this.update((escalations) => [...escalations, pending])
+    return pending
+  }
+
+  list(): PendingEscalation[] {
+    return this.readState()
+  }
+
+  /**
+   * Stop the escalation a notification belongs to, once it was clicked
+   */
+  acknowledge(id: string): void {
+    this.update((escalations) =>
+      escalations.filter((pending) => !pending.ids.includes(id)),
+    )
+  }
+
+  /**
+   * Take over escalations whose process exited, e.g. before a restart or
+   * when sent from the CLI; ones that ended meanwhile are dropped. Each one
+   * is adopted by exactly one process, so only that one listens for clicks
+   */
+  adopt(now: Date = new Date()): PendingEscalation[] {
+    const adopted: PendingEscalation[] = []
+    this.update((escalations) =>
+      escalations.flatMap((pending) => {
+        if (pending.owner === process.pid || isRunning(pending.owner)) {
+          return [pending]
+        }
+        if (this.remainingMs(pending, now) <= 0) return []
+        const owned = { ...pending, owner: process.pid }
+        adopted.push(owned)
+        return [owned]
+      }),
+    )
+    return adopted
+  }
+
+  /**
+   * Escalations of this process whose next step is due
+   */
+  due(now: Date = new Date()): PendingEscalation[] {
+    return this.readState().filter(
+      (pending) =>
+        pending.owner === process.pid &&
+        Date.parse(pending.dueAt) <= now.getTime(),
+    )
+  }
+
+  /**
+   * Move on to the next step after one was sent, or end the escalation after
+   * the last one; `sentId` is the reminder to watch for clicks
+   */
+  advance(
+    pending: PendingEscalation,
+    sentId?: string,
+    now: Date = new Date(),
+  ): void {
+    const step = pending.step + 1
+    this.update((escalations) =>
+      escalations.flatMap((current) => {
+        if (current.id !== pending.id) return [current]
+        if (step >= this.steps.length) return []
+        return [
+          {
+            ...current,
+            ids: sentId ? [...current.ids, sentId] : current.ids,
+            step,
+            dueAt: this.dueAt(step, now),
+          },
+        ]
+      }),
+    )
+  }
+
+  /**
+   * Time left until the escalation ends
+   */
+  remainingMs(pending: PendingEscalation, now: Date = new Date()): number {
+    return (
+      Date.parse(pending.dueAt) -
+      now.getTime() +
+      this.durationMs(pending.step + 1)
+    )
+  }
+
+  private dueAt(step: number, now: Date): string {
+    const minutes = this.steps[step]?.afterMinutes ?? 0
+    return new Date(now.getTime() + minutes * 60 * 1000).toISOString()
+  }
+
+  /**
+   * Read, change and write the state while holding its lock, so processes
+   * sharing it never lose each other's changes
+   */
+  private update(
+    change: (escalations: PendingEscalation[]) => PendingEscalation[],
+  ): void {
+    withFileLock(this.stateFile, () => {
+      this.writeState(change(this.readState()))
+    })
+  }
+
+  private readState(): PendingEscalation[] {
+    try {
+      if (existsSync(this.stateFile)) {
+        const state = JSON.parse(readFileSync(this.stateFile, 'utf-8'))
+        return Array.isArray(state.escalations) ? state.escalations : []
+      }
+    } catch (_error) {
+      // Treat an unreadable state file as nothing pending
+    }
+    return []
+  }
+
+  private writeState(escalations: PendingEscalation[]): void {
+    mkdirSync(dirname(this.stateFile), { recursive: true })
+    // Write atomically so concurrent processes never read a partial file
+    const tempFile = `${this.stateFile}.${process.pid}.tmp`
+    writeFileSync(tempFile, JSON.stringify({ escalations }, null, 2))
+    renameSync(tempFile, this.stateFile)
+  }
+}
@@ -0,0 +1,169 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs'
+import { homedir } from 'node:os'
+import { dirname, join } from 'node:path'
+import { type BackendName, formatTmuxTarget } from './backends.js'
+import type { Priority } from './priority.js'
+import type { NotificationResponse } from './reply.js'
+import type { TerminalType } from './terminal.js'
+
+export interface DeliveryResult {
+  backend: BackendName
+  ok: boolean
+  error?: string
+}
+
+export const NOTIFICATION_STATUSES = [
+  'delivered',
+  'failed',
+  'suppressed',
+  'deferred',
+  'dropped',
+] as const
+
+export type NotificationStatus = (typeof NOTIFICATION_STATUSES)[number]
+
+/**
+ * What happened to a notification sent with `waitForClick`
+ */
+export const ACKNOWLEDGEMENTS = ['clicked', 'dismissed', 'timeout'] as const
+
+export type Acknowledgement = (typeof ACKNOWLEDGEMENTS)[number]
+
+export interface NotificationRecord {
+  id: string
+  timestamp: string
+  title: string
+  message: string
+  sound: string
+  session?: string
+  window?: string
+  pane?: string
+  sessionId?: string
+  windowId?: string
+  paneId?: string
+  priority?: Priority
+  terminal: TerminalType
+  status: NotificationStatus
+  /**
+   * Why the notification was not delivered
+   */
+  reason?: string
+  deliveries: DeliveryResult[]
+  /**
+   * Action buttons and reply field offered to the user
+   */
+  actions?: string[]
+  reply?: boolean
+  /**
+   * How the user responded, once they did
+   */
+  response?: NotificationResponse
+  /**
+   * Set when sent with `waitForClick` and a backend that reports clicks
+   */
+  acknowledgement?: Acknowledgement
+}
+
+export interface HistoryQuery {
+  session?: string
+  since?: Date
+  until?: Date
+  /**
+   * Case-insensitive text matched against title and message
+   */
+  text?: string
+  limit?: number
+}
+
+/**
+ * Get the directory for persistent state:
+ * $XDG_STATE_HOME/macos-notify-mcp (default: ~/.local/state/macos-notify-mcp)
+ */
+export function getStateDir(): string {
+  const stateHome =
+    process.env.XDG_STATE_HOME || join(homedir(), '.local', 'state')
+  return join(stateHome, 'macos-notify-mcp')
+}
+
+/**
+ * Format a record as a single line for listings
+ */
+export function formatNotificationRecord(record: NotificationRecord): string {
+  const target = formatTmuxTarget(record)
+  return `- [${record.timestamp}] ${record.id} ${record.title}: ${record.message}${target ? ` (tmux: ${target})` : ''} [${record.status}]`
+}
+
+/**
+ * Append-only JSONL log of every notification sent; a record is appended
+ * again when it changes, e.g. once the user responds, and the latest copy
+ * wins
+ */
+export class NotificationHistory {
+  constructor(readonly path: string = join(getStateDir(), 'history.jsonl')) {}
+
+  append(record: NotificationRecord): void {
+    mkdirSync(dirname(this.path), { recursive: true })
+    appendFileSync(this.path, `${JSON.stringify(record)}\n`)
+  }
+
+  /**
+   * List matching records, newest first
+   */
+  list(query: HistoryQuery = {}): NotificationRecord[] {
+    const text = query.text?.toLowerCase()
+
+    const records = this.readAll()
+      .filter((record) => {
+        if (query.session && record.session !== query.session) return false
+        const time = Date.parse(record.timestamp)
+        if (query.since && time < query.since.getTime()) return false
+        if (query.until && time > query.until.getTime()) return false
+        if (
+          text &&
+          !record.title.toLowerCase().includes(text) &&
+          !record.message.toLowerCase().includes(text)
+        ) {
+          return false
+        }
+        return true
+      })
+      .reverse()
+
+    return query.limit !== undefined ? records.slice(0, query.limit) : records
+  }
+
+  get(id: string): NotificationRecord | null {
+    return this.readAll().find((record) => record.id === id) ?? null
+  }
+
+  private readAll(): NotificationRecord[] {
+    const records = new Map<string, NotificationRecord>()
+    for (const record of readJsonLines<NotificationRecord>(this.path)) {
+      // Keeps the position of the first copy, so order stays chronological
+      records.set(record.id, record)
+    }
+    return [...records.values()]
+  }
+}
+
+/**
+ * Read a JSONL file, skipping malformed lines; missing or unreadable files
+ * read as empty
+ */
+export function readJsonLines<T>(path: string): T[] {
+  const entries: T[] = []
+  try {
+    if (!existsSync(path)) return entries
+    for (const line of readFileSync(path, 'utf-8').split('\n')) {
+      if (!line.trim()) continue
+      try {
+        entries.push(JSON.parse(line))
+      } catch (_error) {
+        // Skip lines truncated by an interrupted write
+      }
+    }
+  } catch (_error) {
+    // Treat an unreadable file as empty
+  }
+  return entries
+}
@@ -0,0 +1,267 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { homedir } from 'node:os'
+import { dirname, join } from 'node:path'
+import type { Priority } from './priority.js'
+import { formatDuration } from './time.js'
+
+/**
+ * Agent lifecycle events a hook can be installed for
+ */
+export const HOOK_EVENTS = [
+  'Notification',
+  'Stop',
+  'SubagentStop',
+  'PreToolUse',
+  'PostToolUse',
+  'UserPromptSubmit',
+  'SessionStart',
+  'SessionEnd',
+  'PreCompact',
+] as const
+
+export type HookEvent = (typeof HOOK_EVENTS)[number]
+
+/**
+ * Events `install-hooks` installs when none are given: the agent waiting for
+ * the user, and the agent being done
+ */
+export const DEFAULT_HOOK_EVENTS: HookEvent[] = ['Notification', 'Stop']
+
+/**
+ * Fields of the JSON payload an agent passes to hooks on stdin
+ */
+export interface HookPayload {
+  session_id?: string
+  transcript_path?: string
+  cwd?: string
+  hook_event_name?: string
+  /**
+   * Text of a `Notification` event, e.g. "Claude needs your permission to
+   * use Bash"
+   */
+  message?: string
+  tool_name?: string
+  tool_input?: Record<string, unknown>
+}
+
+/**
+ * How notifications for one hook event are sent
+ */
+export interface HookEventConfig {
+  /**
+   * Set to `false` to ignore the event
+   */
+  enabled?: boolean
+  title?: string
+  sound?: string
+  priority?: Priority
+}
+
+export function isHookEvent(value: string): value is HookEvent {
+  return HOOK_EVENTS.includes(value as HookEvent)
+}
+
+/**
+ * Parse the hook payload; empty input is an empty payload
+ */
+export function parseHookPayload(text: string): HookPayload {
+  if (!text.trim()) return {}
+  const payload = JSON.parse(text)
+  if (typeof payload !== 'object' || payload === null) {
+    throw new Error('Hook payload must be a JSON object')
+  }
+  return payload
+}
+
+/**
+ * Describe what happened for the notification message, e.g. "Waiting for
+ * permission to run Bash" or "Task finished in 4m 12s"
+ */
+export function describeHookEvent(
+  event: string,
+  payload: HookPayload,
+  now: Date = new Date(),
+): string {
+  switch (event) {
+    case 'Notification':
+      return describeNotification(payload.message)
+    case 'Stop':
+    case 'SubagentStop': {
+      const task = event === 'Stop' ? 'Task' : 'Subagent'
+      const durationMs = payload.transcript_path
+        ? getTaskDurationMs(payload.transcript_path, now)
+        : null
+      return durationMs === null
+        ? `${task} finished`
+        : `${task} finished in ${formatDuration(durationMs)}`
+    }
+    case 'PreToolUse':
+    case 'PostToolUse': {
+      const verb = event === 'PreToolUse' ? 'Running' : 'Finished'
+      const detail = describeToolInput(payload.tool_input)
+      return `${verb} ${payload.tool_name ?? 'a tool'}${detail ? `: ${detail}` : ''}`
+    }
+    default:
+      return payload.message ?? event
+  }
+}
+
+function describeNotification(message: string | undefined): string {
+  if (!message) return 'Waiting for you'
+  const permission = message.match(/permission to use (.+)$/)
+  if (permission) return `Waiting for permission to run ${permission[1]}`
+  if (/waiting for your input/i.test(message)) return 'Waiting for your input'
+  return message
+}
+
+/**
+ * The most telling argument of a tool call, shortened to one line
+ */
+function describeToolInput(
+  input: Record<string, unknown> | undefined,
+): string | undefined {
+  const value = ['command', 'file_path', 'pattern', 'url', 'description']
+    .map((key) => input?.[key])
+    .find((value) => typeof value === 'string' && value.trim())
+  if (typeof value !== 'string') return undefined
+  const line = value.trim().split('\n')[0]
+  return line.length > 80 ? `${line.slice(0, 79)}…` : line
+}
+
+/**
+ * Time since the user's last prompt in the agent's JSONL transcript, or
+ * `null` when it cannot be told
+ */
+function getTaskDurationMs(transcriptPath: string, now: Date): number | null {
+  let lines: string[]
+  try {
+    lines = readFileSync(transcriptPath, 'utf-8').split('\n')
+  } catch (_error) {
+    return null
+  }
+
+  for (let i = lines.length - 1; i >= 0; i--) {
+    let entry: {
+      type?: string
+      timestamp?: string
+      message?: { content?: unknown }
+    }
+    try {
+      entry = JSON.parse(lines[i])
+    } catch (_error) {
+      continue
+    }
+    if (entry.type !== 'user' || !isPrompt(entry.message?.content)) continue
+    const started = Date.parse(entry.timestamp ?? '')
+    return Number.isNaN(started) ? null : Math.max(0, now.getTime() - started)
+  }
+  return null
+}
+
+/**
+ * Whether a user message is something the user typed rather than tool
+ * results sent back to the model
+ */
+function isPrompt(content: unknown): boolean {
+  if (typeof content === 'string') return true
+  return (
+    Array.isArray(content) &&
+    content.some((part) => part?.type === 'text' || part?.type === 'image')
+  )
+}
+
+/**
+ * Agent settings file: the user's, or the project's in `cwd`
+ */
+export function getAgentSettingsPath(
+  options: { project?: boolean; cwd?: string } = {},
+): string {
+  return options.project
+    ? join(options.cwd ?? process.cwd(), '.claude', 'settings.json')
+    : join(homedir(), '.claude', 'settings.json')
+}
+
+interface HookCommand {
+  type: 'command'
+  command: string
+}
+
+interface HookMatcher {
+  matcher?: string
+  hooks: HookCommand[]
+}
+
+/**
+ * Settings entries running `macos-notify-cli hook <event>` for each event
+ */
+export function buildHookSettings(
+  events: HookEvent[],
+  cli = 'macos-notify-cli',
+): { hooks: Partial<Record<HookEvent, HookMatcher[]>> } {
+  const hooks: Partial<Record<HookEvent, HookMatcher[]>> = {}
+  for (const event of events) {
+    hooks[event] = [
+      { hooks: [{ type: 'command', command: `${cli} hook ${event}` }] },
+    ]
+  }
+  return { hooks }
+}
+
+/**
+ * Add the hooks to a settings file, keeping everything else in it; returns
+ * the events that were not installed yet
+ */
+export function installHooks(
+  settingsPath: string,
+  events: HookEvent[],
+  cli = 'macos-notify-cli',
+): HookEvent[] {
+  let settings: Record<string, unknown> = {}
+  if (existsSync(settingsPath)) {
+    try {
+      settings = JSON.parse(readFileSync(settingsPath, 'utf-8')) ?? {}
+    } catch (error) {
+      // Never overwrite a file we could not understand
+      throw new Error(
+        `Failed to read ${settingsPath}: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }
+  // Likewise for valid JSON of an unexpected shape
+  const invalid = (what: string) =>
+    new Error(`Failed to read ${settingsPath}: ${what}`)
+  if (!isObject(settings)) throw invalid('settings must be an object')
+
+  const hooks = settings.hooks ?? {}
+  if (!isObject(hooks)) throw invalid('"hooks" must be an object')
+  const { hooks: wanted } = buildHookSettings(events, cli)
+  const added: HookEvent[] = []
+  for (const event of events) {
+    const command = `${cli} hook ${event}`
+    const existing = hooks[event] ?? []
+    if (!Array.isArray(existing)) {
+      throw invalid(`"hooks.${event}" must be an array`)
+    }
+    const installed = existing.some(
+      (matcher: Partial<HookMatcher> | null) =>
+        Array.isArray(matcher?.hooks) &&
+        matcher.hooks.some((hook) => hook?.command === command),
+    )
+    if (installed) continue
+    hooks[event] = [...existing, ...(wanted[event] ?? [])]
+    added.push(event)
+  }
+
+  if (added.length > 0) {
+    mkdirSync(dirname(settingsPath), { recursive: true })
+    writeFileSync(
+      settingsPath,
+      `${JSON.stringify({ ...settings, hooks }, null, 2)}\n`,
+    )
+  }
+  return added
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
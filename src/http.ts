@@ -0,0 +1,237 @@
+import { randomBytes, randomUUID, timingSafeEqual } from 'node:crypto'
+import {
+  chmodSync,
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs'
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from 'node:http'
+import { connect } from 'node:net'
+import { dirname, join } from 'node:path'
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
+import { getStateDir } from './history.js'
+
+/**
+ * Path the MCP endpoint is served on
+ */
+export const MCP_PATH = '/mcp'
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024
+
+export interface HttpServerOptions {
+  /**
+   * TCP port on localhost; 0 picks a free one
+   */
+  port?: number
+  host?: string
+  /**
+   * Listen on this Unix socket instead of a TCP port
+   */
+  socketPath?: string
+  /**
+   * Bearer token every request must send in its Authorization header
+   */
+  token: string
+}
+
+export interface HttpServer {
+  url: string
+  close(): Promise<void>
+}
+
+/**
+ * Get the bearer token for the HTTP server: MACOS_NOTIFY_TOKEN, or one
+ * generated once and kept readable only by the user
+ */
+export function getHttpToken(
+  path: string = join(getStateDir(), 'http-token'),
+): string {
+  if (process.env.MACOS_NOTIFY_TOKEN) return process.env.MACOS_NOTIFY_TOKEN
+  if (existsSync(path)) {
+    const token = readFileSync(path, 'utf-8').trim()
+    if (token) return token
+  }
+  const token = randomBytes(32).toString('hex')
+  mkdirSync(dirname(path), { recursive: true })
+  writeFileSync(path, `${token}\n`, { mode: 0o600 })
+  return token
+}
+
+export function parsePort(value: string): number {
+  const port = Number(value)
+  if (value === '' || !Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${value}`)
+  }
+  return port
+}
+
+/**
+ * Serve MCP over streamable HTTP, so several agents share one notifier.
+ * Each session gets its own server from `createServer`.
+ */
+export async function startHttpServer(
+  createServer: () => Server,
+  options: HttpServerOptions,
+): Promise<HttpServer> {
+  const { socketPath, host = '127.0.0.1' } = options
+  const transports = new Map<string, StreamableHTTPServerTransport>()
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    if (!isAuthorized(req.headers.authorization, options.token)) {
+      res.setHeader('WWW-Authenticate', 'Bearer')
+      sendError(res, 401, 'Unauthorized')
+      return
+    }
+    if (new URL(req.url ?? '/', 'http://localhost').pathname !== MCP_PATH) {
+      sendError(res, 404, 'Not found')
+      return
+    }
+
+    const sessionId = req.headers['mcp-session-id']
+    if (sessionId !== undefined) {
+      const transport =
+        typeof sessionId === 'string' ? transports.get(sessionId) : undefined
+      if (transport) {
+        await transport.handleRequest(req, res)
+      } else {
+        sendError(res, 404, 'Session not found')
+      }
+      return
+    }
+
+    if (req.method !== 'POST') {
+      sendError(res, 400, 'Bad Request: No session ID provided')
+      return
+    }
+    const body = await readBody(req)
+    if (body === null) {
+      sendError(res, 413, 'Request body too large')
+      return
+    }
+    let message: unknown
+    try {
+      message = JSON.parse(body)
+    } catch (_error) {
+      sendError(res, 400, 'Parse error: Invalid JSON', -32700)
+      return
+    }
+    if (!isInitializeRequest(message)) {
+      sendError(res, 400, 'Bad Request: No session ID provided')
+      return
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        transports.set(id, transport)
+      },
+    })
+    transport.onclose = () => {
+      if (transport.sessionId) transports.delete(transport.sessionId)
+    }
+    await createServer().connect(transport)
+    await transport.handleRequest(req, res, message)
+  }
+
+  const server = createHttpServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error('Failed to handle HTTP request:', error)
+      if (!res.headersSent) sendError(res, 500, 'Internal server error')
+    })
+  })
+
+  if (socketPath) await removeStaleSocket(socketPath)
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    if (socketPath) {
+      server.listen(socketPath, resolve)
+    } else {
+      server.listen(options.port ?? 0, host, resolve)
+    }
+  })
+
+  let url: string
+  if (socketPath) {
+    chmodSync(socketPath, 0o600)
+    url = `unix:${socketPath}`
+  } else {
+    const address = server.address()
+    const port = typeof address === 'object' && address ? address.port : 0
+    url = `http://${host}:${port}${MCP_PATH}`
+  }
+
+  return {
+    url,
+    close: async () => {
+      await Promise.all(
+        [...transports.values()].map((transport) => transport.close()),
+      )
+      await new Promise<void>((resolve) => server.close(() => resolve()))
+    },
+  }
+}
+
+function isAuthorized(header: string | undefined, token: string): boolean {
+  const match = header?.match(/^Bearer\s+(.+)$/i)
+  if (!match) return false
+  // Compare in constant time so the token cannot be guessed byte by byte
+  const given = Buffer.from(match[1].trim())
+  const expected = Buffer.from(token)
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+function sendError(
+  res: ServerResponse,
+  status: number,
+  message: string,
+  code = -32000,
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(
+    JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }),
+  )
+}
+
+/**
+ * Read the request body, or `null` when it is too large
+ */
+async function readBody(req: IncomingMessage): Promise<string | null> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) return null
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks).toString('utf-8')
+}
+
+/**
+ * Remove a socket file left behind by a server that exited, refusing to take
+ * over one that is still answering
+ */
+async function removeStaleSocket(path: string): Promise<void> {
+  if (!existsSync(path)) return
+  if (!lstatSync(path).isSocket()) {
+    throw new Error(`${path} exists and is not a socket`)
+  }
+  const inUse = await new Promise<boolean>((resolve) => {
+    const probe = connect(path)
+    probe.once('connect', () => {
+      probe.destroy()
+      resolve(true)
+    })
+    probe.once('error', () => resolve(false))
+  })
+  if (inUse) throw new Error(`${path} is already in use by another server`)
+  rmSync(path)
+}
@@ -4,19 +4,62 @@ import { fileURLToPath } from 'node:url'
 import { Server } from '@modelcontextprotocol/sdk/server/index.js'
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
+  type CallToolRequest,
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js'
-import { TmuxNotifier } from './notifier.js'
-
-interface NotificationOptions {
-  message: string
-  title?: string
-  sound?: string
-  session?: string
-  window?: string
-  pane?: string
-}
+import { BACKEND_NAMES, formatTmuxTarget } from './backends.js'
+import {
+  ConfigError,
+  loadConfig,
+  type NotifyConfig,
+  toNotifierOptions,
+} from './config.js'
+import { formatDiagnosis } from './doctor.js'
+import { InvalidArgumentsError, NotFoundError, NotifyError } from './errors.js'
+import {
+  ACKNOWLEDGEMENTS,
+  formatNotificationRecord,
+  NOTIFICATION_STATUSES,
+  type NotificationRecord,
+} from './history.js'
+import { getHttpToken, parsePort, startHttpServer } from './http.js'
+import {
+  type NotificationOptions,
+  TmuxNotifier,
+  type TmuxPane,
+  type TmuxWindow,
+} from './notifier.js'
+import { PRIORITIES } from './priority.js'
+import { getPrompt, listPrompts } from './prompts.js'
+import {
+  listResources,
+  RESOURCE_TEMPLATES,
+  readResource,
+  SESSIONS_URI,
+  watchTmuxSessions,
+} from './resources.js'
+import {
+  formatScheduledNotification,
+  type ScheduledNotification,
+} from './schedule.js'
+import { startScheduler } from './scheduler.js'
+import {
+  ASK_TIMEOUT_SECONDS,
+  getInputSchema,
+  isToolName,
+  parseToolArguments,
+  type ToolArguments,
+} from './schemas.js'
+import { hasTargetSelector, type TargetSelector } from './target.js'
+import { parseDueTime, parseDuration, parseTimeInput } from './time.js'
 
 // Get version from package.json
 const __dirname = dirname(fileURLToPath(import.meta.url))
@@ -24,180 +67,830 @@ const packageJson = JSON.parse(
   readFileSync(join(__dirname, '..', 'package.json'), 'utf-8'),
 )
 
-const server = new Server(
-  {
-    name: 'macos-notify-mcp',
-    version: packageJson.version,
+/**
+ * Get the value following a command line flag, if the flag is present
+ */
+function getArgValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag)
+  return index >= 0 ? (process.argv[index + 1] ?? '') : undefined
+}
+
+/**
+ * Load config from --config, MACOS_NOTIFY_CONFIG or the default location;
+ * an invalid file stops the server with a readable message
+ */
+function loadServerConfig(): NotifyConfig {
+  try {
+    return loadConfig({ path: getArgValue('--config') })
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error
+    console.error(`Error: ${error.message}`)
+    process.exit(1)
+  }
+}
+
+const config = loadServerConfig()
+
+const notifier = new TmuxNotifier(config.appPath, toNotifierOptions(config))
+
+/**
+ * Output schema for the user's response to a notification
+ */
+const responseSchema = {
+  type: 'object',
+  properties: {
+    action: {
+      type: 'string',
+      description:
+        'Action button pressed, "reply" for a text reply, "click" when the notification was clicked, or "dismiss"',
+    },
+    text: { type: 'string', description: 'Text entered in the reply field' },
+    timestamp: { type: 'string', description: 'ISO 8601 time' },
   },
-  {
-    capabilities: {
-      tools: {},
+  required: ['action', 'timestamp'],
+}
+
+/**
+ * Output schema for a notification record, shared by the notification tools
+ */
+const notificationSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    timestamp: { type: 'string', description: 'ISO 8601 time' },
+    title: { type: 'string' },
+    message: { type: 'string' },
+    sound: { type: 'string' },
+    priority: { type: 'string', enum: [...PRIORITIES] },
+    session: { type: 'string' },
+    window: { type: 'string' },
+    pane: { type: 'string' },
+    sessionId: { type: 'string' },
+    windowId: { type: 'string' },
+    paneId: { type: 'string' },
+    target: {
+      type: 'string',
+      description: 'Resolved tmux target (session:window.pane)',
+    },
+    terminal: { type: 'string', description: 'Detected terminal emulator' },
+    status: { type: 'string', enum: [...NOTIFICATION_STATUSES] },
+    reason: {
+      type: 'string',
+      description: 'Why the notification was not delivered',
+    },
+    deliveries: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          backend: { type: 'string', enum: [...BACKEND_NAMES] },
+          ok: { type: 'boolean' },
+          error: { type: 'string' },
+        },
+        required: ['backend', 'ok'],
+      },
+    },
+    actions: { type: 'array', items: { type: 'string' } },
+    reply: { type: 'boolean' },
+    response: responseSchema,
+    acknowledgement: {
+      type: 'string',
+      enum: [...ACKNOWLEDGEMENTS],
+      description: 'What happened to a notification sent with waitForClick',
     },
   },
-)
+  required: [
+    'id',
+    'timestamp',
+    'title',
+    'message',
+    'terminal',
+    'status',
+    'deliveries',
+  ],
+}
 
-const notifier = new TmuxNotifier()
+/**
+ * Output schema for a notification waiting to be delivered
+ */
+const scheduledSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    dueAt: {
+      type: 'string',
+      description: 'ISO 8601 time the notification is delivered',
+    },
+    createdAt: { type: 'string', description: 'ISO 8601 time' },
+    notification: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        message: { type: 'string' },
+        sound: { type: 'string' },
+        priority: { type: 'string', enum: [...PRIORITIES] },
+        session: { type: 'string' },
+        window: { type: 'string' },
+        pane: { type: 'string' },
+        sessionId: { type: 'string' },
+        windowId: { type: 'string' },
+        paneId: { type: 'string' },
+        actions: { type: 'array', items: { type: 'string' } },
+        reply: { type: 'boolean' },
+      },
+      required: ['title', 'message'],
+    },
+  },
+  required: ['id', 'dueAt', 'createdAt', 'notification'],
+}
 
-// List available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+/**
+ * Output schema for the `diagnose` tool
+ */
+const diagnosisSchema = {
+  type: 'object',
+  properties: {
+    terminal: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Terminal passed to the backends',
+        },
+        detected: { type: 'string' },
+        configured: {
+          type: 'string',
+          description: 'Terminal set in the config, skipping detection',
+        },
+        rule: {
+          type: 'string',
+          description: 'Detection rule that matched',
+        },
+        app: {
+          type: 'string',
+          description: 'Application activated when a notification is clicked',
+        },
+        signals: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              source: { type: 'string' },
+              value: { type: 'string' },
+              terminal: { type: 'string' },
+            },
+            required: ['source', 'value'],
+          },
+        },
+      },
+      required: ['name', 'detected', 'signals'],
+    },
+    app: {
+      type: 'object',
+      properties: {
+        path: { type: 'string' },
+        found: { type: 'boolean' },
+      },
+      required: ['path', 'found'],
+    },
+    backends: { type: 'array', items: { type: 'string' } },
+    tmux: {
+      type: 'object',
+      properties: {
+        available: { type: 'boolean' },
+        version: { type: 'string' },
+        error: { type: 'string' },
+        inside: { type: 'boolean' },
+        current: {
+          type: 'object',
+          properties: {
+            session: { type: 'string' },
+            window: { type: 'string' },
+            pane: { type: 'string' },
+            sessionId: { type: 'string' },
+            windowId: { type: 'string' },
+            paneId: { type: 'string' },
+          },
+        },
+        sessions: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['available', 'inside', 'sessions'],
+    },
+    title: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        source: {
+          type: 'string',
+          enum: ['config', 'git remote', 'git directory', 'default'],
+        },
+        remote: { type: 'string' },
+        root: { type: 'string' },
+      },
+      required: ['title', 'source'],
+    },
+  },
+  required: ['terminal', 'app', 'backends', 'tmux', 'title'],
+}
+
+/**
+ * Shape a history record for structured tool results
+ */
+function toStructuredRecord(record: NotificationRecord) {
+  const target = formatTmuxTarget(record)
+  return target ? { ...record, target } : { ...record }
+}
+
+/**
+ * Format a window as a single line for listings
+ */
+function formatWindow(window: TmuxWindow): string {
+  const details = [`${window.panes} pane${window.panes === 1 ? '' : 's'}`]
+  if (window.active) details.push('active')
+  if (window.clients.length > 0) {
+    details.push(`clients: ${window.clients.join(', ')}`)
+  }
+  return `- ${window.session}:${window.index} ${window.name} (${details.join(', ')})`
+}
+
+/**
+ * Format a pane as a single line for listings
+ */
+function formatPane(pane: TmuxPane): string {
+  return `- ${pane.session}:${pane.window}.${pane.index} ${pane.command} in ${pane.cwd} "${pane.title}"${pane.active ? ' (active)' : ''}`
+}
+
+/**
+ * Build notification options from tool arguments, resolving the tmux target
+ */
+async function parseNotificationArgs(
+  notificationArgs: ToolArguments<
+    'send_notification' | 'ask_user' | 'schedule_notification'
+  >,
+): Promise<NotificationOptions> {
+  const options: NotificationOptions = { message: notificationArgs.message }
+  if (notificationArgs.title) options.title = notificationArgs.title
+  if (notificationArgs.sound) options.sound = notificationArgs.sound
+  if (notificationArgs.priority) options.priority = notificationArgs.priority
+  if (notificationArgs.actions) options.actions = notificationArgs.actions
+  if (notificationArgs.reply) options.reply = true
+
+  if (notificationArgs.useCurrent) {
+    const current = await notifier.getCurrentTmuxInfo()
+    if (current) {
+      options.session = current.session
+      options.window = current.window
+      options.pane = current.pane
+      options.sessionId = current.sessionId
+      options.windowId = current.windowId
+      options.paneId = current.paneId
+    }
+  } else {
+    const selector: TargetSelector = {}
+    for (const key of [
+      'session',
+      'window',
+      'pane',
+      'cwd',
+      'command',
+    ] as const) {
+      if (notificationArgs[key]) {
+        selector[key] = notificationArgs[key]
+      }
+    }
+
+    // Resolve names, ids, cwd globs and commands to tmux indexes and ids;
+    // fails listing the candidates when the target does not exist
+    if (hasTargetSelector(selector)) {
+      const target = await notifier.resolveTarget(selector)
+      options.session = target.session
+      if (target.window !== undefined) options.window = target.window
+      if (target.pane !== undefined) options.pane = target.pane
+      options.sessionId = target.sessionId
+      if (target.windowId !== undefined) options.windowId = target.windowId
+      if (target.paneId !== undefined) options.paneId = target.paneId
+    }
+  }
+
+  return options
+}
+
+/**
+ * Parse when a scheduled notification is due from the `at` or `in` argument
+ */
+function parseDueArgs({
+  at,
+  in: delay,
+}: ToolArguments<'schedule_notification'>): Date {
+  if (delay !== undefined) {
+    const duration = parseDuration(delay)
+    if (duration === null) {
+      throw new InvalidArgumentsError(
+        `Invalid in: ${delay} (use a duration like 15m or 1h30m)`,
+        [{ path: 'in', message: 'Expected a duration like 15m or 1h30m' }],
+      )
+    }
+    return new Date(Date.now() + duration)
+  }
+
+  const dueAt = parseDueTime(at ?? '')
+  if (!dueAt) {
+    throw new InvalidArgumentsError(
+      `Invalid at: ${at} (use an ISO date or HH:MM)`,
+      [{ path: 'at', message: 'Expected an ISO date or HH:MM' }],
+    )
+  }
+  if (dueAt.getTime() <= Date.now()) {
+    throw new InvalidArgumentsError(`Invalid at: ${at} is in the past`, [
+      { path: 'at', message: 'Expected a time in the future' },
+    ])
+  }
+  return dueAt
+}
+
+/**
+ * Shape a scheduled notification for structured tool results
+ */
+function toStructuredScheduled(scheduled: ScheduledNotification) {
+  return { ...scheduled }
+}
+
+/**
+ * Parse an optional time argument for history filters
+ */
+function parseTimeArg(
+  value: string | undefined,
+  name: 'since' | 'until',
+): Date | undefined {
+  if (!value) return undefined
+  const date = parseTimeInput(value, 'ago')
+  if (!date) {
+    throw new InvalidArgumentsError(
+      `Invalid ${name}: ${value} (use an ISO date, HH:MM, or a duration like 2h)`,
+      [
+        {
+          path: name,
+          message: 'Expected an ISO date, HH:MM, or a duration like 2h',
+        },
+      ],
+    )
+  }
+  return date
+}
+
+/**
+ * Shape an error as a tool result, with a code clients can branch on
+ */
+function toErrorResult(error: unknown) {
+  const message = error instanceof Error ? error.message : String(error)
+  return {
+    content: [{ type: 'text', text: `Error: ${message}` }],
+    isError: true,
+    _meta: {
+      error:
+        error instanceof NotifyError
+          ? { code: error.code, ...error.details }
+          : { code: 'internal_error' },
+    },
+  }
+}
+
+/**
+ * List available tools
+ */
+async function handleListTools() {
   return {
     tools: [
       {
         name: 'send_notification',
         description: 'Send a macOS notification with optional tmux integration',
-        inputSchema: {
+        inputSchema: getInputSchema('send_notification'),
+        outputSchema: notificationSchema,
+      },
+      {
+        name: 'ask_user',
+        description:
+          'Ask the user a question with action buttons and/or a text reply field, and wait for the answer. Use it to get approval without the user switching windows. Defaults to Yes/No buttons and high priority.',
+        inputSchema: getInputSchema('ask_user'),
+        outputSchema: {
           type: 'object',
           properties: {
-            message: {
-              type: 'string',
-              description: 'The notification message',
-            },
-            title: {
-              type: 'string',
-              description: 'The notification title (default: "Claude Code")',
-            },
-            sound: {
+            id: { type: 'string', description: 'Notification id' },
+            status: { type: 'string', enum: [...NOTIFICATION_STATUSES] },
+            answered: { type: 'boolean' },
+            action: responseSchema.properties.action,
+            text: responseSchema.properties.text,
+            reason: {
               type: 'string',
-              description: 'The notification sound (default: "Glass")',
-            },
-            session: {
-              type: 'string',
-              description: 'tmux session name',
-            },
-            window: {
-              type: 'string',
-              description: 'tmux window number',
-            },
-            pane: {
-              type: 'string',
-              description: 'tmux pane number',
-            },
-            useCurrent: {
-              type: 'boolean',
-              description: 'Use current tmux location',
+              description: 'Why there is no answer, e.g. a timeout',
             },
           },
-          required: ['message'],
+          required: ['id', 'status', 'answered'],
         },
       },
+      {
+        name: 'schedule_notification',
+        description:
+          'Schedule a notification for later, e.g. a reminder to check the deploy in 15 minutes. Give either at or in.',
+        inputSchema: getInputSchema('schedule_notification'),
+        outputSchema: scheduledSchema,
+      },
+      {
+        name: 'list_scheduled_notifications',
+        description:
+          'List notifications scheduled for later that were not delivered yet, soonest first',
+        inputSchema: getInputSchema('list_scheduled_notifications'),
+        outputSchema: {
+          type: 'object',
+          properties: {
+            scheduled: { type: 'array', items: scheduledSchema },
+          },
+          required: ['scheduled'],
+        },
+      },
+      {
+        name: 'cancel_notification',
+        description: 'Cancel a scheduled notification before it is delivered',
+        inputSchema: getInputSchema('cancel_notification'),
+        outputSchema: scheduledSchema,
+      },
       {
         name: 'list_tmux_sessions',
         description: 'List available tmux sessions',
-        inputSchema: {
+        inputSchema: getInputSchema('list_tmux_sessions'),
+        outputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            sessions: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  windows: { type: 'number' },
+                  attached: { type: 'boolean' },
+                },
+                required: ['name', 'windows', 'attached'],
+              },
+            },
+          },
+          required: ['sessions'],
+        },
+      },
+      {
+        name: 'list_tmux_windows',
+        description:
+          'List tmux windows with their names, pane counts and the clients showing them',
+        inputSchema: getInputSchema('list_tmux_windows'),
+        outputSchema: {
+          type: 'object',
+          properties: {
+            windows: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  session: { type: 'string' },
+                  index: { type: 'string' },
+                  name: { type: 'string' },
+                  active: { type: 'boolean' },
+                  panes: { type: 'number' },
+                  clients: { type: 'array', items: { type: 'string' } },
+                },
+                required: [
+                  'session',
+                  'index',
+                  'name',
+                  'active',
+                  'panes',
+                  'clients',
+                ],
+              },
+            },
+          },
+          required: ['windows'],
+        },
+      },
+      {
+        name: 'list_tmux_panes',
+        description:
+          'List tmux panes with their title, running command and working directory, to find the pane to notify about',
+        inputSchema: getInputSchema('list_tmux_panes'),
+        outputSchema: {
+          type: 'object',
+          properties: {
+            panes: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string', description: 'Pane id like %3' },
+                  session: { type: 'string' },
+                  sessionId: { type: 'string' },
+                  window: { type: 'string' },
+                  windowId: { type: 'string' },
+                  windowName: { type: 'string' },
+                  index: { type: 'string' },
+                  title: { type: 'string' },
+                  command: { type: 'string' },
+                  cwd: { type: 'string' },
+                  pid: { type: 'number' },
+                  active: { type: 'boolean' },
+                  windowActive: { type: 'boolean' },
+                },
+                required: [
+                  'id',
+                  'session',
+                  'sessionId',
+                  'window',
+                  'windowId',
+                  'windowName',
+                  'index',
+                  'title',
+                  'command',
+                  'cwd',
+                  'pid',
+                  'active',
+                  'windowActive',
+                ],
+              },
+            },
+          },
+          required: ['panes'],
         },
       },
       {
         name: 'get_current_tmux_info',
         description: 'Get current tmux session information',
-        inputSchema: {
+        inputSchema: getInputSchema('get_current_tmux_info'),
+        outputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            inTmux: { type: 'boolean' },
+            session: { type: 'string' },
+            window: { type: 'string' },
+            pane: { type: 'string' },
+            sessionId: { type: 'string', description: 'Stable id like $1' },
+            windowId: { type: 'string', description: 'Stable id like @2' },
+            paneId: { type: 'string', description: 'Stable id like %3' },
+          },
+          required: ['inTmux'],
         },
       },
+      {
+        name: 'refresh_terminal_detection',
+        description:
+          'Detect the terminal emulator again, e.g. after attaching tmux from a different terminal. Detection is otherwise cached for a few minutes.',
+        inputSchema: getInputSchema('refresh_terminal_detection'),
+        outputSchema: {
+          type: 'object',
+          properties: {
+            terminal: { type: 'string' },
+            configured: {
+              type: 'boolean',
+              description:
+                'Whether the terminal is set in the config, so detection is skipped',
+            },
+          },
+          required: ['terminal', 'configured'],
+        },
+      },
+      {
+        name: 'diagnose',
+        description:
+          'Explain how notifications are delivered: every terminal detection signal and the rule that matched, the app activated on click, whether the notification app bundle exists, tmux availability and where the default title comes from',
+        inputSchema: getInputSchema('diagnose'),
+        outputSchema: diagnosisSchema,
+      },
+      {
+        name: 'list_notifications',
+        description: 'List previously sent notifications, newest first',
+        inputSchema: getInputSchema('list_notifications'),
+        outputSchema: {
+          type: 'object',
+          properties: {
+            notifications: { type: 'array', items: notificationSchema },
+          },
+          required: ['notifications'],
+        },
+      },
+      {
+        name: 'get_notification',
+        description: 'Get the details of a previously sent notification',
+        inputSchema: getInputSchema('get_notification'),
+        outputSchema: notificationSchema,
+      },
     ],
   }
-})
+}
 
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+/**
+ * Handle tool calls
+ */
+async function handleCallTool(request: CallToolRequest) {
   const { name, arguments: args } = request.params
 
-  if (!args) {
-    throw new Error('No arguments provided')
-  }
-
   try {
+    if (!isToolName(name)) {
+      throw new NotifyError('unknown_tool', `Unknown tool: ${name}`)
+    }
+
     switch (name) {
       case 'send_notification': {
-        // Safely extract properties from args
-        const notificationArgs = args as Record<string, unknown>
-
-        // Validate message is provided
-        if (!notificationArgs.message) {
-          throw new Error('Message is required')
-        }
-
-        const options: NotificationOptions = {
-          message: String(notificationArgs.message),
-          title: notificationArgs.title
-            ? String(notificationArgs.title)
-            : undefined,
-          sound: notificationArgs.sound
-            ? String(notificationArgs.sound)
-            : undefined,
-        }
-
-        if (notificationArgs.useCurrent) {
-          const current = await notifier.getCurrentTmuxInfo()
-          if (current) {
-            options.session = current.session
-            options.window = current.window
-            options.pane = current.pane
+        const notificationArgs = parseToolArguments(name, args)
+        const options = await parseNotificationArgs(notificationArgs)
+        const timeout = notificationArgs.timeout ?? ASK_TIMEOUT_SECONDS
+        if (notificationArgs.waitForClick) {
+          options.waitForClick = true
+          options.timeoutMs = timeout * 1000
+        }
+        const record = await notifier.sendNotification(options)
+
+        if (record.status !== 'delivered') {
+          const explanation = {
+            suppressed:
+              'It was not delivered; avoid sending the same notification repeatedly.',
+            deferred:
+              'It will be delivered in a digest when the do-not-disturb period ends.',
+            dropped: 'It was not delivered.',
+            failed: 'It was not delivered.',
+          }[record.status]
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Notification ${record.status}: ${record.reason}. ${explanation}`,
+              },
+            ],
+            structuredContent: toStructuredRecord(record),
           }
+        }
+
+        let text = `Notification sent: "${options.message}"${options.session ? ` (tmux: ${options.session})` : ''}`
+        if (record.acknowledgement === 'timeout') {
+          text += `. No click within ${timeout}s`
+        } else if (record.acknowledgement) {
+          text += `. The user ${record.acknowledgement} it`
+        } else if (options.waitForClick) {
+          text +=
+            '. None of the backends can report clicks (use macos-app 2.0 or later)'
+        }
+        return {
+          content: [{ type: 'text', text }],
+          structuredContent: toStructuredRecord(record),
+        }
+      }
+
+      case 'ask_user': {
+        const askArgs = parseToolArguments(name, args)
+        const options = await parseNotificationArgs(askArgs)
+        if (!options.actions?.length && !options.reply) {
+          options.actions = ['Yes', 'No']
+        }
+        options.priority ??= 'high'
+        options.timeoutMs = (askArgs.timeout ?? ASK_TIMEOUT_SECONDS) * 1000
+
+        const { record, response, reason } = await notifier.askUser(options)
+        let text: string
+        if (!response) {
+          text = `No answer: ${reason}`
+        } else if (response.text !== undefined) {
+          text = `User replied: ${response.text}`
         } else {
-          if (notificationArgs.session)
-            options.session = String(notificationArgs.session)
-          if (notificationArgs.window)
-            options.window = String(notificationArgs.window)
-          if (notificationArgs.pane)
-            options.pane = String(notificationArgs.pane)
-        }
-
-        // Validate session if specified
-        if (options.session) {
-          const exists = await notifier.sessionExists(options.session)
-          if (!exists) {
-            const sessions = await notifier.listSessions()
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `Error: Session '${options.session}' does not exist. Available sessions: ${sessions.join(', ')}`,
-                },
-              ],
-            }
-          }
+          text = `User chose: ${response.action}`
+        }
+        return {
+          content: [{ type: 'text', text }],
+          structuredContent: {
+            id: record.id,
+            status: record.status,
+            answered: response !== null,
+            ...(response && { action: response.action, text: response.text }),
+            ...(reason && { reason }),
+          },
         }
+      }
 
-        await notifier.sendNotification(options)
+      case 'schedule_notification': {
+        const scheduleArgs = parseToolArguments(name, args)
+        const dueAt = parseDueArgs(scheduleArgs)
+        const options = await parseNotificationArgs(scheduleArgs)
+        const scheduled = await notifier.scheduleNotification(options, dueAt)
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Notification scheduled for ${scheduled.dueAt} (id: ${scheduled.id})`,
+            },
+          ],
+          structuredContent: toStructuredScheduled(scheduled),
+        }
+      }
 
+      case 'list_scheduled_notifications': {
+        parseToolArguments(name, args)
+        const scheduled = await notifier.listScheduled()
         return {
           content: [
             {
               type: 'text',
-              text: `Notification sent: "${options.message}"${options.session ? ` (tmux: ${options.session})` : ''}`,
+              text:
+                scheduled.length > 0
+                  ? `Scheduled notifications:\n${scheduled.map(formatScheduledNotification).join('\n')}`
+                  : 'No scheduled notifications',
             },
           ],
+          structuredContent: {
+            scheduled: scheduled.map(toStructuredScheduled),
+          },
+        }
+      }
+
+      case 'cancel_notification': {
+        const { id } = parseToolArguments(name, args)
+        const cancelled = await notifier.cancelScheduled(id)
+        if (!cancelled) {
+          throw new NotFoundError(
+            `Scheduled notification '${id}' not found (it may have been delivered already)`,
+          )
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Cancelled notification scheduled for ${cancelled.dueAt}: "${cancelled.notification.message}"`,
+            },
+          ],
+          structuredContent: toStructuredScheduled(cancelled),
         }
       }
 
       case 'list_tmux_sessions': {
-        const sessions = await notifier.listSessions()
+        parseToolArguments(name, args)
+        const sessions = await notifier.listSessionInfo()
         return {
           content: [
             {
               type: 'text',
               text:
                 sessions.length > 0
-                  ? `Available tmux sessions:\n${sessions.map((s) => `- ${s}`).join('\n')}`
+                  ? `Available tmux sessions:\n${sessions.map((s) => `- ${s.name}`).join('\n')}`
                   : 'No tmux sessions found',
             },
           ],
+          structuredContent: { sessions },
+        }
+      }
+
+      case 'list_tmux_windows': {
+        const { session } = parseToolArguments(name, args)
+        const windows = await notifier.listWindows(session || undefined)
+        return {
+          content: [
+            {
+              type: 'text',
+              text:
+                windows.length > 0
+                  ? `Available tmux windows:\n${windows.map(formatWindow).join('\n')}`
+                  : 'No tmux windows found',
+            },
+          ],
+          structuredContent: { windows },
+        }
+      }
+
+      case 'list_tmux_panes': {
+        const { session, window } = parseToolArguments(name, args)
+        const panes = await notifier.listPanes({
+          session: session || undefined,
+          window: window || undefined,
+        })
+        return {
+          content: [
+            {
+              type: 'text',
+              text:
+                panes.length > 0
+                  ? `Available tmux panes:\n${panes.map(formatPane).join('\n')}`
+                  : 'No tmux panes found',
+            },
+          ],
+          structuredContent: { panes },
         }
       }
 
       case 'get_current_tmux_info': {
+        parseToolArguments(name, args)
         const info = await notifier.getCurrentTmuxInfo()
         if (info) {
           return {
             content: [
               {
                 type: 'text',
-                text: `Current tmux location:\n- Session: ${info.session}\n- Window: ${info.window}\n- Pane: ${info.pane}`,
+                text: `Current tmux location:\n- Session: ${info.session} (${info.sessionId})\n- Window: ${info.window} (${info.windowId})\n- Pane: ${info.pane} (${info.paneId})`,
               },
             ],
+            structuredContent: { inTmux: true, ...info },
           }
         }
         return {
@@ -207,29 +900,180 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: 'Not in a tmux session',
             },
           ],
+          structuredContent: { inTmux: false },
+        }
+      }
+
+      case 'refresh_terminal_detection': {
+        parseToolArguments(name, args)
+        const terminal = await notifier.refreshTerminalDetection()
+        const configured = config.terminal !== undefined
+        return {
+          content: [
+            {
+              type: 'text',
+              text: configured
+                ? `Terminal is set to ${terminal} in the config; detection is skipped`
+                : `Detected terminal: ${terminal}`,
+            },
+          ],
+          structuredContent: { terminal, configured },
+        }
+      }
+
+      case 'diagnose': {
+        parseToolArguments(name, args)
+        const diagnosis = await notifier.diagnose()
+        return {
+          content: [{ type: 'text', text: formatDiagnosis(diagnosis) }],
+          structuredContent: { ...diagnosis },
+        }
+      }
+
+      case 'list_notifications': {
+        const historyArgs = parseToolArguments(name, args)
+        const records = await notifier.listNotifications({
+          session: historyArgs.session || undefined,
+          since: parseTimeArg(historyArgs.since, 'since'),
+          until: parseTimeArg(historyArgs.until, 'until'),
+          text: historyArgs.query || undefined,
+          limit: historyArgs.limit ?? 20,
+        })
+        return {
+          content: [
+            {
+              type: 'text',
+              text:
+                records.length > 0
+                  ? `Notifications:\n${records.map(formatNotificationRecord).join('\n')}`
+                  : 'No notifications found',
+            },
+          ],
+          structuredContent: {
+            notifications: records.map(toStructuredRecord),
+          },
         }
       }
 
-      default:
-        throw new Error(`Unknown tool: ${name}`)
+      case 'get_notification': {
+        const { id } = parseToolArguments(name, args)
+        const record = await notifier.getNotification(id)
+        if (!record) {
+          throw new NotFoundError(`Notification '${id}' not found`)
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(record, null, 2),
+            },
+          ],
+          structuredContent: toStructuredRecord(record),
+        }
+      }
     }
   } catch (error) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
+    return toErrorResult(error)
+  }
+}
+
+/**
+ * Connected servers with the resources their client subscribed to
+ */
+const servers = new Map<Server, Set<string>>()
+
+/**
+ * Create an MCP server for one client; all of them share the notifier, and
+ * with it the history, rate limiter and scheduler
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: 'macos-notify-mcp',
+      version: packageJson.version,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
+      },
+    },
+  )
+  const subscriptions = new Set<string>()
+  servers.set(server, subscriptions)
+  server.onclose = () => {
+    servers.delete(server)
+  }
+
+  server.setRequestHandler(ListToolsRequestSchema, handleListTools)
+  server.setRequestHandler(CallToolRequestSchema, handleCallTool)
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: await listResources(notifier),
+  }))
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES,
+  }))
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+    contents: [await readResource(notifier, config, request.params.uri)],
+  }))
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: listPrompts(),
+  }))
+  server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+    getPrompt(request.params.name, request.params.arguments),
+  )
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri)
+    return {}
+  })
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri)
+    return {}
+  })
+  return server
+}
+
+/**
+ * Tell clients that the session list, and with it the pane resources,
+ * changed
+ */
+async function notifySessionsChanged() {
+  for (const [server, subscriptions] of servers) {
+    try {
+      await server.sendResourceListChanged()
+      if (subscriptions.has(SESSIONS_URI)) {
+        await server.sendResourceUpdated({ uri: SESSIONS_URI })
+      }
+    } catch (error) {
+      console.error('Failed to notify about changed tmux sessions:', error)
     }
   }
-})
+}
 
 // Start the server
 async function main() {
-  const transport = new StdioServerTransport()
-  await server.connect(transport)
-  console.error('macOS Notify MCP server started')
+  const port = getArgValue('--http')
+  const socketPath = getArgValue('--socket')
+  if (port !== undefined && socketPath !== undefined) {
+    throw new Error('Use either --http or --socket')
+  }
+  if (port !== undefined || socketPath !== undefined) {
+    const http = await startHttpServer(createServer, {
+      port: port === undefined ? undefined : parsePort(port),
+      socketPath,
+      token: getHttpToken(),
+    })
+    console.error(`macOS Notify MCP server listening on ${http.url}`)
+  } else {
+    await createServer().connect(new StdioServerTransport())
+    console.error('macOS Notify MCP server started')
+  }
+
+  // Deliver scheduled notifications, digests and reminders, including the
+  // ones a previous run left pending
+  startScheduler(notifier)
+  watchTmuxSessions(notifier, notifySessionsChanged)
 }
 
 main().catch((error) => {
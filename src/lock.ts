@@ -0,0 +1,86 @@
+import {
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs'
+import { dirname } from 'node:path'
+
+/**
+ * How long to wait for another process to release a lock
+ */
+const LOCK_TIMEOUT_MS = 5 * 1000
+
+/**
+ * Locks older than this are left behind by a process that hung or crashed
+ */
+const STALE_LOCK_MS = 30 * 1000
+
+const RETRY_MS = 10
+
+/**
+ * Run `fn` while holding `<path>.lock`, so read-modify-write cycles on a
+ * state file shared by several processes do not overwrite each other.
+ * Critical sections must be short and synchronous.
+ */
+export function withFileLock<T>(path: string, fn: () => T): T {
+  const lockPath = `${path}.lock`
+  acquire(lockPath)
+  try {
+    return fn()
+  } finally {
+    rmSync(lockPath, { force: true })
+  }
+}
+
+/**
+ * Whether a process is still running
+ */
+export function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+function acquire(lockPath: string): void {
+  mkdirSync(dirname(lockPath), { recursive: true })
+  const deadline = Date.now() + LOCK_TIMEOUT_MS
+  for (;;) {
+    try {
+      // `wx` fails when the file exists, which makes creating it atomic
+      writeFileSync(lockPath, String(process.pid), { flag: 'wx' })
+      return
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+    }
+
+    if (isStale(lockPath)) {
+      rmSync(lockPath, { force: true })
+      continue
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for ${lockPath}`)
+    }
+    sleep(RETRY_MS)
+  }
+}
+
+function isStale(lockPath: string): boolean {
+  try {
+    const pid = Number(readFileSync(lockPath, 'utf-8'))
+    if (pid > 0 && !isRunning(pid)) return true
+    return Date.now() - statSync(lockPath).mtimeMs > STALE_LOCK_MS
+  } catch (_error) {
+    // Released meanwhile; try again
+    return false
+  }
+}
+
+function sleep(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms)
+}
@@ -1,21 +1,196 @@
 import { spawn } from 'node:child_process'
+import { randomUUID } from 'node:crypto'
 import { existsSync } from 'node:fs'
 import { dirname, join } from 'node:path'
 import { fileURLToPath } from 'node:url'
+import {
+  AUTO_DETECT_ORDER,
+  type BackendName,
+  type BackendSelection,
+  isWebhookFormat,
+  LogBackend,
+  MacOSAppBackend,
+  type NotificationBackend,
+  NotifySendBackend,
+  parseBackendList,
+  TerminalNotifierBackend,
+  WebhookBackend,
+  type WebhookOptions,
+} from './backends.js'
+import type { QuietHours } from './config.js'
+import type { DetectionSignal, Diagnosis, TitleSource } from './doctor.js'
+import {
+  DeliveryFailedError,
+  NotifyError,
+  TmuxUnavailableError,
+} from './errors.js'
+import {
+  ESCALATION_SOUND,
+  type EscalationOptions,
+  EscalationQueue,
+  type PendingEscalation,
+} from './escalation.js'
+import {
+  type DeliveryResult,
+  type HistoryQuery,
+  NotificationHistory,
+  type NotificationRecord,
+  type NotificationStatus,
+} from './history.js'
+import {
+  formatDigest,
+  NotificationPolicy,
+  type QuietHoursAction,
+} from './policy.js'
+import {
+  getPrioritySound,
+  isPriority,
+  meetsPriority,
+  type Priority,
+} from './priority.js'
+import {
+  getReplySocketPath,
+  type NotificationResponse,
+  ReplyListener,
+} from './reply.js'
+import {
+  NotificationSchedule,
+  type ScheduledNotification,
+  type ScheduledNotificationOptions,
+} from './schedule.js'
+import {
+  type ResolvedTarget,
+  resolveTarget,
+  type TargetSelector,
+} from './target.js'
+import {
+  type TerminalDefinition,
+  type TerminalMatch,
+  TerminalRegistry,
+  type TerminalType,
+  UNKNOWN_TERMINAL,
+} from './terminal.js'
+import { Throttle, type ThrottleOptions } from './throttle.js'
 
-interface NotificationOptions {
+export interface NotificationOptions {
   title?: string
   message: string
   sound?: string
   session?: string
   window?: string
   pane?: string
+  /**
+   * Stable tmux ids (`$1`, `@2`, `%3`) that survive window renumbering and
+   * pane splits; preferred over the indexes when the notification is clicked
+   */
+  sessionId?: string
+  windowId?: string
+  paneId?: string
+  /**
+   * Drives the default sound, do-not-disturb bypass, which backends fire and
+   * the macOS interruption level (default: normal)
+   */
+  priority?: Priority
+  /**
+   * Titles of action buttons, e.g. `Approve` and `Reject`
+   */
+  actions?: string[]
+  /**
+   * Add a text reply field
+   */
+  reply?: boolean
+  /**
+   * Resolve only once the notification is clicked, dismissed or `timeoutMs`
+   * passes; the result is in the record's `acknowledgement`
+   */
+  waitForClick?: boolean
+  /**
+   * How long to wait for a click, or for the user to respond to `actions`
+   * or `reply` (default: 1 hour)
+   */
+  timeoutMs?: number
+}
+
+/**
+ * A notification sent by `askUser` and the user's answer
+ */
+export interface AskResult {
+  record: NotificationRecord
+  /**
+   * `null` when the user did not respond in time or could not respond
+   */
+  response: NotificationResponse | null
+  /**
+   * Why there is no response
+   */
+  reason?: string
 }
 
-interface TmuxInfo {
+export interface TmuxInfo {
   session: string
   window: string
   pane: string
+  sessionId: string
+  windowId: string
+  paneId: string
+}
+
+export interface TmuxSession {
+  name: string
+  /**
+   * Number of windows in the session
+   */
+  windows: number
+  /**
+   * Whether a client is attached to the session
+   */
+  attached: boolean
+}
+
+export interface TmuxWindow {
+  session: string
+  index: string
+  name: string
+  /**
+   * Whether this is the current window of its session
+   */
+  active: boolean
+  /**
+   * Number of panes in the window
+   */
+  panes: number
+  /**
+   * TTYs of the clients currently showing this window
+   */
+  clients: string[]
+}
+
+export interface TmuxPane {
+  /**
+   * Pane id such as `%3`, unique for the lifetime of the tmux server
+   */
+  id: string
+  session: string
+  sessionId: string
+  window: string
+  windowId: string
+  windowName: string
+  index: string
+  title: string
+  /**
+   * Command running in the foreground of the pane
+   */
+  command: string
+  cwd: string
+  pid: number
+  /**
+   * Whether this is the active pane of its window
+   */
+  active: boolean
+  /**
+   * Whether the pane's window is the current window of its session
+   */
+  windowActive: boolean
 }
 
 interface CommandError extends Error {
@@ -24,19 +199,192 @@ interface CommandError extends Error {
   stdout?: string
 }
 
-export type TerminalType =
-  | 'VSCode'
-  | 'Cursor'
-  | 'iTerm2'
-  | 'Terminal'
-  | 'alacritty'
-  | 'Unknown'
+export interface NotifierOptions {
+  /**
+   * Backends to deliver through (default: MACOS_NOTIFY_BACKEND, or `auto`
+   * plus `webhook` when a webhook URL is configured)
+   */
+  backends?: BackendSelection[]
+  /**
+   * File used by the `log` backend (default: stderr)
+   */
+  logFile?: string
+  /**
+   * Endpoint used by the `webhook` backend (default: MACOS_NOTIFY_WEBHOOK_URL)
+   */
+  webhook?: WebhookOptions
+  /**
+   * Title used when none is given (default: git repository name)
+   */
+  defaultTitle?: string
+  /**
+   * Sound used when none is given (default: "Glass")
+   */
+  defaultSound?: string
+  /**
+   * Time ranges during which `quietHoursAction` applies
+   */
+  quietHours?: QuietHours[]
+  /**
+   * What happens during quiet hours (default: defer to a digest)
+   */
+  quietHoursAction?: QuietHoursAction
+  /**
+   * Sessions whose notifications are always dropped
+   */
+  mutedSessions?: string[]
+  /**
+   * JSONL file recording every notification sent
+   * (default: ~/.local/state/macos-notify-mcp/history.jsonl)
+   */
+  historyFile?: string
+  /**
+   * Rate limiting and duplicate suppression; `false` disables it
+   */
+  throttle?: ThrottleOptions | false
+  /**
+   * Terminal emulator to report instead of detecting it
+   */
+  terminal?: TerminalType
+  /**
+   * Additional terminal emulators to detect, tried before the built-in ones
+   */
+  terminals?: TerminalDefinition[]
+  /**
+   * Reminders sent while a high priority notification is not clicked
+   */
+  escalation?: EscalationOptions
+}
+
+/**
+ * Read webhook settings from MACOS_NOTIFY_WEBHOOK_* environment variables
+ */
+function webhookFromEnv(): WebhookOptions | undefined {
+  const url = process.env.MACOS_NOTIFY_WEBHOOK_URL
+  if (!url) return undefined
+
+  const format = process.env.MACOS_NOTIFY_WEBHOOK_FORMAT || undefined
+  if (format !== undefined && !isWebhookFormat(format)) {
+    throw new Error(`Unknown webhook format: ${format}`)
+  }
+  const minPriority = process.env.MACOS_NOTIFY_WEBHOOK_MIN_PRIORITY || undefined
+  if (minPriority !== undefined && !isPriority(minPriority)) {
+    throw new Error(`Unknown webhook minimum priority: ${minPriority}`)
+  }
+  return {
+    url,
+    format,
+    template: process.env.MACOS_NOTIFY_WEBHOOK_TEMPLATE,
+    minPriority,
+  }
+}
+
+/**
+ * First line of an error message, for one-line reports
+ */
+function firstLine(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error)
+  return message.split('\n')[0]
+}
+
+/**
+ * The error for a notification no backend delivered: the backends' own error
+ * when they agree on its kind, e.g. a missing app, else a DeliveryFailedError
+ */
+function toDeliveryError(
+  errors: unknown[],
+  deliveries: DeliveryResult[],
+): NotifyError {
+  const [first] = errors
+  if (
+    first instanceof NotifyError &&
+    errors.every(
+      (error) => error instanceof NotifyError && error.code === first.code,
+    )
+  ) {
+    return first
+  }
+  const message =
+    deliveries.length === 1
+      ? (deliveries[0].error ?? 'Delivery failed')
+      : `All backends failed: ${deliveries.map(({ backend, error }) => `${backend}: ${error}`).join('; ')}`
+  return new DeliveryFailedError(message, deliveries, { cause: first })
+}
+
+/**
+ * How long tmux query results are reused, so a burst of notifications or
+ * tool calls does not spawn tmux for every lookup
+ */
+const TMUX_CACHE_TTL_MS = 1000
+
+/**
+ * How long a notification with actions waits for the user by default
+ */
+const RESPONSE_TIMEOUT_MS = 60 * 60 * 1000
+
+/**
+ * How long a detected terminal emulator is trusted while the same tmux
+ * client stays in front
+ */
+const TERMINAL_CACHE_TTL_MS = 5 * 60 * 1000
 
 export class TmuxNotifier {
   private appPath = ''
   private defaultTitle = 'macos-notify-mcp'
+  private configuredTitle?: string
+  private backends: BackendSelection[]
+  private logFile?: string
+  private webhook?: WebhookOptions
+  private autoBackend?: BackendName
+  private defaultSound: string
+  private policy: NotificationPolicy
+  private history: NotificationHistory
+  private schedule = new NotificationSchedule()
+  private throttle: Throttle | null
+  private escalations?: EscalationQueue
+  private tmuxCache = new Map<
+    string,
+    { expires: number; rows: Promise<string[][]> }
+  >()
+  private pendingResponses = new Map<
+    string,
+    Promise<NotificationResponse | null>
+  >()
+  private terminals: TerminalRegistry
+  private terminalOverride?: TerminalType
+  private terminalCache?: {
+    terminal: TerminalType
+    /**
+     * TTY of the tmux client the terminal was detected for
+     */
+    client?: string
+    expires: number
+  }
+
+  constructor(customAppPath?: string, options: NotifierOptions = {}) {
+    this.history = new NotificationHistory(options.historyFile)
+    this.throttle =
+      options.throttle === false ? null : new Throttle(options.throttle)
+    this.defaultSound = options.defaultSound ?? 'Glass'
+    this.terminals = new TerminalRegistry(options.terminals)
+    this.terminalOverride = options.terminal
+    if (options.escalation) {
+      this.escalations = new EscalationQueue(options.escalation)
+    }
+    this.policy = new NotificationPolicy({
+      quietHours: options.quietHours,
+      quietHoursAction: options.quietHoursAction,
+      mutedSessions: options.mutedSessions,
+    })
+    this.logFile = options.logFile ?? process.env.MACOS_NOTIFY_LOG_FILE
+    this.webhook = options.webhook ?? webhookFromEnv()
+    this.backends =
+      options.backends ??
+      parseBackendList(
+        process.env.MACOS_NOTIFY_BACKEND ||
+          (this.webhook ? 'auto,webhook' : 'auto'),
+      )
 
-  constructor(customAppPath?: string) {
     if (customAppPath) {
       this.appPath = customAppPath
     } else {
@@ -67,8 +415,13 @@ export class TmuxNotifier {
       }
     }
 
-    // Get repository name as default title
-    this.initializeDefaultTitle()
+    if (options.defaultTitle) {
+      this.defaultTitle = options.defaultTitle
+      this.configuredTitle = options.defaultTitle
+    } else {
+      // Get repository name as default title
+      this.initializeDefaultTitle()
+    }
   }
 
   /**
@@ -76,9 +429,9 @@ export class TmuxNotifier {
    */
   private async initializeDefaultTitle(): Promise<void> {
     try {
-      const repoName = await this.getGitRepoName()
-      if (repoName) {
-        this.defaultTitle = repoName
+      const { name } = await this.getGitTitle()
+      if (name) {
+        this.defaultTitle = name
       }
     } catch (_error) {
       // Keep default title if git command fails
@@ -86,56 +439,27 @@ export class TmuxNotifier {
   }
 
   /**
-   * Get the active tmux client information
+   * Get the most recently active client attached to this pane's session
    */
   private async getActiveClientInfo(): Promise<{
     tty: string
     session: string
     activity: string
+    termname: string
   } | null> {
-    try {
-      // Get list of all clients attached to the current session
-      const currentSession = process.env.TMUX_PANE
-        ? await this.runCommand('tmux', [
-            'display-message',
-            '-p',
-            '#{session_name}',
-          ])
-        : null
-
-      if (!currentSession) return null
-
-      // Get all clients attached to this session
-      const clientsOutput = await this.runCommand('tmux', [
-        'list-clients',
-        '-t',
-        currentSession.trim(),
-        '-F',
-        '#{client_tty}|#{client_session}|#{client_activity}',
-      ])
-
-      const clients = clientsOutput
-        .trim()
-        .split('\n')
-        .filter(Boolean)
-        .map((line) => {
-          const [tty, session, activity] = line.split('|')
-          return { tty, session, activity: Number(activity) }
-        })
+    if (!process.env.TMUX_PANE) return null
 
-      // Get the most recently active client
-      const activeClient = clients.reduce((prev, curr) =>
-        curr.activity > prev.activity ? curr : prev,
-      )
+    // A pane id as the target lists the clients of the session holding it
+    const clients = await this.queryTmux(
+      ['list-clients', '-t', process.env.TMUX_PANE],
+      ['client_tty', 'client_session', 'client_activity', 'client_termname'],
+    )
+    if (clients.length === 0) return null
 
-      return {
-        tty: activeClient.tty,
-        session: activeClient.session,
-        activity: activeClient.activity.toString(),
-      }
-    } catch (_error) {
-      return null
-    }
+    const [tty, session, activity, termname] = clients.reduce((prev, curr) =>
+      Number(curr[2]) > Number(prev[2]) ? curr : prev,
+    )
+    return { tty, session, activity, termname }
   }
 
   /**
@@ -143,207 +467,221 @@ export class TmuxNotifier {
    */
   private async detectTerminalFromClient(
     clientTty: string,
-  ): Promise<TerminalType> {
+    signals: DetectionSignal[],
+  ): Promise<TerminalMatch | undefined> {
     try {
       // Find processes using this TTY
       const lsofOutput = await this.runCommand('lsof', [clientTty])
-      const lines = lsofOutput.trim().split('\n').slice(1) // Skip header
-
-      for (const line of lines) {
-        const parts = line.split(/\s+/)
-        if (parts.length < 2) continue
-
-        const pid = parts[1]
-        // Get process info
-        const psOutput = await this.runCommand('ps', ['-p', pid, '-o', 'comm='])
-        const command = psOutput.trim()
-
-        // Check for known terminal emulators
-        if (command.includes('Cursor')) return 'Cursor'
-        if (command.includes('Code')) return 'VSCode'
-        if (command.includes('iTerm2')) return 'iTerm2'
-        if (command.includes('Terminal')) return 'Terminal'
-        if (command.includes('alacritty')) return 'alacritty'
+      const pids = lsofOutput
+        .trim()
+        .split('\n')
+        .slice(1) // Skip header
+        .map((line) => line.split(/\s+/)[1])
+        .filter(Boolean)
+      signals.push({
+        source: 'lsof',
+        value: `${clientTty}: ${pids.length > 0 ? `pids ${pids.join(', ')}` : 'no processes'}`,
+      })
+      if (pids.length === 0) return undefined
+
+      // Get the names of all of them in one go
+      const psOutput = await this.runCommand('ps', [
+        '-p',
+        [...new Set(pids)].join(','),
+        '-o',
+        'comm=',
+      ])
+
+      for (const command of psOutput.split('\n').filter(Boolean)) {
+        const match = this.terminals.matchProcess(command)
+        signals.push({
+          source: 'ps',
+          value: command,
+          terminal: match?.terminal.name,
+        })
+        if (match) return match
       }
-    } catch (_error) {
+    } catch (error) {
       // lsof might fail, continue with other methods
+      signals.push({ source: 'lsof', value: `failed: ${firstLine(error)}` })
     }
 
-    return 'Unknown'
+    return undefined
   }
 
   /**
    * Detect the parent terminal emulator
    */
   private async detectTerminalEmulator(): Promise<TerminalType> {
-    // 1. Check for Cursor via CURSOR_TRACE_ID
-    if (process.env.CURSOR_TRACE_ID) {
-      return 'Cursor'
-    }
+    return (await this.detectTerminal([]))?.terminal.name ?? UNKNOWN_TERMINAL
+  }
 
-    // 2. Check for VSCode/Cursor via VSCODE_IPC_HOOK_CLI
-    if (process.env.VSCODE_IPC_HOOK_CLI) {
-      // Check if it's Cursor by looking for cursor-specific paths
-      if (process.env.VSCODE_IPC_HOOK_CLI.includes('Cursor')) {
-        return 'Cursor'
+  /**
+   * Find the terminal emulator, recording every signal considered on the way
+   */
+  private async detectTerminal(
+    signals: DetectionSignal[],
+  ): Promise<TerminalMatch | undefined> {
+    // 1. Environment variables set by the terminal
+    for (const name of this.terminals.envNames) {
+      const value = process.env[name]
+      if (value) {
+        const match = this.terminals.matchEnvironment({ [name]: value })
+        signals.push({
+          source: 'env',
+          value: `${name}=${value}`,
+          terminal: match?.terminal.name,
+        })
       }
-      return 'VSCode'
     }
-
-    // 3. Check for VSCode Remote (for tmux attached from VSCode)
-    if (process.env.VSCODE_REMOTE || process.env.VSCODE_PID) {
-      return 'VSCode'
+    const fromEnv = this.terminals.matchEnvironment(process.env)
+    if (fromEnv) {
+      return fromEnv
     }
 
-    // 4. Check for alacritty via specific environment variables
-    if (process.env.ALACRITTY_WINDOW_ID || process.env.ALACRITTY_SOCKET) {
-      return 'alacritty'
-    }
-
-    // 5. Check TERM_PROGRAM for iTerm2 and Terminal.app
-    if (process.env.TERM_PROGRAM) {
-      if (process.env.TERM_PROGRAM === 'iTerm.app') {
-        return 'iTerm2'
-      }
-      if (process.env.TERM_PROGRAM === 'Apple_Terminal') {
-        return 'Terminal'
-      }
-      if (process.env.TERM_PROGRAM === 'alacritty') {
-        return 'alacritty'
-      }
-    }
-
-    // 6. If we're in tmux, try to detect the active client's terminal
+    // 2. If we're in tmux, try to detect the active client's terminal
     if (process.env.TMUX) {
-      try {
-        // Get active client info
-        const clientInfo = await this.getActiveClientInfo()
-        if (clientInfo) {
-          const detectedTerminal = await this.detectTerminalFromClient(
-            clientInfo.tty,
-          )
-          if (detectedTerminal !== 'Unknown') {
-            return detectedTerminal
-          }
+      const clientInfo = await this.getActiveClientInfo()
+      if (clientInfo) {
+        signals.push({
+          source: 'tmux client',
+          value: `${clientInfo.tty} (session ${clientInfo.session})`,
+        })
+        const fromTty = await this.detectTerminalFromClient(
+          clientInfo.tty,
+          signals,
+        )
+        if (fromTty) {
+          return fromTty
         }
 
-        // Fallback: Get the tmux client's terminal info
-        const clientTerm = await this.runCommand('tmux', [
-          'display-message',
-          '-p',
-          '#{client_termname}',
-        ])
-
-        // Check for specific terminal indicators in the client termname
-        if (clientTerm.includes('iterm') || clientTerm.includes('iTerm')) {
-          return 'iTerm2'
-        }
-        if (clientTerm.includes('Apple_Terminal')) {
-          return 'Terminal'
+        const fromTermname = this.terminals.matchTermname(clientInfo.termname)
+        signals.push({
+          source: 'tmux termname',
+          value: clientInfo.termname,
+          terminal: fromTermname?.terminal.name,
+        })
+        if (fromTermname) {
+          return fromTermname
         }
+      } else {
+        signals.push({ source: 'tmux client', value: 'none attached' })
+      }
 
-        // Also check tmux client environment variables
-        try {
-          const clientEnv = await this.runCommand('tmux', [
-            'show-environment',
-            '-g',
-            'TERM_PROGRAM',
-          ])
-          if (clientEnv.includes('TERM_PROGRAM=iTerm.app')) {
-            return 'iTerm2'
-          }
-          if (clientEnv.includes('TERM_PROGRAM=Apple_Terminal')) {
-            return 'Terminal'
-          }
-        } catch (_) {
-          // Ignore if show-environment fails
+      // Also check the tmux global environment
+      try {
+        const output = await this.runCommand('tmux', [
+          'show-environment',
+          '-g',
+          'TERM_PROGRAM',
+        ])
+        const [name, value] = output.trim().split('=')
+        const fromTmuxEnv = this.terminals.matchEnvironment({ [name]: value })
+        signals.push({
+          source: 'tmux environment',
+          value: output.trim(),
+          terminal: fromTmuxEnv?.terminal.name,
+        })
+        if (fromTmuxEnv) {
+          return fromTmuxEnv
         }
       } catch (_) {
-        // Ignore tmux command failures
+        // Ignore if show-environment fails
+        signals.push({
+          source: 'tmux environment',
+          value: 'TERM_PROGRAM unset',
+        })
       }
     }
 
     // 3. Fallback: Check process tree
     try {
-      // Get the parent process ID chain
+      // Read the whole process table once and walk the parent chain in it
+      const psOutput = await this.runCommand('ps', [
+        '-A',
+        '-o',
+        'pid=,ppid=,comm=',
+      ])
+      const processes = new Map<number, { ppid: number; command: string }>()
+      for (const line of psOutput.split('\n')) {
+        const match = line.trim().match(/^(\d+)\s+(\d+)\s+(.*)$/)
+        if (match) {
+          processes.set(Number(match[1]), {
+            ppid: Number(match[2]),
+            command: match[3],
+          })
+        }
+      }
+
       let currentPid = process.pid
       const maxDepth = 10 // Prevent infinite loops
 
       for (let i = 0; i < maxDepth; i++) {
-        // Get parent process info using ps command
-        const psOutput = await this.runCommand('ps', [
-          '-p',
-          currentPid.toString(),
-          '-o',
-          'ppid=,comm=',
-        ])
-
-        const [ppidStr, command] = psOutput.trim().split(/\s+/, 2)
-        const ppid = Number.parseInt(ppidStr)
-
-        if (!ppid || ppid === 1) {
-          break // Reached init process
-        }
+        const proc = processes.get(currentPid)
+        if (!proc) break
 
         // Check if the command matches known terminal emulators
-        if (command) {
-          if (command.includes('Cursor')) {
-            return 'Cursor'
-          }
-          if (command.includes('Code') || command.includes('code-insiders')) {
-            return 'VSCode'
-          }
-          if (command.includes('iTerm2')) {
-            return 'iTerm2'
-          }
-          if (command.includes('Terminal')) {
-            return 'Terminal'
-          }
+        const match = this.terminals.matchProcess(proc.command)
+        signals.push({
+          source: 'process tree',
+          value: `${currentPid} ${proc.command}`,
+          terminal: match?.terminal.name,
+        })
+        if (match) {
+          return match
         }
 
-        currentPid = ppid
+        if (!proc.ppid || proc.ppid === 1) {
+          break // Reached init process
+        }
+        currentPid = proc.ppid
       }
-    } catch (_error) {
+    } catch (error) {
       // Ignore errors in process tree detection
+      signals.push({
+        source: 'process tree',
+        value: `failed: ${firstLine(error)}`,
+      })
     }
 
-    return 'Unknown'
+    return undefined
   }
 
   /**
-   * Get git repository name from current directory
+   * Get the git repository name of the current directory, with the remote
+   * URL or root directory it was taken from
    */
-  private async getGitRepoName(): Promise<string | null> {
+  private async getGitTitle(): Promise<{
+    name: string | null
+    remote?: string
+    root?: string
+  }> {
     try {
       // Get the remote URL
-      const remoteUrl = (
+      const remote = (
         await this.runCommand('git', ['config', '--get', 'remote.origin.url'])
       ).trim()
 
-      if (!remoteUrl) {
-        // If no remote, try to get the directory name of the git root
-        const gitRoot = (
-          await this.runCommand('git', ['rev-parse', '--show-toplevel'])
-        ).trim()
-        return gitRoot.split('/').pop() || null
-      }
-
       // Extract repo name from URL
       // Handle both HTTPS and SSH formats
       // https://github.com/user/repo.git
       // git@github.com:user/repo.git
-      const match = remoteUrl.match(/[/:]([\w-]+)\/([\w-]+?)(\.git)?$/)
+      const match = remote.match(/[/:]([\w-]+)\/([\w-]+?)(\.git)?$/)
       if (match) {
-        return match[2]
+        return { name: match[2], remote }
       }
 
-      // Fallback to directory name
-      const gitRoot = (
+      // Fallback to the directory name of the git root
+      const root = (
         await this.runCommand('git', ['rev-parse', '--show-toplevel'])
       ).trim()
-      return gitRoot.split('/').pop() || null
+      return {
+        name: root.split('/').pop() || null,
+        remote: remote || undefined,
+        root,
+      }
     } catch (_error) {
-      return null
+      return { name: null }
     }
   }
 
@@ -386,49 +724,248 @@ export class TmuxNotifier {
    * Get current tmux session info
    */
   async getCurrentTmuxInfo(): Promise<TmuxInfo | null> {
-    try {
-      const session = (
-        await this.runCommand('tmux', [
-          'display-message',
-          '-p',
-          '#{session_name}',
-        ])
-      ).trim()
-      const window = (
-        await this.runCommand('tmux', [
-          'display-message',
-          '-p',
-          '#{window_index}',
-        ])
-      ).trim()
-      const pane = (
-        await this.runCommand('tmux', [
-          'display-message',
-          '-p',
-          '#{pane_index}',
-        ])
-      ).trim()
+    // Ids stay valid when windows are renumbered or panes split or killed
+    const [info] = await this.queryTmux(
+      ['display-message', '-p'],
+      [
+        'session_name',
+        'window_index',
+        'pane_index',
+        'session_id',
+        'window_id',
+        'pane_id',
+      ],
+    )
+    if (!info) return null
 
-      return { session, window, pane }
-    } catch (_error) {
-      return null
-    }
+    const [session, window, pane, sessionId, windowId, paneId] = info
+    return { session, window, pane, sessionId, windowId, paneId }
   }
 
   /**
    * List tmux sessions
    */
   async listSessions(): Promise<string[]> {
+    const rows = await this.queryTmux(['list-sessions'], ['session_name'])
+    return rows.map(([name]) => name)
+  }
+
+  /**
+   * List tmux sessions with their window count and attached state
+   */
+  async listSessionInfo(): Promise<TmuxSession[]> {
+    const rows = await this.queryTmux(
+      ['list-sessions'],
+      ['session_name', 'session_windows', 'session_attached'],
+    )
+    return rows.map(([name, windows, attached]) => ({
+      name,
+      windows: Number(windows),
+      attached: Number(attached) > 0,
+    }))
+  }
+
+  /**
+   * List windows of one session, or of all sessions
+   */
+  async listWindows(session?: string): Promise<TmuxWindow[]> {
+    const [rows, clients] = await Promise.all([
+      this.queryTmux(
+        ['list-windows', ...(session ? ['-t', session] : ['-a'])],
+        [
+          'session_name',
+          'window_index',
+          'window_name',
+          'window_active',
+          'window_panes',
+        ],
+      ),
+      this.queryTmux(
+        ['list-clients'],
+        ['client_tty', 'session_name', 'window_index'],
+      ),
+    ])
+
+    return rows.map(([session, index, name, active, panes]) => ({
+      session,
+      index,
+      name,
+      active: active === '1',
+      panes: Number(panes),
+      clients: clients
+        .filter(([, clientSession, window]) => {
+          return clientSession === session && window === index
+        })
+        .map(([tty]) => tty),
+    }))
+  }
+
+  /**
+   * List panes of a window, of a session, or of all sessions
+   */
+  async listPanes(
+    filter: { session?: string; window?: string } = {},
+  ): Promise<TmuxPane[]> {
+    let scope = ['-a']
+    if (filter.session && filter.window !== undefined) {
+      scope = ['-t', `${filter.session}:${filter.window}`]
+    } else if (filter.session) {
+      scope = ['-s', '-t', filter.session]
+    }
+
+    const rows = await this.queryTmux(
+      ['list-panes', ...scope],
+      [
+        'pane_id',
+        'session_name',
+        'session_id',
+        'window_index',
+        'window_id',
+        'window_name',
+        'pane_index',
+        'pane_title',
+        'pane_current_command',
+        'pane_current_path',
+        'pane_pid',
+        'pane_active',
+        'window_active',
+      ],
+    )
+    return rows.map(
+      ([
+        id,
+        session,
+        sessionId,
+        window,
+        windowId,
+        windowName,
+        index,
+        title,
+        command,
+        cwd,
+        pid,
+        active,
+        windowActive,
+      ]) => ({
+        id,
+        session,
+        sessionId,
+        window,
+        windowId,
+        windowName,
+        index,
+        title,
+        command,
+        cwd,
+        pid: Number(pid),
+        active: active === '1',
+        windowActive: windowActive === '1',
+      }),
+    )
+  }
+
+  /**
+   * Resolve a session, window name, pane title, `%id`, cwd glob or running
+   * command to a single tmux target; throws a TargetError listing the
+   * candidates when nothing or more than one pane matches, and a
+   * TmuxUnavailableError when there are no panes at all
+   */
+  async resolveTarget(selector: TargetSelector): Promise<ResolvedTarget> {
+    const panes = await this.listPanes()
+    if (panes.length === 0) {
+      throw await this.getTmuxUnavailableError()
+    }
+    const foreground = selector.command
+      ? await this.getForegroundCommands()
+      : undefined
+    return resolveTarget(panes, selector, foreground)
+  }
+
+  /**
+   * Tell whether tmux is missing or only has no server running
+   */
+  private async getTmuxUnavailableError(): Promise<TmuxUnavailableError> {
     try {
-      const output = await this.runCommand('tmux', [
-        'list-sessions',
-        '-F',
-        '#{session_name}',
+      await this.runCommand('tmux', ['-V'])
+    } catch (error) {
+      return new TmuxUnavailableError('tmux is not installed', {
+        cause: error,
+      })
+    }
+    return new TmuxUnavailableError(
+      'No tmux server is running (no tmux sessions found)',
+    )
+  }
+
+  /**
+   * Map each process id to the command lines of the foreground process
+   * group of its terminal, so panes can be matched by e.g. `npm test`
+   */
+  private async getForegroundCommands(): Promise<Map<number, string[]>> {
+    const commands = new Map<number, string[]>()
+    try {
+      const output = await this.runCommand('ps', [
+        '-A',
+        '-o',
+        'pid=,pgid=,tpgid=,args=',
       ])
-      return output.trim().split('\n').filter(Boolean)
+      const processes = output
+        .split('\n')
+        .map((line) => line.trim().match(/^(\d+)\s+(\d+)\s+(-?\d+)\s+(.*)$/))
+        .filter((match) => match !== null)
+        .map(([, pid, pgid, tpgid, args]) => ({
+          pid: Number(pid),
+          pgid: Number(pgid),
+          tpgid: Number(tpgid),
+          args,
+        }))
+
+      const groups = new Map<number, string[]>()
+      for (const proc of processes) {
+        groups.set(proc.pgid, [...(groups.get(proc.pgid) ?? []), proc.args])
+      }
+      for (const proc of processes) {
+        if (proc.tpgid > 0) {
+          commands.set(proc.pid, groups.get(proc.tpgid) ?? [])
+        }
+      }
     } catch (_error) {
-      return []
+      // Fall back to matching the pane's current command name only
+    }
+    return commands
+  }
+
+  /**
+   * Run a tmux command with the given format variables in a single round trip
+   * and split its output into rows of fields; returns no rows when tmux is
+   * not running. Results are reused for `TMUX_CACHE_TTL_MS`.
+   */
+  private queryTmux(args: string[], variables: string[]): Promise<string[][]> {
+    const command = [
+      ...args,
+      '-F',
+      variables.map((name) => `#{${name}}`).join('\t'),
+    ]
+    const key = command.join('\0')
+    const now = Date.now()
+    const cached = this.tmuxCache.get(key)
+    if (cached && cached.expires > now) {
+      return cached.rows
+    }
+
+    const rows = this.runCommand('tmux', command).then(
+      (output) =>
+        output
+          .split('\n')
+          .filter(Boolean)
+          .map((line) => line.split('\t')),
+      () => [],
+    )
+    for (const [stale, entry] of this.tmuxCache) {
+      if (entry.expires <= now) this.tmuxCache.delete(stale)
     }
+    this.tmuxCache.set(key, { expires: now + TMUX_CACHE_TTL_MS, rows })
+    return rows
   }
 
   /**
@@ -440,58 +977,636 @@ export class TmuxNotifier {
   }
 
   /**
-   * Get the detected terminal emulator type
+   * Get the terminal emulator type; detection is cached until it expires or
+   * a different tmux client becomes the active one
    */
   async getTerminalEmulator(): Promise<TerminalType> {
-    return this.detectTerminalEmulator()
+    if (this.terminalOverride) return this.terminalOverride
+
+    const client = await this.getTerminalClient()
+    const cached = this.terminalCache
+    if (cached && cached.expires > Date.now() && cached.client === client) {
+      return cached.terminal
+    }
+    return this.detectAndCacheTerminal(client)
+  }
+
+  /**
+   * Discard the cached terminal emulator and detect it again
+   */
+  async refreshTerminalDetection(): Promise<TerminalType> {
+    if (this.terminalOverride) return this.terminalOverride
+    return this.detectAndCacheTerminal(await this.getTerminalClient())
+  }
+
+  private async detectAndCacheTerminal(client?: string): Promise<TerminalType> {
+    const terminal = await this.detectTerminalEmulator()
+    this.terminalCache = {
+      terminal,
+      client,
+      expires: Date.now() + TERMINAL_CACHE_TTL_MS,
+    }
+    return terminal
+  }
+
+  /**
+   * Report everything that decides how notifications are delivered: each
+   * terminal detection signal, the app bundle, tmux and the default title
+   */
+  async diagnose(): Promise<Diagnosis> {
+    const signals: DetectionSignal[] = []
+    const match = await this.detectTerminal(signals)
+    const detected = match?.terminal.name ?? UNKNOWN_TERMINAL
+    const name = this.terminalOverride ?? detected
+
+    let version: string | undefined
+    let error: string | undefined
+    try {
+      version = (await this.runCommand('tmux', ['-V'])).trim()
+    } catch (caught) {
+      error = firstLine(caught)
+    }
+
+    let titleSource: TitleSource = 'default'
+    let git: { remote?: string; root?: string } = {}
+    if (this.configuredTitle) {
+      titleSource = 'config'
+    } else {
+      const { name: repoName, ...rest } = await this.getGitTitle()
+      git = rest
+      if (repoName) titleSource = rest.root ? 'git directory' : 'git remote'
+    }
+
+    return {
+      terminal: {
+        name,
+        detected,
+        configured: this.terminalOverride,
+        rule: match?.rule,
+        app: this.terminals.get(name)?.app,
+        signals,
+      },
+      app: { path: this.appPath, found: existsSync(this.appPath) },
+      backends: (await this.getBackends()).map((backend) => backend.name),
+      tmux: {
+        available: version !== undefined,
+        version,
+        error,
+        inside: !!process.env.TMUX,
+        current: process.env.TMUX
+          ? ((await this.getCurrentTmuxInfo()) ?? undefined)
+          : undefined,
+        sessions: version !== undefined ? await this.listSessions() : [],
+      },
+      title: { title: this.defaultTitle, source: titleSource, ...git },
+    }
+  }
+
+  /**
+   * TTY of the tmux client in front, which decides the terminal emulator
+   */
+  private async getTerminalClient(): Promise<string | undefined> {
+    if (!process.env.TMUX) return undefined
+    return (await this.getActiveClientInfo())?.tty
+  }
+
+  /**
+   * Create a backend instance by name
+   */
+  private createBackend(name: BackendName): NotificationBackend {
+    const run = (command: string, args: string[]) =>
+      this.runCommand(command, args)
+
+    switch (name) {
+      case 'macos-app':
+        return new MacOSAppBackend(this.appPath, run)
+      case 'terminal-notifier':
+        return new TerminalNotifierBackend(run)
+      case 'notify-send':
+        return new NotifySendBackend(run)
+      case 'log':
+        return new LogBackend(this.logFile)
+      case 'webhook':
+        return new WebhookBackend(this.webhook)
+    }
+  }
+
+  /**
+   * Resolve `auto` to the first backend available on this host
+   */
+  private async detectBackend(): Promise<BackendName> {
+    if (!this.autoBackend) {
+      for (const name of AUTO_DETECT_ORDER) {
+        if (await this.createBackend(name).isAvailable()) {
+          this.autoBackend = name
+          break
+        }
+      }
+    }
+    return this.autoBackend ?? 'log'
+  }
+
+  /**
+   * Get the backends notifications will be delivered through
+   */
+  async getBackends(
+    selections: BackendSelection[] = this.backends,
+  ): Promise<NotificationBackend[]> {
+    const names = new Set<BackendName>()
+    for (const selection of selections) {
+      names.add(selection === 'auto' ? await this.detectBackend() : selection)
+    }
+    return [...names].map((name) => this.createBackend(name))
+  }
+
+  /**
+   * List previously sent notifications, newest first
+   */
+  async listNotifications(
+    query: HistoryQuery = {},
+  ): Promise<NotificationRecord[]> {
+    return this.history.list(query)
+  }
+
+  /**
+   * Get a previously sent notification by id
+   */
+  async getNotification(id: string): Promise<NotificationRecord | null> {
+    return this.history.get(id)
+  }
+
+  /**
+   * Wait for the user to respond to a notification with actions or a reply
+   * field; resolves to `null` once it times out
+   */
+  async waitForResponse(id: string): Promise<NotificationResponse | null> {
+    const pending = this.pendingResponses.get(id)
+    if (pending) return pending
+    return (await this.getNotification(id))?.response ?? null
+  }
+
+  /**
+   * Send a notification with actions and wait for the user's answer
+   */
+  async askUser(options: NotificationOptions): Promise<AskResult> {
+    const timeoutMs = options.timeoutMs ?? RESPONSE_TIMEOUT_MS
+    const record = await this.sendNotification({
+      ...options,
+      waitForClick: true,
+      timeoutMs,
+    })
+    if (record.status !== 'delivered') {
+      return { record, response: null, reason: record.reason }
+    }
+
+    switch (record.acknowledgement) {
+      case undefined:
+        return {
+          record,
+          response: null,
+          reason:
+            'none of the backends can report responses (use macos-app 2.0 or later)',
+        }
+      case 'timeout':
+        return {
+          record,
+          response: null,
+          reason: `no response within ${Math.round(timeoutMs / 1000)}s`,
+        }
+      default:
+        return { record, response: record.response ?? null }
+    }
+  }
+
+  /**
+   * Deliver queued notifications as one digest once the policy allows it
+   */
+  async flushDigest(): Promise<NotificationRecord | null> {
+    if (this.policy.evaluate({}).action !== 'deliver') return null
+
+    const queued = this.policy.takeQueued()
+    if (queued.length === 0) return null
+
+    const { title, message } = formatDigest(queued)
+    try {
+      return await this.deliver({ title, message, sound: this.defaultSound })
+    } catch (error) {
+      // Queue them again so the next digest retries them
+      for (const record of queued) {
+        this.policy.enqueue(record)
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Schedule a notification for later; it is delivered by a running MCP
+   * server or `macos-notify-cli daemon`
+   */
+  async scheduleNotification(
+    options: Omit<NotificationOptions, 'waitForClick' | 'timeoutMs'>,
+    dueAt: Date,
+  ): Promise<ScheduledNotification> {
+    const notification: ScheduledNotificationOptions = {
+      ...options,
+      title: options.title ?? this.defaultTitle,
+    }
+    return this.schedule.add(notification, dueAt)
+  }
+
+  /**
+   * List notifications waiting to be delivered, soonest first
+   */
+  async listScheduled(): Promise<ScheduledNotification[]> {
+    return this.schedule.list()
+  }
+
+  /**
+   * Cancel a scheduled notification; `null` when there is none with this id
+   */
+  async cancelScheduled(id: string): Promise<ScheduledNotification | null> {
+    return this.schedule.cancel(id)
+  }
+
+  /**
+   * Send the scheduled notifications that are due
+   */
+  async deliverScheduled(
+    now: Date = new Date(),
+  ): Promise<NotificationRecord[]> {
+    const records: NotificationRecord[] = []
+    for (const scheduled of this.schedule.takeDue(now)) {
+      try {
+        records.push(await this.sendNotification(scheduled.notification))
+      } catch (_error) {
+        // The failure is recorded in the history
+      }
+    }
+    return records
+  }
+
+  /**
+   * Send the reminders that are due for notifications nobody clicked, after
+   * taking over escalations left behind by exited processes
+   */
+  async processEscalations(
+    now: Date = new Date(),
+  ): Promise<NotificationRecord[]> {
+    const escalations = this.escalations
+    if (!escalations) return []
+
+    for (const pending of escalations.adopt(now)) {
+      await this.resumeEscalation(pending, now)
+    }
+
+    const sent: NotificationRecord[] = []
+    for (const pending of escalations.due(now)) {
+      const step = escalations.steps[pending.step]
+      const timeoutMs = escalations.durationMs(pending.step + 1)
+      let record: NotificationRecord | undefined
+      try {
+        record = await this.deliver(
+          {
+            ...pending.notification,
+            title: `Reminder: ${pending.notification.title}`,
+            sound: step.sound ?? ESCALATION_SOUND,
+          },
+          { waitForClick: timeoutMs > 0, timeoutMs, backends: step.backends },
+        )
+        sent.push(record)
+      } catch (_error) {
+        // Fall through to the next step; the failure is in the history
+      }
+      const watched =
+        record && this.pendingResponses.has(record.id) ? record.id : undefined
+      escalations.advance(pending, watched, now)
+    }
+    return sent
+  }
+
+  /**
+   * Listen again for clicks on the notifications of an adopted escalation
+   */
+  private async resumeEscalation(
+    pending: PendingEscalation,
+    now: Date,
+  ): Promise<void> {
+    const timeoutMs = this.escalations?.remainingMs(pending, now) ?? 0
+    for (const id of pending.ids) {
+      const record = this.history.get(id)
+      if (!record || this.pendingResponses.has(id)) continue
+
+      const listener = new ReplyListener(getReplySocketPath(id))
+      try {
+        await listener.listen(timeoutMs)
+        this.trackResponse(record, listener)
+      } catch (_error) {
+        // Reminders are still sent, they just cannot be stopped by a click
+      }
+    }
   }
 
   /**
    * Send notification
    */
-  async sendNotification(options: NotificationOptions): Promise<void> {
+  async sendNotification(
+    options: NotificationOptions,
+  ): Promise<NotificationRecord> {
     const {
       title = this.defaultTitle,
-      message,
-      sound = 'Glass',
       session,
       window,
       pane,
+      sessionId,
+      windowId,
+      paneId,
+      priority,
+      actions,
+      reply,
     } = options
+    let { message } = options
+    let sound = options.sound ?? getPrioritySound(priority) ?? this.defaultSound
 
-    // Check if app path is valid
-    if (!this.appPath) {
-      throw new Error('MacOSNotifyMCP.app not found')
-    }
-
-    // Always detect terminal emulator to pass to notification app
-    const terminal = await this.detectTerminalEmulator()
-
-    // Use MacOSNotifyMCP.app for notifications
-    const args = [
-      '-n',
-      this.appPath,
-      '--args',
-      '-t',
+    const skipped = (
+      status: NotificationStatus,
+      reason?: string,
+    ): NotificationRecord => ({
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
       title,
-      '-m',
       message,
-      '--sound',
       sound,
-      '--terminal',
-      terminal,
-    ]
+      session,
+      window,
+      pane,
+      sessionId,
+      windowId,
+      paneId,
+      priority,
+      actions,
+      reply,
+      terminal: UNKNOWN_TERMINAL,
+      status,
+      reason,
+      deliveries: [],
+    })
 
-    if (session) {
-      args.push('-s', session)
-      if (window !== undefined && window !== '') {
-        args.push('-w', window)
+    const policy = this.policy.evaluate({ session, priority })
+    switch (policy.action) {
+      case 'drop':
+        return this.record(skipped('dropped', policy.reason))
+      case 'defer': {
+        const record = skipped('deferred', policy.reason)
+        try {
+          this.policy.enqueue(record)
+        } catch (error) {
+          // Neither delivered nor in the digest: report it as lost
+          return this.record({
+            ...record,
+            status: 'failed',
+            reason: `${policy.reason}, but it could not be queued for the digest: ${error instanceof Error ? error.message : String(error)}`,
+          })
+        }
+        return this.record(record)
+      }
+      case 'silent':
+        sound = 'none'
+        break
+      case 'deliver':
+        // Quiet period is over: deliver what was queued during it first
+        try {
+          await this.flushDigest()
+        } catch (_error) {
+          // A failed digest must not block this notification
+        }
+        break
+    }
+
+    if (this.throttle) {
+      const decision = this.throttle.check({ title, message, session })
+      if (!decision.allowed) {
+        return this.record(skipped('suppressed', decision.reason))
       }
-      if (pane !== undefined && pane !== '') {
-        args.push('-p', pane)
+      message = decision.message
+    }
+
+    // Escalating needs to know whether the notification gets clicked
+    const escalate = this.escalations?.appliesTo(priority) ?? false
+    const record = await this.deliver(
+      {
+        title,
+        message,
+        sound,
+        session,
+        window,
+        pane,
+        sessionId,
+        windowId,
+        paneId,
+        priority,
+        actions,
+        reply,
+      },
+      escalate
+        ? {
+            waitForClick: true,
+            timeoutMs:
+              options.timeoutMs ??
+              Math.max(
+                RESPONSE_TIMEOUT_MS,
+                this.escalations?.durationMs() ?? 0,
+              ),
+          }
+        : options,
+    )
+    if (escalate && this.pendingResponses.has(record.id)) {
+      try {
+        this.escalations?.schedule(record)
+      } catch (_error) {
+        // Escalation is best-effort and must never fail a delivery
+      }
+    }
+    return options.waitForClick ? this.waitForAcknowledgement(record) : record
+  }
+
+  /**
+   * Wait until a delivered notification is clicked, dismissed or its
+   * response times out
+   */
+  private async waitForAcknowledgement(
+    record: NotificationRecord,
+  ): Promise<NotificationRecord> {
+    // Nothing reports clicks, e.g. with only the log backend
+    if (!this.pendingResponses.has(record.id)) return record
+
+    const response = await this.waitForResponse(record.id)
+    if (!response) return { ...record, acknowledgement: 'timeout' }
+    return {
+      ...record,
+      response,
+      acknowledgement: response.action === 'dismiss' ? 'dismissed' : 'clicked',
+    }
+  }
+
+  /**
+   * Deliver through every backend and record the result; only fails when
+   * none of the backends succeeded
+   */
+  private async deliver(
+    notification: {
+      title: string
+      message: string
+      sound: string
+      session?: string
+      window?: string
+      pane?: string
+      sessionId?: string
+      windowId?: string
+      paneId?: string
+      priority?: Priority
+      actions?: string[]
+      reply?: boolean
+    },
+    {
+      waitForClick = false,
+      timeoutMs = RESPONSE_TIMEOUT_MS,
+      backends: selected,
+    }: {
+      waitForClick?: boolean
+      timeoutMs?: number
+      /**
+       * Deliver through these instead of the configured backends
+       */
+      backends?: BackendSelection[]
+    } = {},
+  ): Promise<NotificationRecord> {
+    const backends = (await this.getBackends(selected)).filter(
+      (backend) =>
+        !backend.minPriority ||
+        meetsPriority(notification.priority, backend.minPriority),
+    )
+    if (backends.length === 0) {
+      return this.record({
+        id: randomUUID(),
+        timestamp: new Date().toISOString(),
+        ...notification,
+        terminal: UNKNOWN_TERMINAL,
+        status: 'dropped',
+        reason: `no backend accepts ${notification.priority ?? 'normal'} priority notifications`,
+        deliveries: [],
+      })
+    }
+
+    // Pass the terminal emulator on so clicks can bring it to the front
+    const terminal = await this.getTerminalEmulator()
+
+    const id = randomUUID()
+    const listener =
+      waitForClick || notification.actions?.length || notification.reply
+        ? await this.listenForResponse(id, backends, timeoutMs)
+        : undefined
+
+    const payload = {
+      ...notification,
+      terminal,
+      terminalApp: this.terminals.get(terminal)?.app,
+      replySocket: listener?.path,
+    }
+
+    const errors: unknown[] = []
+    const deliveries: DeliveryResult[] = []
+    let answerable = false
+    for (const backend of backends) {
+      try {
+        await backend.send(payload)
+        deliveries.push({ backend: backend.name, ok: true })
+        answerable ||= !!backend.supportsActions
+      } catch (error) {
+        errors.push(error)
+        deliveries.push({
+          backend: backend.name,
+          ok: false,
+          error: error instanceof Error ? error.message : String(error),
+        })
       }
     }
 
-    await this.runCommand('/usr/bin/open', args)
+    const failed = errors.length === backends.length && errors.length > 0
+    const record: NotificationRecord = {
+      id,
+      timestamp: new Date().toISOString(),
+      ...notification,
+      terminal,
+      status: failed ? 'failed' : 'delivered',
+      deliveries,
+    }
+
+    this.record(record)
+
+    if (listener && answerable) {
+      this.trackResponse(record, listener)
+    } else {
+      listener?.close()
+    }
+
+    if (failed) {
+      throw toDeliveryError(errors, deliveries)
+    }
+    return record
+  }
+
+  /**
+   * Open the socket the user's response to a notification arrives on, if
+   * any backend can report one
+   */
+  private async listenForResponse(
+    id: string,
+    backends: NotificationBackend[],
+    timeoutMs: number,
+  ): Promise<ReplyListener | undefined> {
+    if (!backends.some((backend) => backend.supportsActions)) return undefined
+
+    const listener = new ReplyListener(getReplySocketPath(id))
+    try {
+      await listener.listen(timeoutMs)
+      return listener
+    } catch (_error) {
+      // Deliver without reporting the response rather than not at all
+      return undefined
+    }
+  }
+
+  /**
+   * Record the user's response once it arrives
+   */
+  private trackResponse(
+    record: NotificationRecord,
+    listener: ReplyListener,
+  ): void {
+    const response = listener.response.then((response) => {
+      this.pendingResponses.delete(record.id)
+      if (response) {
+        this.record({ ...record, response })
+        try {
+          this.escalations?.acknowledge(record.id)
+        } catch (_error) {
+          // The escalation ends by itself after its last step
+        }
+      }
+      return response
+    })
+    this.pendingResponses.set(record.id, response)
+  }
+
+  /**
+   * Append a record to the history
+   */
+  private record(record: NotificationRecord): NotificationRecord {
+    try {
+      this.history.append(record)
+    } catch (_error) {
+      // History is best-effort and must never block delivery
+    }
+    return record
   }
 }
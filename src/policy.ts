@@ -0,0 +1,238 @@
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs'
+import { dirname, join } from 'node:path'
+import { findQuietHours, type QuietHours } from './config.js'
+import {
+  getStateDir,
+  type NotificationRecord,
+  readJsonLines,
+} from './history.js'
+import { meetsPriority, type Priority } from './priority.js'
+
+export const QUIET_HOURS_ACTIONS = ['defer', 'silent', 'drop'] as const
+
+/**
+ * What happens to notifications during quiet hours: queue them for a digest,
+ * deliver them without sound, or discard them
+ */
+export type QuietHoursAction = (typeof QUIET_HOURS_ACTIONS)[number]
+
+export interface PolicyOptions {
+  quietHours?: QuietHours[]
+  /**
+   * Action during quiet hours (default: defer)
+   */
+  quietHoursAction?: QuietHoursAction
+  /**
+   * Sessions whose notifications are always dropped
+   */
+  mutedSessions?: string[]
+  /**
+   * File holding meeting mode and temporary session mutes
+   * (default: ~/.local/state/macos-notify-mcp/dnd.json)
+   */
+  stateFile?: string
+  /**
+   * Queue of deferred notifications
+   * (default: ~/.local/state/macos-notify-mcp/digest.jsonl)
+   */
+  digestFile?: string
+}
+
+export interface PolicyDecision {
+  action: 'deliver' | QuietHoursAction
+  reason?: string
+}
+
+export interface DoNotDisturbState {
+  /**
+   * Meeting mode: only high and critical priority notifications are delivered
+   * until this time
+   */
+  meetingUntil?: string
+  /**
+   * Muted sessions mapped to when the mute ends (`null`: until unmuted)
+   */
+  mutedSessions: Record<string, string | null>
+}
+
+/**
+ * Decides whether a notification is delivered, deferred to a digest, or
+ * dropped, based on quiet hours, meeting mode and session mutes. High
+ * priority bypasses meeting mode; critical also bypasses quiet hours.
+ */
+export class NotificationPolicy {
+  private quietHours?: QuietHours[]
+  private quietHoursAction: QuietHoursAction
+  private mutedSessions: string[]
+  private stateFile: string
+  private digestFile: string
+
+  constructor(options: PolicyOptions = {}) {
+    this.quietHours = options.quietHours
+    this.quietHoursAction = options.quietHoursAction ?? 'defer'
+    this.mutedSessions = options.mutedSessions ?? []
+    this.stateFile = options.stateFile ?? join(getStateDir(), 'dnd.json')
+    this.digestFile = options.digestFile ?? join(getStateDir(), 'digest.jsonl')
+  }
+
+  /**
+   * Evaluate the policy for a notification
+   */
+  evaluate(
+    notification: { session?: string; priority?: Priority },
+    now: Date = new Date(),
+  ): PolicyDecision {
+    const { session, priority } = notification
+    const state = this.getState(now)
+
+    if (session && this.mutedSessions.includes(session)) {
+      return { action: 'drop', reason: `session '${session}' is muted` }
+    }
+    if (session && session in state.mutedSessions) {
+      const until = state.mutedSessions[session]
+      return {
+        action: 'drop',
+        reason: `session '${session}' is muted${until ? ` until ${formatTime(until)}` : ''}`,
+      }
+    }
+
+    if (state.meetingUntil && !meetsPriority(priority, 'high')) {
+      return {
+        action: 'defer',
+        reason: `in a meeting until ${formatTime(state.meetingUntil)}; only high and critical priority notifications are delivered`,
+      }
+    }
+
+    const quietHours = findQuietHours(this.quietHours, now)
+    if (quietHours && priority !== 'critical') {
+      return {
+        action: this.quietHoursAction,
+        reason: `quiet hours (${quietHours.start}-${quietHours.end})`,
+      }
+    }
+
+    return { action: 'deliver' }
+  }
+
+  /**
+   * Get meeting mode and session mutes, without expired entries
+   */
+  getState(now: Date = new Date()): DoNotDisturbState {
+    const state = this.readState()
+    if (state.meetingUntil && Date.parse(state.meetingUntil) <= now.getTime()) {
+      delete state.meetingUntil
+    }
+    for (const [session, until] of Object.entries(state.mutedSessions)) {
+      if (until && Date.parse(until) <= now.getTime()) {
+        delete state.mutedSessions[session]
+      }
+    }
+    return state
+  }
+
+  /**
+   * Enter meeting mode until the given time, or leave it with `null`
+   */
+  setMeeting(until: Date | null): void {
+    const state = this.getState()
+    if (until) {
+      state.meetingUntil = until.toISOString()
+    } else {
+      delete state.meetingUntil
+    }
+    this.writeState(state)
+  }
+
+  /**
+   * Mute a session until the given time, or indefinitely with `null`
+   */
+  muteSession(session: string, until: Date | null): void {
+    const state = this.getState()
+    state.mutedSessions[session] = until ? until.toISOString() : null
+    this.writeState(state)
+  }
+
+  unmuteSession(session: string): void {
+    const state = this.getState()
+    delete state.mutedSessions[session]
+    this.writeState(state)
+  }
+
+  /**
+   * Queue a deferred notification for the next digest
+   */
+  enqueue(record: NotificationRecord): void {
+    mkdirSync(dirname(this.digestFile), { recursive: true })
+    appendFileSync(this.digestFile, `${JSON.stringify(record)}\n`)
+  }
+
+  /**
+   * Remove and return every queued notification
+   */
+  takeQueued(): NotificationRecord[] {
+    if (!existsSync(this.digestFile)) return []
+
+    // Move the queue aside first so concurrent enqueues are not lost
+    const takenFile = `${this.digestFile}.${process.pid}.taken`
+    try {
+      renameSync(this.digestFile, takenFile)
+    } catch (_error) {
+      return []
+    }
+
+    const records = readJsonLines<NotificationRecord>(takenFile)
+    rmSync(takenFile, { force: true })
+    return records
+  }
+
+  private readState(): DoNotDisturbState {
+    try {
+      if (existsSync(this.stateFile)) {
+        const state = JSON.parse(readFileSync(this.stateFile, 'utf-8'))
+        return {
+          meetingUntil: state.meetingUntil,
+          mutedSessions: state.mutedSessions ?? {},
+        }
+      }
+    } catch (_error) {
+      // Treat an unreadable state file as no meeting and no mutes
+    }
+    return { mutedSessions: {} }
+  }
+
+  private writeState(state: DoNotDisturbState): void {
+    mkdirSync(dirname(this.stateFile), { recursive: true })
+    writeFileSync(this.stateFile, JSON.stringify(state, null, 2))
+  }
+}
+
+/**
+ * Build the summary notification for queued notifications
+ */
+export function formatDigest(records: NotificationRecord[]): {
+  title: string
+  message: string
+} {
+  const shown = records.slice(0, 5)
+  const lines = shown.map((record) => `• ${record.title}: ${record.message}`)
+  if (records.length > shown.length) {
+    lines.push(`…and ${records.length - shown.length} more`)
+  }
+  return {
+    title: `${records.length} notification${records.length === 1 ? '' : 's'} while you were away`,
+    message: lines.join('\n'),
+  }
+}
+
+function formatTime(iso: string): string {
+  const date = new Date(iso)
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+}
@@ -0,0 +1,56 @@
+export const PRIORITIES = ['low', 'normal', 'high', 'critical'] as const
+
+/**
+ * How much a notification matters: `low` for FYI updates, `high` when the
+ * agent needs attention soon, `critical` when it is blocked on the user
+ */
+export type Priority = (typeof PRIORITIES)[number]
+
+/**
+ * macOS interruption levels (UNNotificationInterruptionLevel) the app can
+ * use; time-sensitive and critical ones need entitlements that an ad-hoc
+ * signed app cannot have
+ */
+export type InterruptionLevel = 'passive' | 'active'
+
+/**
+ * Sounds used when no sound is given; `normal` uses the configured default
+ */
+const PRIORITY_SOUNDS: Partial<Record<Priority, string>> = {
+  low: 'none',
+  high: 'Hero',
+  critical: 'Sosumi',
+}
+
+export function isPriority(value: string): value is Priority {
+  return PRIORITIES.includes(value as Priority)
+}
+
+/**
+ * Whether `priority` is at least `minimum`; a missing priority is `normal`
+ */
+export function meetsPriority(
+  priority: Priority | undefined,
+  minimum: Priority,
+): boolean {
+  return PRIORITIES.indexOf(priority ?? 'normal') >= PRIORITIES.indexOf(minimum)
+}
+
+/**
+ * Default sound for a priority, or `undefined` to use the configured default
+ */
+export function getPrioritySound(
+  priority: Priority | undefined,
+): string | undefined {
+  return priority ? PRIORITY_SOUNDS[priority] : undefined
+}
+
+/**
+ * Map a priority to the macOS interruption level. Only `low` differs:
+ * `high` and `critical` stand out by their sound instead.
+ */
+export function getInterruptionLevel(
+  priority: Priority | undefined,
+): InterruptionLevel {
+  return priority === 'low' ? 'passive' : 'active'
+}
@@ -0,0 +1,129 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js'
+
+/**
+ * A prompt argument; all of them are optional
+ */
+export interface PromptArgument {
+  name: string
+  description: string
+}
+
+interface PromptDefinition {
+  name: string
+  description: string
+  arguments: PromptArgument[]
+  /**
+   * Instructions for the agent, from the prompt arguments
+   */
+  render(args: Record<string, string | undefined>): string
+}
+
+export interface PromptMessage {
+  role: 'user'
+  content: { type: 'text'; text: string }
+}
+
+/**
+ * Instructions shared by the prompts that notify about the agent's own work
+ */
+const TARGET_CURRENT_PANE =
+  '- Pass `useCurrent: true`, so clicking the notification leads back to this tmux pane.'
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'notify_when_done',
+    description:
+      'Work on a task and send a notification when it is finished or blocked',
+    arguments: [
+      {
+        name: 'task',
+        description: 'What to do (default: the current task)',
+      },
+    ],
+    render: ({ task }) =>
+      [
+        task ? `Work on this task: ${task}\n` : '',
+        `When you finish ${task ? 'it' : 'the current task'}, or cannot continue without me, tell me with the \`send_notification\` tool:`,
+        '',
+        TARGET_CURRENT_PANE,
+        '- Keep the message to one line saying what happened, e.g. "Tests pass, ready for review" or "Build failed: DATABASE_URL is not set". Leave out the title; it defaults to the repository name.',
+        '- Use priority `normal` when the task succeeded, and `high` when it failed or you are blocked waiting for me.',
+        '- Send one notification at the end, not one per step.',
+      ]
+        .join('\n')
+        .trimStart(),
+  },
+  {
+    name: 'ask_before_destructive_action',
+    description:
+      'Ask for approval with a notification before destructive or hard to undo actions',
+    arguments: [
+      {
+        name: 'actions',
+        description:
+          'What counts as destructive (default: deleting files or branches, force pushes, history rewrites, database changes and deploys)',
+      },
+    ],
+    render: ({ actions }) =>
+      [
+        `Before any destructive or hard to undo action, ask me first with the \`ask_user\` tool and wait for the answer. Destructive actions include ${actions || 'deleting files or branches, force pushing, rewriting git history, dropping or migrating databases, and deploying'}.`,
+        '',
+        '- Name the exact action in the message, e.g. "Run `git push --force` to origin/main?", and pass `actions: ["Approve", "Deny"]`.',
+        TARGET_CURRENT_PANE,
+        '- Use priority `critical`, since you are blocked until I answer.',
+        '- Only go ahead when the answer is Approve. On Deny, a dismissal or no answer, do not do it: say what you skipped, then continue with something else or stop.',
+        '- Ask once per action instead of bundling unrelated actions into one question.',
+      ].join('\n'),
+  },
+  {
+    name: 'summarize_and_notify',
+    description:
+      'Summarize the work so far and send the summary as a notification',
+    arguments: [
+      {
+        name: 'focus',
+        description: 'What the summary should focus on, e.g. "open questions"',
+      },
+    ],
+    render: ({ focus }) =>
+      [
+        `Summarize what you have done${focus ? `, focusing on ${focus}` : ''}, and send the summary to me with the \`send_notification\` tool:`,
+        '',
+        '- Keep the message under 200 characters: what changed, and what needs my attention, if anything.',
+        TARGET_CURRENT_PANE,
+        '- Use priority `low` when it is only an update, and `high` when something needs my decision.',
+        '',
+        'Then reply here with the full summary.',
+      ].join('\n'),
+  },
+]
+
+/**
+ * Prompts as listed to MCP clients
+ */
+export function listPrompts(): Omit<PromptDefinition, 'render'>[] {
+  return PROMPTS.map(({ render: _render, ...prompt }) => prompt)
+}
+
+/**
+ * Render a prompt with its arguments
+ */
+export function getPrompt(
+  name: string,
+  args: Record<string, string | undefined> = {},
+): { description: string; messages: PromptMessage[] } {
+  const prompt = PROMPTS.find((candidate) => candidate.name === name)
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`)
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: prompt.render(args) },
+      },
+    ],
+  }
+}
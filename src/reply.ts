@@ -0,0 +1,105 @@
+import { mkdirSync, rmSync } from 'node:fs'
+import { createServer, type Socket } from 'node:net'
+import { dirname, join } from 'node:path'
+import { getStateDir } from './history.js'
+
+/**
+ * What the user did with a notification that has actions or a reply field
+ */
+export interface NotificationResponse {
+  /**
+   * Title of the action button pressed, `reply` for a text reply, `click`
+   * when the notification itself was clicked, or `dismiss` when it was closed
+   */
+  action: string
+  /**
+   * Text entered in the reply field
+   */
+  text?: string
+  timestamp: string
+}
+
+/**
+ * Path of the socket a notification's response is sent to
+ */
+export function getReplySocketPath(id: string): string {
+  // Unix socket paths are limited to about 100 bytes
+  return join(getStateDir(), `reply-${id.slice(0, 8)}.sock`)
+}
+
+/**
+ * Unix socket the notification app connects to with the user's response,
+ * as a single JSON object like `{"action": "Approve"}`
+ */
+export class ReplyListener {
+  private server = createServer((socket) => this.handle(socket))
+  private timer?: NodeJS.Timeout
+  private settle!: (response: NotificationResponse | null) => void
+  /**
+   * The first response received, or `null` after a timeout or `close()`
+   */
+  readonly response = new Promise<NotificationResponse | null>((resolve) => {
+    this.settle = resolve
+  })
+
+  constructor(readonly path: string) {}
+
+  /**
+   * Start accepting the response; gives up after `timeoutMs`
+   */
+  async listen(timeoutMs: number): Promise<void> {
+    mkdirSync(dirname(this.path), { recursive: true })
+    // A socket left behind by a crashed process makes listen() fail
+    rmSync(this.path, { force: true })
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject)
+      this.server.listen(this.path, () => {
+        this.server.off('error', reject)
+        resolve()
+      })
+    })
+    this.timer = setTimeout(() => this.close(), timeoutMs)
+  }
+
+  /**
+   * Stop listening, settling `response` if no response arrived yet
+   */
+  close(response: NotificationResponse | null = null): void {
+    clearTimeout(this.timer)
+    this.settle(response)
+    if (this.server.listening) {
+      // Also removes the socket file
+      this.server.close()
+    }
+  }
+
+  private handle(socket: Socket): void {
+    let data = ''
+    socket.setEncoding('utf-8')
+    socket.on('data', (chunk) => {
+      data += chunk
+    })
+    socket.on('end', () => {
+      socket.end()
+      const response = parseResponse(data)
+      if (response) this.close(response)
+    })
+    socket.on('error', () => {
+      // The app gave up; keep waiting for another response
+    })
+  }
+}
+
+function parseResponse(data: string): NotificationResponse | undefined {
+  try {
+    const parsed = JSON.parse(data)
+    if (typeof parsed?.action !== 'string' || !parsed.action) return undefined
+    return {
+      action: parsed.action,
+      text: typeof parsed.text === 'string' ? parsed.text : undefined,
+      timestamp: new Date().toISOString(),
+    }
+  } catch (_error) {
+    return undefined
+  }
+}
@@ -0,0 +1,197 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js'
+import type { NotifyConfig } from './config.js'
+import { SessionNotFoundError } from './errors.js'
+import type { TmuxNotifier } from './notifier.js'
+
+/**
+ * How often tmux is polled for sessions that appeared or disappeared
+ */
+export const SESSION_POLL_INTERVAL_MS = 5 * 1000
+
+export const SESSIONS_URI = 'tmux://sessions'
+export const HISTORY_URI = 'notifications://history'
+export const CONFIG_URI = 'config://current'
+
+/**
+ * Notifications included in the history resource
+ */
+const HISTORY_LIMIT = 50
+
+/**
+ * JSON-RPC error code MCP uses for resources that do not exist
+ */
+export const RESOURCE_NOT_FOUND = -32002
+
+const PANES_URI_PATTERN = /^tmux:\/\/sessions\/([^/]+)\/panes$/
+
+export interface ResourceDescription {
+  uri: string
+  name: string
+  description: string
+  mimeType: string
+}
+
+export interface ResourceContents {
+  uri: string
+  mimeType: string
+  text: string
+}
+
+/**
+ * Resources that always exist; the panes of each session are listed too
+ */
+const STATIC_RESOURCES: ResourceDescription[] = [
+  {
+    uri: SESSIONS_URI,
+    name: 'tmux sessions',
+    description: 'tmux sessions with their window count and attached state',
+    mimeType: 'application/json',
+  },
+  {
+    uri: HISTORY_URI,
+    name: 'Notification history',
+    description: `The last ${HISTORY_LIMIT} notifications, newest first`,
+    mimeType: 'application/json',
+  },
+  {
+    uri: CONFIG_URI,
+    name: 'Configuration',
+    description:
+      'The loaded configuration, with project overrides applied and webhook secrets redacted',
+    mimeType: 'application/json',
+  },
+]
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'tmux://sessions/{name}/panes',
+    name: 'tmux panes of a session',
+    description:
+      'Panes of a tmux session with their title, running command and working directory',
+    mimeType: 'application/json',
+  },
+]
+
+export function getPanesUri(session: string): string {
+  return `${SESSIONS_URI}/${encodeURIComponent(session)}/panes`
+}
+
+/**
+ * List the static resources and the panes of every tmux session
+ */
+export async function listResources(
+  notifier: TmuxNotifier,
+): Promise<ResourceDescription[]> {
+  const sessions = await notifier.listSessions()
+  return [
+    ...STATIC_RESOURCES,
+    ...sessions.map((session) => ({
+      uri: getPanesUri(session),
+      name: `tmux panes of ${session}`,
+      description: `Panes of the tmux session ${session}`,
+      mimeType: 'application/json',
+    })),
+  ]
+}
+
+/**
+ * Read a resource as JSON
+ */
+export async function readResource(
+  notifier: TmuxNotifier,
+  config: NotifyConfig,
+  uri: string,
+): Promise<ResourceContents> {
+  const json = (value: unknown): ResourceContents => ({
+    uri,
+    mimeType: 'application/json',
+    text: JSON.stringify(value, null, 2),
+  })
+
+  if (uri === SESSIONS_URI) {
+    return json({ sessions: await notifier.listSessionInfo() })
+  }
+  if (uri === HISTORY_URI) {
+    return json({
+      notifications: await notifier.listNotifications({
+        limit: HISTORY_LIMIT,
+      }),
+    })
+  }
+  if (uri === CONFIG_URI) {
+    return json(redactConfig(config))
+  }
+
+  const panes = uri.match(PANES_URI_PATTERN)
+  if (panes) {
+    const session = decodeURIComponent(panes[1])
+    if (!(await notifier.sessionExists(session))) {
+      throw new SessionNotFoundError(
+        `tmux session '${session}' not found`,
+        session,
+      )
+    }
+    return json({ session, panes: await notifier.listPanes({ session }) })
+  }
+
+  throw new McpError(RESOURCE_NOT_FOUND, `Unknown resource: ${uri}`, { uri })
+}
+
+/**
+ * Hide webhook headers and URL paths, which often carry tokens
+ */
+function redactConfig(config: NotifyConfig): NotifyConfig {
+  return JSON.parse(JSON.stringify(config), (key, value) => {
+    if (key === 'webhook' && value && typeof value.url === 'string') {
+      return { ...value, url: redactUrl(value.url) }
+    }
+    if (key === 'headers' && value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.keys(value).map((name) => [name, '[redacted]']),
+      )
+    }
+    return value
+  })
+}
+
+function redactUrl(url: string): string {
+  try {
+    const { origin, pathname } = new URL(url)
+    return pathname === '/' ? origin : `${origin}/[redacted]`
+  } catch (_error) {
+    return '[redacted]'
+  }
+}
+
+/**
+ * Poll tmux and call `onChange` when sessions appear or disappear; returns a
+ * function that stops watching
+ */
+export function watchTmuxSessions(
+  notifier: TmuxNotifier,
+  onChange: (sessions: string[]) => void,
+  intervalMs: number = SESSION_POLL_INTERVAL_MS,
+): () => void {
+  let known: string | undefined
+  let running = false
+
+  const poll = async () => {
+    if (running) return
+    running = true
+    try {
+      const sessions = (await notifier.listSessions()).sort()
+      const current = JSON.stringify(sessions)
+      if (known !== undefined && current !== known) onChange(sessions)
+      known = current
+    } catch (error) {
+      console.error('Failed to list tmux sessions:', error)
+    } finally {
+      running = false
+    }
+  }
+
+  poll()
+  const timer = setInterval(poll, intervalMs)
+  timer.unref()
+  return () => clearInterval(timer)
+}
@@ -0,0 +1,118 @@
+import { spawn } from 'node:child_process'
+import { constants } from 'node:os'
+import { StringDecoder } from 'node:string_decoder'
+import { stripVTControlCharacters } from 'node:util'
+
+export interface CommandResult {
+  /**
+   * Exit code of the command, 128 plus the signal number when a signal
+   * killed it, or 127 when it could not be started (like a shell)
+   */
+  exitCode: number
+  signal?: NodeJS.Signals
+  durationMs: number
+  /**
+   * Last lines of output, stdout and stderr interleaved, without colors
+   */
+  tail: string[]
+  /**
+   * Why the command could not be started
+   */
+  error?: string
+}
+
+/**
+ * Run a command, passing its output through while keeping the last lines
+ */
+export function executeCommand(
+  command: string[],
+  {
+    tailLines = 5,
+    stdout = process.stdout,
+    stderr = process.stderr,
+  }: {
+    tailLines?: number
+    stdout?: NodeJS.WritableStream
+    stderr?: NodeJS.WritableStream
+  } = {},
+): Promise<CommandResult> {
+  const started = Date.now()
+  const tail = new OutputTail(tailLines)
+
+  return new Promise((resolve) => {
+    const child = spawn(command[0], command.slice(1), {
+      stdio: ['inherit', 'pipe', 'pipe'],
+    })
+
+    // Ctrl-C reaches the command too; outlive it to report how it ended
+    const ignore = () => {}
+    process.on('SIGINT', ignore)
+    const finish = (result: Omit<CommandResult, 'durationMs' | 'tail'>) => {
+      process.off('SIGINT', ignore)
+      resolve({ ...result, durationMs: Date.now() - started, tail: tail.lines })
+    }
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      stdout.write(chunk)
+      tail.push('stdout', chunk)
+    })
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr.write(chunk)
+      tail.push('stderr', chunk)
+    })
+
+    child.on('error', (error) => {
+      finish({ exitCode: 127, error: error.message })
+    })
+    child.on('close', (code, signal) => {
+      if (signal) {
+        finish({ exitCode: 128 + (constants.signals[signal] ?? 0), signal })
+      } else {
+        finish({ exitCode: code ?? 1 })
+      }
+    })
+  })
+}
+
+/**
+ * Keeps the last complete lines written to either stream
+ */
+class OutputTail {
+  private complete: string[] = []
+  private partial: Record<Stream, string> = { stdout: '', stderr: '' }
+  // Decode each stream on its own, so characters split across chunks are
+  // put back together
+  private decoders: Record<Stream, StringDecoder> = {
+    stdout: new StringDecoder('utf8'),
+    stderr: new StringDecoder('utf8'),
+  }
+
+  constructor(private size: number) {}
+
+  push(stream: Stream, chunk: Buffer): void {
+    if (this.size <= 0) return
+
+    const text = this.decoders[stream].write(chunk)
+    const lines = (this.partial[stream] + text).split('\n')
+    this.partial[stream] = lines.pop() ?? ''
+    this.complete.push(...lines.map(clean).filter(Boolean))
+    this.complete = this.complete.slice(-this.size)
+  }
+
+  get lines(): string[] {
+    if (this.size <= 0) return []
+
+    const unterminated = Object.values(this.partial).map(clean).filter(Boolean)
+    return [...this.complete, ...unterminated].slice(-this.size)
+  }
+}
+
+type Stream = 'stdout' | 'stderr'
+
+/**
+ * Strip colors, and keep only what a progress bar redrew last
+ */
+function clean(line: string): string {
+  const redrawn = line.split('\r').filter((part) => part.trim())
+  return stripVTControlCharacters(redrawn.at(-1) ?? '').trimEnd()
+}
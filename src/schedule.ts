@@ -0,0 +1,128 @@
+import { randomUUID } from 'node:crypto'
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from 'node:fs'
+import { dirname, join } from 'node:path'
+import { formatTmuxTarget } from './backends.js'
+import { getStateDir } from './history.js'
+import { withFileLock } from './lock.js'
+import type { NotificationOptions } from './notifier.js'
+
+/**
+ * What a scheduled notification sends; the title is resolved when it is
+ * scheduled, since the process delivering it may run elsewhere
+ */
+export type ScheduledNotificationOptions = Omit<
+  NotificationOptions,
+  'waitForClick' | 'timeoutMs'
+> & { title: string }
+
+export interface ScheduledNotification {
+  id: string
+  /**
+   * When the notification is delivered
+   */
+  dueAt: string
+  createdAt: string
+  notification: ScheduledNotificationOptions
+}
+
+/**
+ * Format a scheduled notification as a single line for listings
+ */
+export function formatScheduledNotification(
+  scheduled: ScheduledNotification,
+): string {
+  const { title, message } = scheduled.notification
+  const target = formatTmuxTarget(scheduled.notification)
+  return `- [${scheduled.dueAt}] ${scheduled.id} ${title}: ${message}${target ? ` (tmux: ${target})` : ''}`
+}
+
+/**
+ * Notifications waiting to be delivered at a later time, persisted so they
+ * survive restarts and can be scheduled from the CLI. Every process running
+ * the scheduler shares the file, so changes happen under a lock.
+ */
+export class NotificationSchedule {
+  constructor(readonly path: string = join(getStateDir(), 'scheduled.json')) {}
+
+  add(
+    notification: ScheduledNotificationOptions,
+    dueAt: Date,
+    now: Date = new Date(),
+  ): ScheduledNotification {
+    const scheduled: ScheduledNotification = {
+      id: randomUUID(),
+      dueAt: dueAt.toISOString(),
+      createdAt: now.toISOString(),
+      notification,
+    }
+    withFileLock(this.path, () => {
+      this.writeState([...this.readState(), scheduled])
+    })
+    return scheduled
+  }
+
+  /**
+   * List scheduled notifications, soonest first
+   */
+  list(): ScheduledNotification[] {
+    return this.readState().sort(
+      (a, b) => Date.parse(a.dueAt) - Date.parse(b.dueAt),
+    )
+  }
+
+  /**
+   * Remove a scheduled notification; `null` when there is none with this id
+   */
+  cancel(id: string): ScheduledNotification | null {
+    return withFileLock(this.path, () => {
+      const scheduled = this.readState()
+      const cancelled = scheduled.find((item) => item.id === id)
+      if (!cancelled) return null
+      this.writeState(scheduled.filter((item) => item !== cancelled))
+      return cancelled
+    })
+  }
+
+  /**
+   * Remove and return the notifications that are due, soonest first; each
+   * one is taken by exactly one process
+   */
+  takeDue(now: Date = new Date()): ScheduledNotification[] {
+    return withFileLock(this.path, () => {
+      const scheduled = this.list()
+      const due = scheduled.filter(
+        (item) => Date.parse(item.dueAt) <= now.getTime(),
+      )
+      if (due.length > 0) {
+        this.writeState(scheduled.filter((item) => !due.includes(item)))
+      }
+      return due
+    })
+  }
+
+  private readState(): ScheduledNotification[] {
+    try {
+      if (existsSync(this.path)) {
+        const state = JSON.parse(readFileSync(this.path, 'utf-8'))
+        return Array.isArray(state.scheduled) ? state.scheduled : []
+      }
+    } catch (_error) {
+      // Treat an unreadable file as nothing scheduled
+    }
+    return []
+  }
+
+  private writeState(scheduled: ScheduledNotification[]): void {
+    mkdirSync(dirname(this.path), { recursive: true })
+    // Write atomically so concurrent processes never read a partial file
+    const tempFile = `${this.path}.${process.pid}.tmp`
+    writeFileSync(tempFile, JSON.stringify({ scheduled }, null, 2))
+    renameSync(tempFile, this.path)
+  }
+}
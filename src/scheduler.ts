@@ -0,0 +1,52 @@
+import type { TmuxNotifier } from './notifier.js'
+
+/**
+ * How often background work runs; scheduled notifications are delivered at
+ * most this late
+ */
+export const SCHEDULER_INTERVAL_MS = 15 * 1000
+
+/**
+ * Deliver scheduled notifications, the digest once quiet hours end, and
+ * escalation reminders: right away, then every `intervalMs`. Returns a
+ * function that stops it.
+ */
+export function startScheduler(
+  notifier: TmuxNotifier,
+  {
+    intervalMs = SCHEDULER_INTERVAL_MS,
+    keepAlive = false,
+  }: {
+    intervalMs?: number
+    /**
+     * Keep the process running, as `macos-notify-cli daemon` does
+     */
+    keepAlive?: boolean
+  } = {},
+): () => void {
+  const tasks: [string, () => Promise<unknown>][] = [
+    ['deliver scheduled notifications', () => notifier.deliverScheduled()],
+    ['deliver digest', () => notifier.flushDigest()],
+    ['send reminders', () => notifier.processEscalations()],
+  ]
+
+  let running = false
+  const run = async () => {
+    // A slow webhook must not let the next run send the same reminder again
+    if (running) return
+    running = true
+    for (const [label, task] of tasks) {
+      try {
+        await task()
+      } catch (error) {
+        console.error(`Failed to ${label}:`, error)
+      }
+    }
+    running = false
+  }
+
+  run()
+  const timer = setInterval(run, intervalMs)
+  if (!keepAlive) timer.unref()
+  return () => clearInterval(timer)
+}
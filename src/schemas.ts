@@ -0,0 +1,305 @@
+import { z } from 'zod'
+import { zodToJsonSchema } from 'zod-to-json-schema'
+import { InvalidArgumentsError } from './errors.js'
+import { PRIORITIES } from './priority.js'
+
+/**
+ * How long `ask_user` and `waitForClick` wait unless told otherwise
+ */
+export const ASK_TIMEOUT_SECONDS = 300
+
+/**
+ * Report a rejected value as `Invalid <name>: <value>`
+ */
+function invalidValue(name: string, expected = ''): z.ZodErrorMap {
+  return (_issue, ctx) => ({
+    message: `Invalid ${name}: ${String(ctx.data)}${expected}`,
+  })
+}
+
+/**
+ * A tmux window or pane, by index or by name
+ */
+function tmuxLocation(name: string, description: string) {
+  return z
+    .union([z.string(), z.number().int().nonnegative()], {
+      errorMap: () => ({
+        message: `${name} must be a string or a non-negative integer`,
+      }),
+    })
+    .transform(String)
+    .describe(description)
+}
+
+/**
+ * A positive number of seconds or milliseconds
+ */
+function positiveNumber(name: string, description: string) {
+  return z
+    .number({ errorMap: invalidValue(name) })
+    .positive()
+    .describe(description)
+}
+
+/**
+ * Input shared by the tools that send a notification
+ */
+const notificationInput = {
+  message: z
+    .string({ required_error: 'Message is required' })
+    .min(1, 'Message is required')
+    .describe('The notification message'),
+  title: z
+    .string()
+    .optional()
+    .describe('The notification title (default: "Claude Code")'),
+  sound: z
+    .string()
+    .optional()
+    .describe('The notification sound (default: "Glass")'),
+  session: z.string().optional().describe('tmux session name'),
+  window: tmuxLocation('window', 'tmux window index or name').optional(),
+  pane: tmuxLocation(
+    'pane',
+    'tmux pane index, pane title, or pane id like %3',
+  ).optional(),
+  cwd: z
+    .string()
+    .optional()
+    .describe(
+      'Target the pane whose working directory matches this glob (e.g. "~/src/api" or "api")',
+    ),
+  command: z
+    .string()
+    .optional()
+    .describe(
+      'Target the pane running this command (e.g. "vim" or "npm test")',
+    ),
+  useCurrent: z.boolean().optional().describe('Use current tmux location'),
+  priority: z
+    .enum(PRIORITIES, {
+      errorMap: invalidValue(
+        'priority',
+        ` (expected one of: ${PRIORITIES.join(', ')})`,
+      ),
+    })
+    .optional()
+    .describe(
+      'low for FYI updates, high when attention is needed soon (delivered in meetings), critical when blocked waiting for the user (also bypasses quiet hours). Default: normal',
+    ),
+  actions: z
+    .array(z.string(), {
+      invalid_type_error: 'actions must be an array of button titles',
+    })
+    .transform((titles) => titles.filter(Boolean))
+    .optional()
+    .describe(
+      'Titles of action buttons, e.g. ["Approve", "Reject"]; the button pressed is recorded as the notification\'s response',
+    ),
+  reply: z
+    .boolean()
+    .optional()
+    .describe('Add a text reply field to the notification'),
+}
+
+const noInput = z.object({}).strict()
+
+/**
+ * Input of every tool; the same schemas are advertised to clients and
+ * validate the arguments of each call
+ */
+export const toolInputSchemas = {
+  send_notification: z
+    .object({
+      ...notificationInput,
+      waitForClick: z
+        .boolean()
+        .optional()
+        .describe(
+          'Return only once the notification is clicked, dismissed or the timeout passes',
+        ),
+      timeout: positiveNumber(
+        'timeout',
+        `Seconds waitForClick waits (default: ${ASK_TIMEOUT_SECONDS})`,
+      ).optional(),
+    })
+    .strict(),
+  ask_user: z
+    .object({
+      ...notificationInput,
+      timeout: positiveNumber(
+        'timeout',
+        `Seconds to wait for an answer (default: ${ASK_TIMEOUT_SECONDS})`,
+      ).optional(),
+    })
+    .strict(),
+  schedule_notification: z
+    .object({
+      ...notificationInput,
+      at: z
+        .string()
+        .optional()
+        .describe(
+          'When to deliver: an ISO date, or HH:MM (tomorrow if that time already passed today)',
+        ),
+      in: z
+        .string()
+        .optional()
+        .describe('Delay before delivery, e.g. "15m" or "1h30m"'),
+    })
+    .strict()
+    .refine((input) => (input.at === undefined) !== (input.in === undefined), {
+      message: 'Give either at or in',
+    }),
+  list_scheduled_notifications: noInput,
+  cancel_notification: z
+    .object({
+      id: z
+        .string({ required_error: 'Scheduled notification id is required' })
+        .min(1, 'Scheduled notification id is required')
+        .describe('Id from schedule_notification'),
+    })
+    .strict(),
+  list_tmux_sessions: noInput,
+  list_tmux_windows: z
+    .object({
+      session: z
+        .string()
+        .optional()
+        .describe('Only windows of this session (default: all)'),
+    })
+    .strict(),
+  list_tmux_panes: z
+    .object({
+      session: z
+        .string()
+        .optional()
+        .describe('Only panes of this session (default: all)'),
+      window: tmuxLocation(
+        'window',
+        'Only panes of this window (requires session)',
+      ).optional(),
+    })
+    .strict()
+    .refine((input) => !input.window || !!input.session, {
+      message: 'The window filter requires a session',
+      path: ['window'],
+    }),
+  get_current_tmux_info: noInput,
+  refresh_terminal_detection: noInput,
+  diagnose: noInput,
+  list_notifications: z
+    .object({
+      session: z
+        .string()
+        .optional()
+        .describe('Only notifications targeting this tmux session'),
+      since: z
+        .string()
+        .optional()
+        .describe(
+          'Only notifications after this time (ISO date, HH:MM, or a duration like "2h" ago)',
+        ),
+      until: z
+        .string()
+        .optional()
+        .describe(
+          'Only notifications before this time (ISO date, HH:MM, or a duration like "30m" ago)',
+        ),
+      query: z
+        .string()
+        .optional()
+        .describe('Text to search for in titles and messages'),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe('Maximum number of notifications (default: 20)'),
+    })
+    .strict(),
+  get_notification: z
+    .object({
+      id: z
+        .string({ required_error: 'Notification id is required' })
+        .min(1, 'Notification id is required')
+        .describe('Notification id from list_notifications'),
+    })
+    .strict(),
+}
+
+export type ToolName = keyof typeof toolInputSchemas
+
+export type ToolArguments<T extends ToolName> = z.output<
+  (typeof toolInputSchemas)[T]
+>
+
+export function isToolName(name: string): name is ToolName {
+  return Object.hasOwn(toolInputSchemas, name)
+}
+
+/**
+ * JSON Schema of a tool's input, as advertised in `tools/list`
+ */
+export function getInputSchema(name: ToolName): {
+  type: 'object'
+  [key: string]: unknown
+} {
+  const { $schema: _schema, ...schema } = zodToJsonSchema(
+    toolInputSchemas[name],
+    { $refStrategy: 'none' },
+  )
+  return { ...schema, type: 'object' }
+}
+
+/**
+ * Messages naming the argument, for issues without a message of their own
+ */
+const errorMap: z.ZodErrorMap = (issue, ctx) => {
+  const fallback = z.defaultErrorMap(issue, {
+    data: ctx.data,
+    defaultError: '',
+  })
+  if (ctx.defaultError !== fallback.message) {
+    return { message: ctx.defaultError }
+  }
+
+  const name = issue.path.join('.') || 'arguments'
+  if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+    const plural = issue.keys.length === 1 ? '' : 's'
+    return { message: `Unknown argument${plural}: ${issue.keys.join(', ')}` }
+  }
+  if (issue.code === z.ZodIssueCode.invalid_type) {
+    if (issue.received === 'undefined')
+      return { message: `${name} is required` }
+    const article = /^[aeiou]/.test(issue.expected) ? 'an' : 'a'
+    return { message: `${name} must be ${article} ${issue.expected}` }
+  }
+  return { message: `Invalid ${name}: ${ctx.defaultError}` }
+}
+
+/**
+ * Validate a tool's arguments against its input schema; throws an
+ * InvalidArgumentsError listing every problem
+ */
+export function parseToolArguments<T extends ToolName>(
+  name: T,
+  args: unknown,
+): ToolArguments<T> {
+  const schema = toolInputSchemas[name] as z.ZodType<
+    ToolArguments<T>,
+    z.ZodTypeDef,
+    unknown
+  >
+  const result = schema.safeParse(args ?? {}, { errorMap })
+  if (result.success) return result.data
+
+  const issues = result.error.issues.map((issue) => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+  }))
+  throw new InvalidArgumentsError(
+    issues.map((issue) => issue.message).join('; '),
+    issues,
+  )
+}
@@ -0,0 +1,254 @@
+import { homedir } from 'node:os'
+import { basename } from 'node:path'
+import { SessionNotFoundError, TargetError } from './errors.js'
+import type { TmuxPane } from './notifier.js'
+
+/**
+ * Ways to address a tmux pane; every given field must match
+ */
+export interface TargetSelector {
+  session?: string
+  /**
+   * Window index or name
+   */
+  window?: string
+  /**
+   * Pane index, pane title, or `%id`
+   */
+  pane?: string
+  /**
+   * Glob matched against the pane's working directory; without a `/` it is
+   * matched against the last path component only
+   */
+  cwd?: string
+  /**
+   * Command running in the foreground of the pane, e.g. `vim` or `npm test`
+   */
+  command?: string
+}
+
+export interface ResolvedTarget {
+  session: string
+  window?: string
+  pane?: string
+  /**
+   * Stable tmux ids of the resolved session, window and pane
+   */
+  sessionId: string
+  windowId?: string
+  paneId?: string
+}
+
+/**
+ * Candidates listed in error messages before they are cut off
+ */
+const MAX_CANDIDATES = 20
+
+export function hasTargetSelector(selector: TargetSelector): boolean {
+  return Object.values(selector).some(
+    (value) => value !== undefined && value !== '',
+  )
+}
+
+/**
+ * Match a path against a glob with `*`, `**` and `?`; `~` expands to the
+ * home directory
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+  const expanded = pattern.replace(/^~(?=$|\/)/, homedir())
+  const subject = expanded.includes('/') ? path : basename(path)
+
+  let source = ''
+  for (let i = 0; i < expanded.length; i++) {
+    const char = expanded[i]
+    if (char === '*' && expanded[i + 1] === '*') {
+      source += '.*'
+      i++
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  // Tolerate a trailing slash on either side
+  return new RegExp(`^${source.replace(/\/$/, '')}/?$`).test(subject)
+}
+
+/**
+ * Resolve a selector to a single session, window or pane.
+ *
+ * `foreground` maps pane pids to the command lines running in the
+ * foreground of that pane, used to match `command` beyond the process name.
+ */
+export function resolveTarget(
+  panes: TmuxPane[],
+  selector: TargetSelector,
+  foreground: Map<number, string[]> = new Map(),
+): ResolvedTarget {
+  let candidates = panes
+
+  if (selector.session) {
+    const { session } = selector
+    candidates = candidates.filter((pane) => pane.session === session)
+    if (candidates.length === 0) {
+      const sessions = unique(panes.map((pane) => pane.session))
+      throw new SessionNotFoundError(
+        describeNotFound(
+          `Session '${session}' does not exist`,
+          'sessions',
+          sessions,
+        ),
+        session,
+        sessions,
+      )
+    }
+  }
+
+  if (selector.window) {
+    const { window } = selector
+    const scope = candidates
+    candidates = scope.filter(
+      (pane) => pane.window === window || pane.windowName === window,
+    )
+    if (candidates.length === 0) {
+      throw notFound(
+        `Window '${window}' not found${selector.session ? ` in session '${selector.session}'` : ''}`,
+        'windows',
+        unique(scope.map(describeWindow)),
+      )
+    }
+    // An exact index beats a window that happens to be named like one
+    if (candidates.some((pane) => pane.window === window)) {
+      candidates = candidates.filter((pane) => pane.window === window)
+    }
+  }
+
+  if (selector.pane) {
+    const { pane: wanted } = selector
+    const scope = candidates
+    candidates = wanted.startsWith('%')
+      ? scope.filter((pane) => pane.id === wanted)
+      : scope.filter((pane) => pane.index === wanted || pane.title === wanted)
+    if (candidates.length === 0) {
+      throw notFound(
+        `Pane '${wanted}' not found`,
+        'panes',
+        scope.map((pane) => `${describePane(pane)} (${pane.title})`),
+      )
+    }
+  }
+
+  if (selector.cwd) {
+    const { cwd } = selector
+    const scope = candidates
+    candidates = scope.filter((pane) => matchesGlob(pane.cwd, cwd))
+    if (candidates.length === 0) {
+      throw notFound(
+        `No pane has a working directory matching '${cwd}'`,
+        'panes',
+        scope.map((pane) => `${describePane(pane)} (${pane.cwd})`),
+      )
+    }
+  }
+
+  if (selector.command) {
+    const { command } = selector
+    const scope = candidates
+    candidates = scope.filter(
+      (pane) =>
+        pane.command === command ||
+        (foreground.get(pane.pid) ?? []).some((line) => line.includes(command)),
+    )
+    if (candidates.length === 0) {
+      throw notFound(
+        `No pane is running '${command}'`,
+        'panes',
+        scope.map((pane) => `${describePane(pane)} (${pane.command})`),
+      )
+    }
+  }
+
+  const wantsPane = selector.pane || selector.cwd || selector.command
+  if (wantsPane) {
+    if (candidates.length > 1) {
+      throw ambiguous(
+        `${candidates.length} panes match`,
+        candidates.map(
+          (pane) => `${describePane(pane)} (${pane.command} in ${pane.cwd})`,
+        ),
+      )
+    }
+    const [pane] = candidates
+    return {
+      session: pane.session,
+      window: pane.window,
+      pane: pane.index,
+      sessionId: pane.sessionId,
+      windowId: pane.windowId,
+      paneId: pane.id,
+    }
+  }
+
+  const [first] = candidates
+  if (selector.window) {
+    const windows = unique(candidates.map(describeWindow))
+    if (windows.length > 1) {
+      throw ambiguous(`Window '${selector.window}' is ambiguous`, windows)
+    }
+    return {
+      session: first.session,
+      window: first.window,
+      sessionId: first.sessionId,
+      windowId: first.windowId,
+    }
+  }
+  return { session: first.session, sessionId: first.sessionId }
+}
+
+function describeWindow(pane: TmuxPane): string {
+  return `${pane.session}:${pane.window} (${pane.windowName})`
+}
+
+function describePane(pane: TmuxPane): string {
+  return `${pane.session}:${pane.window}.${pane.index}`
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)]
+}
+
+function notFound(
+  message: string,
+  kind: string,
+  candidates: string[],
+): TargetError {
+  return new TargetError(
+    describeNotFound(message, kind, candidates),
+    candidates,
+  )
+}
+
+function describeNotFound(
+  message: string,
+  kind: string,
+  candidates: string[],
+): string {
+  if (candidates.length === 0) return `${message} (no tmux ${kind} found)`
+  return `${message}. Available ${kind}: ${formatCandidates(candidates)}`
+}
+
+function ambiguous(message: string, candidates: string[]): TargetError {
+  return new TargetError(
+    `${message}: ${formatCandidates(candidates)}. Add a session, window or pane to narrow it down`,
+    candidates,
+    'target_ambiguous',
+  )
+}
+
+function formatCandidates(candidates: string[]): string {
+  const shown = candidates.slice(0, MAX_CANDIDATES).join(', ')
+  const hidden = candidates.length - MAX_CANDIDATES
+  return hidden > 0 ? `${shown} and ${hidden} more` : shown
+}
@@ -0,0 +1,233 @@
+/**
+ * Name of a known terminal emulator, or `Unknown`
+ */
+export type TerminalType = string
+
+export const UNKNOWN_TERMINAL: TerminalType = 'Unknown'
+
+/**
+ * How to recognize a terminal emulator; it matches when any of its rules does
+ */
+export interface TerminalDefinition {
+  /**
+   * Name reported by detection and passed to the notification backends
+   */
+  name: string
+  /**
+   * macOS application brought to the front when a notification is clicked
+   */
+  app?: string
+  /**
+   * Environment variables the terminal sets, mapped to the expected value;
+   * `*` matches any text, so `"*"` only requires the variable to be set
+   */
+  env?: Record<string, string>
+  /**
+   * Text contained in the terminal's process name, matched against the
+   * processes on the tmux client's tty and the parents of this process
+   */
+  processes?: string[]
+  /**
+   * Text contained in the terminal type a tmux client reports
+   * (`#{client_termname}`)
+   */
+  termnames?: string[]
+}
+
+export interface TerminalMatch {
+  terminal: TerminalDefinition
+  /**
+   * The rule that matched, e.g. `env TERM_PROGRAM=WezTerm`
+   */
+  rule: string
+}
+
+/**
+ * Terminals detected out of the box, most specific first: Cursor is a fork
+ * of VSCode and sets the same variables, and `Terminal` is a substring of
+ * many process names.
+ */
+export const BUILTIN_TERMINALS: TerminalDefinition[] = [
+  {
+    name: 'Cursor',
+    app: 'Cursor',
+    env: { CURSOR_TRACE_ID: '*', VSCODE_IPC_HOOK_CLI: '*Cursor*' },
+    processes: ['Cursor'],
+  },
+  {
+    name: 'VSCode',
+    app: 'Visual Studio Code',
+    env: {
+      VSCODE_IPC_HOOK_CLI: '*',
+      VSCODE_REMOTE: '*',
+      VSCODE_PID: '*',
+      TERM_PROGRAM: 'vscode',
+    },
+    processes: ['Code', 'code-insiders'],
+  },
+  {
+    name: 'Zed',
+    app: 'Zed',
+    env: { ZED_TERM: '*', TERM_PROGRAM: 'zed' },
+    processes: ['Zed.app', 'zed-editor'],
+  },
+  {
+    // One of several IDEs, so there is no single app to activate
+    name: 'JetBrains',
+    env: { TERMINAL_EMULATOR: 'JetBrains-JediTerm' },
+    processes: [
+      'IntelliJ IDEA',
+      'WebStorm',
+      'PyCharm',
+      'GoLand',
+      'PhpStorm',
+      'RubyMine',
+      'CLion',
+      'Rider',
+      'RustRover',
+      'Android Studio',
+    ],
+  },
+  {
+    name: 'iTerm2',
+    app: 'iTerm2',
+    env: { TERM_PROGRAM: 'iTerm.app' },
+    processes: ['iTerm2'],
+    termnames: ['iterm', 'iTerm'],
+  },
+  {
+    name: 'WezTerm',
+    app: 'WezTerm',
+    env: { TERM_PROGRAM: 'WezTerm', WEZTERM_PANE: '*' },
+    processes: ['wezterm', 'WezTerm'],
+    termnames: ['wezterm'],
+  },
+  {
+    name: 'Kitty',
+    app: 'kitty',
+    env: { KITTY_WINDOW_ID: '*', TERM: 'xterm-kitty' },
+    processes: ['kitty'],
+    termnames: ['kitty'],
+  },
+  {
+    name: 'Ghostty',
+    app: 'Ghostty',
+    env: { TERM_PROGRAM: 'ghostty', GHOSTTY_RESOURCES_DIR: '*' },
+    processes: ['ghostty', 'Ghostty'],
+    termnames: ['ghostty'],
+  },
+  {
+    name: 'Warp',
+    app: 'Warp',
+    env: { TERM_PROGRAM: 'WarpTerminal' },
+    processes: ['Warp.app'],
+  },
+  {
+    name: 'Hyper',
+    app: 'Hyper',
+    env: { TERM_PROGRAM: 'Hyper' },
+    processes: ['Hyper'],
+  },
+  {
+    name: 'alacritty',
+    app: 'Alacritty',
+    env: {
+      ALACRITTY_WINDOW_ID: '*',
+      ALACRITTY_SOCKET: '*',
+      TERM_PROGRAM: 'alacritty',
+    },
+    processes: ['alacritty'],
+    termnames: ['alacritty'],
+  },
+  {
+    name: 'Terminal',
+    app: 'Terminal',
+    env: { TERM_PROGRAM: 'Apple_Terminal' },
+    processes: ['Terminal'],
+    termnames: ['Apple_Terminal'],
+  },
+]
+
+/**
+ * Terminal definitions in the order they are tried: custom ones first, then
+ * the built-in ones they do not replace
+ */
+export class TerminalRegistry {
+  readonly terminals: TerminalDefinition[]
+
+  constructor(custom: TerminalDefinition[] = []) {
+    const names = new Set(custom.map((terminal) => terminal.name))
+    this.terminals = [
+      ...custom,
+      ...BUILTIN_TERMINALS.filter((terminal) => !names.has(terminal.name)),
+    ]
+  }
+
+  get names(): string[] {
+    return this.terminals.map((terminal) => terminal.name)
+  }
+
+  /**
+   * Environment variables any terminal is recognized by
+   */
+  get envNames(): string[] {
+    const names = this.terminals.flatMap((terminal) =>
+      Object.keys(terminal.env ?? {}),
+    )
+    return [...new Set(names)]
+  }
+
+  get(name: string): TerminalDefinition | undefined {
+    return this.terminals.find((terminal) => terminal.name === name)
+  }
+
+  /**
+   * Whether `name` can be reported by detection
+   */
+  has(name: string): boolean {
+    return name === UNKNOWN_TERMINAL || this.get(name) !== undefined
+  }
+
+  matchEnvironment(
+    env: Record<string, string | undefined>,
+  ): TerminalMatch | undefined {
+    for (const terminal of this.terminals) {
+      for (const [name, pattern] of Object.entries(terminal.env ?? {})) {
+        const value = env[name]
+        if (value && matchesPattern(value, pattern)) {
+          return { terminal, rule: `env ${name}=${value}` }
+        }
+      }
+    }
+    return undefined
+  }
+
+  matchProcess(command: string): TerminalMatch | undefined {
+    for (const terminal of this.terminals) {
+      if (terminal.processes?.some((text) => command.includes(text))) {
+        return { terminal, rule: `process ${command}` }
+      }
+    }
+    return undefined
+  }
+
+  matchTermname(termname: string): TerminalMatch | undefined {
+    for (const terminal of this.terminals) {
+      if (terminal.termnames?.some((text) => termname.includes(text))) {
+        return { terminal, rule: `tmux client termname ${termname}` }
+      }
+    }
+    return undefined
+  }
+}
+
+/**
+ * Match a value against a pattern where `*` stands for any text
+ */
+function matchesPattern(value: string, pattern: string): boolean {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${source}$`).test(value)
+}
@@ -0,0 +1,181 @@
+import { createHash } from 'node:crypto'
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from 'node:fs'
+import { dirname, join } from 'node:path'
+import { getStateDir } from './history.js'
+
+export interface ThrottleOptions {
+  /**
+   * Notifications allowed back to back per title and session (default: 5)
+   */
+  burst?: number
+  /**
+   * Sustained notifications allowed per minute per title and session
+   * (default: 6)
+   */
+  perMinute?: number
+  /**
+   * Identical notifications within this many seconds are collapsed
+   * (default: 30)
+   */
+  dedupeSeconds?: number
+  /**
+   * File keeping limiter state across CLI invocations
+   * (default: ~/.local/state/macos-notify-mcp/throttle.json)
+   */
+  stateFile?: string
+}
+
+export interface ThrottleDecision {
+  allowed: boolean
+  /**
+   * Why the notification was suppressed
+   */
+  reason?: string
+  /**
+   * Message to deliver, suffixed with "(xN)" when duplicates were collapsed
+   */
+  message: string
+}
+
+interface ThrottleState {
+  buckets: Record<string, { tokens: number; updatedAt: number }>
+  recent: Record<
+    string,
+    { sentAt: number; suppressed: number; lastSeenAt: number }
+  >
+}
+
+/**
+ * Token bucket rate limiter with duplicate suppression, persisted to disk so
+ * limits apply across separate CLI and MCP server processes
+ */
+export class Throttle {
+  private burst: number
+  private perMinute: number
+  private dedupeMs: number
+  private stateFile: string
+
+  constructor(options: ThrottleOptions = {}) {
+    this.burst = options.burst ?? 5
+    this.perMinute = options.perMinute ?? 6
+    this.dedupeMs = (options.dedupeSeconds ?? 30) * 1000
+    this.stateFile = options.stateFile ?? join(getStateDir(), 'throttle.json')
+  }
+
+  /**
+   * Decide whether a notification may be delivered and record the attempt
+   */
+  check(
+    notification: { title: string; message: string; session?: string },
+    now: number = Date.now(),
+  ): ThrottleDecision {
+    const state = this.readState()
+    this.prune(state, now)
+
+    const decision = this.decide(state, notification, now)
+    this.writeState(state)
+    return decision
+  }
+
+  private decide(
+    state: ThrottleState,
+    {
+      title,
+      message,
+      session,
+    }: { title: string; message: string; session?: string },
+    now: number,
+  ): ThrottleDecision {
+    // Collapse identical notifications inside the dedupe window
+    const dedupeKey = hash([title, message, session ?? ''])
+    const recent = state.recent[dedupeKey]
+    if (recent && now - recent.sentAt < this.dedupeMs) {
+      recent.suppressed++
+      recent.lastSeenAt = now
+      return {
+        allowed: false,
+        reason: `duplicate of a notification sent ${Math.round((now - recent.sentAt) / 1000)}s ago (x${recent.suppressed + 1})`,
+        message,
+      }
+    }
+
+    // Refill the bucket for this title and session
+    const bucketKey = hash([title, session ?? ''])
+    const bucket = state.buckets[bucketKey] ?? {
+      tokens: this.burst,
+      updatedAt: now,
+    }
+    bucket.tokens = Math.min(
+      this.burst,
+      bucket.tokens + ((now - bucket.updatedAt) * this.perMinute) / 60000,
+    )
+    bucket.updatedAt = now
+    state.buckets[bucketKey] = bucket
+
+    if (bucket.tokens < 1) {
+      return {
+        allowed: false,
+        reason: `rate limit exceeded for "${title}" (${this.burst} at once, ${this.perMinute} per minute)`,
+        message,
+      }
+    }
+    bucket.tokens--
+
+    // Report duplicates collapsed since the previous delivery
+    const collapsed = recent?.suppressed ?? 0
+    state.recent[dedupeKey] = { sentAt: now, suppressed: 0, lastSeenAt: now }
+    return {
+      allowed: true,
+      message: collapsed > 0 ? `${message} (x${collapsed + 1})` : message,
+    }
+  }
+
+  /**
+   * Drop entries that no longer affect any decision
+   */
+  private prune(state: ThrottleState, now: number): void {
+    for (const [key, recent] of Object.entries(state.recent)) {
+      // Keep suppressed counts for a while so the next delivery can report them
+      const ttl = recent.suppressed > 0 ? 60 * 60 * 1000 : this.dedupeMs
+      if (now - recent.lastSeenAt >= ttl) delete state.recent[key]
+    }
+    const refillMs = (this.burst * 60000) / Math.max(this.perMinute, 1)
+    for (const [key, bucket] of Object.entries(state.buckets)) {
+      if (now - bucket.updatedAt >= refillMs) delete state.buckets[key]
+    }
+  }
+
+  private readState(): ThrottleState {
+    try {
+      if (existsSync(this.stateFile)) {
+        const state = JSON.parse(readFileSync(this.stateFile, 'utf-8'))
+        return { buckets: state.buckets ?? {}, recent: state.recent ?? {} }
+      }
+    } catch (_error) {
+      // Start over if the state file is unreadable
+    }
+    return { buckets: {}, recent: {} }
+  }
+
+  private writeState(state: ThrottleState): void {
+    try {
+      mkdirSync(dirname(this.stateFile), { recursive: true })
+      // Write atomically so concurrent processes never read a partial file
+      const tempFile = `${this.stateFile}.${process.pid}.tmp`
+      writeFileSync(tempFile, JSON.stringify(state))
+      renameSync(tempFile, this.stateFile)
+    } catch (_error) {
+      // Throttling is best-effort and must never block delivery
+    }
+  }
+}
+
+function hash(parts: string[]): string {
+  return createHash('sha1').update(parts.join('\0')).digest('hex').slice(0, 16)
+}
@@ -0,0 +1,76 @@
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+}
+
+/**
+ * Parse a duration such as `90s`, `20m`, `1h30m` or `2d` into milliseconds
+ */
+export function parseDuration(value: string): number | null {
+  const trimmed = value.trim()
+  if (!/^(\d+(\.\d+)?[smhd])+$/.test(trimmed)) return null
+
+  let total = 0
+  for (const [, amount, unit] of trimmed.matchAll(/(\d+(?:\.\d+)?)([smhd])/g)) {
+    total += Number(amount) * DURATION_UNITS[unit]
+  }
+  return total
+}
+
+/**
+ * Parse a point in time: an ISO 8601 date, a `HH:MM` time today, or a
+ * duration relative to `now` (in the past when `direction` is `ago`)
+ */
+export function parseTimeInput(
+  value: string,
+  direction: 'ago' | 'ahead',
+  now: Date = new Date(),
+): Date | null {
+  const duration = parseDuration(value)
+  if (duration !== null) {
+    return new Date(
+      now.getTime() + (direction === 'ago' ? -duration : duration),
+    )
+  }
+
+  const clock = value.trim().match(/^(\d{1,2}):(\d{2})$/)
+  if (clock) {
+    const hours = Number(clock[1])
+    const minutes = Number(clock[2])
+    if (hours > 23 || minutes > 59) return null
+    const date = new Date(now)
+    date.setHours(hours, minutes, 0, 0)
+    return date
+  }
+
+  const timestamp = Date.parse(value)
+  return Number.isNaN(timestamp) ? null : new Date(timestamp)
+}
+
+/**
+ * Parse when something is due: like `parseTimeInput`, but a `HH:MM` time
+ * that already passed today means tomorrow
+ */
+export function parseDueTime(
+  value: string,
+  now: Date = new Date(),
+): Date | null {
+  const date = parseTimeInput(value, 'ahead', now)
+  if (date && date <= now && /^\d{1,2}:\d{2}$/.test(value.trim())) {
+    date.setDate(date.getDate() + 1)
+  }
+  return date
+}
+
+/**
+ * Format a duration for humans, e.g. `45s`, `2m 13s` or `1h 5m`
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
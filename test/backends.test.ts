@@ -0,0 +1,492 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { afterEach, beforeEach, describe, expect, it, type Mock, vi } from 'vitest'
+import {
+  formatTmuxTarget,
+  getTmuxFocusTargets,
+  LogBackend,
+  MacOSAppBackend,
+  NotifySendBackend,
+  parseBackendList,
+  TerminalNotifierBackend,
+  WebhookBackend,
+} from '../src/backends'
+import { AppNotFoundError } from '../src/errors'
+
+vi.mock('node:fs')
+
+/**
+ * Info.plist of an app bundle with the given version
+ */
+function infoPlist(version: string): string {
+  return `<dict>\n    <key>CFBundleShortVersionString</key>\n    <string>${version}</string>\n</dict>`
+}
+
+const payload = {
+  title: 'Build',
+  message: 'Done',
+  sound: 'Glass',
+  terminal: 'iTerm2' as const,
+}
+
+describe('backends', () => {
+  let run: Mock
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    run = vi.fn().mockResolvedValue('')
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('parseBackendList', () => {
+    it('should parse a comma-separated list', () => {
+      expect(parseBackendList('macos-app, log')).toEqual(['macos-app', 'log'])
+    })
+
+    it('should accept auto', () => {
+      expect(parseBackendList('auto')).toEqual(['auto'])
+    })
+
+    it('should reject unknown names', () => {
+      expect(() => parseBackendList('log,growl')).toThrow(
+        'Unknown notification backend: growl',
+      )
+    })
+  })
+
+  describe('formatTmuxTarget', () => {
+    it('should build session:window.pane', () => {
+      expect(formatTmuxTarget({ session: 's', window: '1', pane: '2' })).toBe(
+        's:1.2',
+      )
+    })
+
+    it('should ignore a pane without a window', () => {
+      expect(formatTmuxTarget({ session: 's', pane: '2' })).toBe('s')
+    })
+
+    it('should return undefined without a session', () => {
+      expect(formatTmuxTarget({ window: '1' })).toBeUndefined()
+    })
+  })
+
+  describe('getTmuxFocusTargets', () => {
+    it('should prefer stable ids and fall back to the session name', () => {
+      expect(
+        getTmuxFocusTargets({
+          session: 'dev',
+          window: '1',
+          pane: '2',
+          sessionId: '$1',
+          windowId: '@4',
+          paneId: '%9',
+        }),
+      ).toEqual(['%9', '@4', '$1', 'dev'])
+    })
+
+    it('should use the indexes without ids', () => {
+      expect(getTmuxFocusTargets({ session: 'dev', window: '1' })).toEqual([
+        'dev:1',
+      ])
+      expect(getTmuxFocusTargets({})).toEqual([])
+    })
+  })
+
+  describe('MacOSAppBackend', () => {
+    beforeEach(() => {
+      vi.mocked(existsSync).mockReturnValue(true)
+    })
+
+    it('should launch the app bundle with open', async () => {
+      const backend = new MacOSAppBackend('/Apps/MacOSNotifyMCP.app', run)
+
+      await backend.send({ ...payload, session: 'dev', window: '1' })
+
+      expect(run).toHaveBeenCalledWith('/usr/bin/open', [
+        '-n',
+        '/Apps/MacOSNotifyMCP.app',
+        '--args',
+        '-t',
+        'Build',
+        '-m',
+        'Done',
+        '--sound',
+        'Glass',
+        '--terminal',
+        'iTerm2',
+        '-s',
+        'dev',
+        '-w',
+        '1',
+      ])
+    })
+
+    it('should fail with AppNotFoundError when the bundle is missing', async () => {
+      vi.mocked(existsSync).mockReturnValue(false)
+      const backend = new MacOSAppBackend('/Apps/MacOSNotifyMCP.app', run)
+
+      const error = await backend.send(payload).catch((caught) => caught)
+
+      expect(error).toBeInstanceOf(AppNotFoundError)
+      expect(error.message).toBe(
+        'MacOSNotifyMCP.app not found at /Apps/MacOSNotifyMCP.app',
+      )
+      expect(run).not.toHaveBeenCalled()
+    })
+
+    it('should pass action buttons and the reply socket', async () => {
+      vi.mocked(readFileSync).mockReturnValue(infoPlist('2.0'))
+      const backend = new MacOSAppBackend('/Apps/MacOSNotifyMCP.app', run)
+
+      await backend.send({
+        ...payload,
+        actions: ['Approve', 'Reject'],
+        reply: true,
+        replySocket: '/state/reply-1234abcd.sock',
+      })
+
+      expect(backend.supportsActions).toBe(true)
+      expect(run.mock.calls[0][1].slice(-7)).toEqual([
+        '--action',
+        'Approve',
+        '--action',
+        'Reject',
+        '--reply',
+        '--reply-socket',
+        '/state/reply-1234abcd.sock',
+      ])
+    })
+
+    it('should not wait for responses from app bundles built before actions', () => {
+      vi.mocked(readFileSync).mockReturnValue(infoPlist('1.0'))
+      expect(
+        new MacOSAppBackend('/Apps/MacOSNotifyMCP.app', run).supportsActions,
+      ).toBe(false)
+
+      vi.mocked(readFileSync).mockImplementation(() => {
+        throw new Error('ENOENT')
+      })
+      expect(
+        new MacOSAppBackend('/Apps/MacOSNotifyMCP.app', run).supportsActions,
+      ).toBe(false)
+      expect(readFileSync).toHaveBeenCalledWith(
+        '/Apps/MacOSNotifyMCP.app/Contents/Info.plist',
+        'utf-8',
+      )
+    })
+
+    it('should pass the terminal app to activate on click', async () => {
+      const backend = new MacOSAppBackend('/Apps/MacOSNotifyMCP.app', run)
+
+      await backend.send({
+        ...payload,
+        terminal: 'WezTerm',
+        terminalApp: 'WezTerm',
+      })
+
+      expect(run.mock.calls[0][1].slice(-4)).toEqual([
+        '--terminal',
+        'WezTerm',
+        '--terminal-app',
+        'WezTerm',
+      ])
+    })
+
+    it('should pass stable tmux ids to the app', async () => {
+      const backend = new MacOSAppBackend('/Apps/MacOSNotifyMCP.app', run)
+
+      await backend.send({
+        ...payload,
+        session: 'dev',
+        sessionId: '$1',
+        windowId: '@4',
+        paneId: '%9',
+      })
+
+      expect(run.mock.calls[0][1].slice(-8)).toEqual([
+        '-s',
+        'dev',
+        '--session-id',
+        '$1',
+        '--window-id',
+        '@4',
+        '--pane-id',
+        '%9',
+      ])
+    })
+
+    it('should not be available off macOS', async () => {
+      const platform = Object.getOwnPropertyDescriptor(process, 'platform')
+      Object.defineProperty(process, 'platform', { value: 'linux' })
+      try {
+        const backend = new MacOSAppBackend('/Apps/MacOSNotifyMCP.app', run)
+        expect(await backend.isAvailable()).toBe(false)
+      } finally {
+        Object.defineProperty(process, 'platform', platform as PropertyDescriptor)
+      }
+    })
+  })
+
+  describe('TerminalNotifierBackend', () => {
+    it('should switch to the tmux target on click', async () => {
+      const backend = new TerminalNotifierBackend(run)
+
+      await backend.send({ ...payload, session: "it's", window: '2' })
+
+      expect(run).toHaveBeenCalledWith('terminal-notifier', [
+        '-title',
+        'Build',
+        '-message',
+        'Done',
+        '-sound',
+        'Glass',
+        '-execute',
+        `tmux switch-client -t 'it'\\''s:2'`,
+      ])
+    })
+
+    it('should fall back from the pane id to its window and session', async () => {
+      const backend = new TerminalNotifierBackend(run)
+
+      await backend.send({
+        ...payload,
+        session: 'dev',
+        window: '2',
+        pane: '0',
+        sessionId: '$1',
+        windowId: '@4',
+        paneId: '%9',
+      })
+
+      expect(run.mock.calls[0][1].at(-1)).toBe(
+        "tmux switch-client -t '%9' || tmux switch-client -t '@4' || tmux switch-client -t '$1' || tmux switch-client -t 'dev'",
+      )
+    })
+
+    it('should break through Do Not Disturb for critical notifications', async () => {
+      const backend = new TerminalNotifierBackend(run)
+
+      await backend.send({ ...payload, priority: 'critical' })
+
+      expect(run.mock.calls[0][1]).toContain('-ignoreDnD')
+    })
+
+    it('should be available when the command is on PATH', async () => {
+      const backend = new TerminalNotifierBackend(run)
+
+      expect(await backend.isAvailable()).toBe(true)
+      expect(run).toHaveBeenCalledWith('which', ['terminal-notifier'])
+    })
+  })
+
+  describe('NotifySendBackend', () => {
+    it('should map priorities to urgency levels', async () => {
+      const backend = new NotifySendBackend(run)
+
+      await backend.send(payload)
+      await backend.send({ ...payload, priority: 'low' })
+      await backend.send({ ...payload, priority: 'high' })
+
+      expect(run.mock.calls.map((call) => call[1])).toEqual([
+        ['--app-name', 'macos-notify-mcp', 'Build', 'Done'],
+        ['--app-name', 'macos-notify-mcp', '--urgency', 'low', 'Build', 'Done'],
+        [
+          '--app-name',
+          'macos-notify-mcp',
+          '--urgency',
+          'critical',
+          'Build',
+          'Done',
+        ],
+      ])
+    })
+
+    it('should not be available when notify-send is missing', async () => {
+      run.mockRejectedValue(new Error('not found'))
+      const backend = new NotifySendBackend(run)
+
+      expect(await backend.isAvailable()).toBe(false)
+    })
+  })
+
+  describe('LogBackend', () => {
+    it('should append to the configured file', async () => {
+      const fs = await import('node:fs')
+      const backend = new LogBackend('/tmp/notify.log')
+
+      await backend.send({ ...payload, session: 'dev' })
+
+      expect(fs.appendFileSync).toHaveBeenCalledWith(
+        '/tmp/notify.log',
+        expect.stringMatching(/\] Build: Done \(tmux: dev\)\n$/),
+      )
+    })
+
+    it('should write to stderr without a file', async () => {
+      const write = vi
+        .spyOn(process.stderr, 'write')
+        .mockImplementation(() => true)
+      const backend = new LogBackend()
+
+      await backend.send(payload)
+
+      expect(write).toHaveBeenCalledWith(expect.stringContaining('Build: Done'))
+    })
+  })
+
+  describe('WebhookBackend', () => {
+    let fetchMock: Mock
+
+    beforeEach(() => {
+      fetchMock = vi.fn().mockResolvedValue(new Response('ok'))
+      vi.stubGlobal('fetch', fetchMock)
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should POST the notification as JSON', async () => {
+      const backend = new WebhookBackend({ url: 'https://example.com/hook' })
+
+      await backend.send({ ...payload, session: 'dev', window: '1' })
+
+      const [url, init] = fetchMock.mock.calls[0]
+      expect(url).toBe('https://example.com/hook')
+      expect(init.method).toBe('POST')
+      expect(JSON.parse(init.body)).toMatchObject({
+        title: 'Build',
+        message: 'Done',
+        session: 'dev',
+        window: '1',
+        target: 'dev:1',
+        priority: 'normal',
+        terminal: 'iTerm2',
+      })
+    })
+
+    it('should render Slack payloads', () => {
+      const backend = new WebhookBackend({
+        url: 'https://hooks.slack.com/x',
+        format: 'slack',
+      })
+
+      const { body } = backend.buildRequest(payload)
+
+      expect(JSON.parse(body)).toEqual({ text: '*Build*\nDone' })
+    })
+
+    it('should publish ntfy messages as JSON to the server root', () => {
+      const backend = new WebhookBackend({
+        url: 'https://ntfy.example.com/alerts/my-topic',
+        format: 'ntfy',
+      })
+
+      const request = backend.buildRequest({ ...payload, title: 'Déploiement ✅' })
+
+      expect(request.url).toBe('https://ntfy.example.com/alerts')
+      expect(JSON.parse(request.body)).toEqual({
+        topic: 'my-topic',
+        title: 'Déploiement ✅',
+        message: 'Done',
+        priority: 3,
+      })
+      expect(
+        JSON.parse(
+          backend.buildRequest({ ...payload, priority: 'critical' }).body,
+        ).priority,
+      ).toBe(5)
+    })
+
+    it('should send ntfy titles outside Latin-1', async () => {
+      const backend = new WebhookBackend({
+        url: 'https://ntfy.sh/topic',
+        format: 'ntfy',
+      })
+
+      await backend.send({ ...payload, title: 'ビルド' })
+
+      const [url, init] = fetchMock.mock.calls[0]
+      expect(url).toBe('https://ntfy.sh/')
+      expect(JSON.parse(init.body).title).toBe('ビルド')
+    })
+
+    it('should fill custom templates with JSON-escaped values', () => {
+      const backend = new WebhookBackend({
+        url: 'https://example.com/hook',
+        template: '{"text":"{{title}} - {{message}}","x":"{{unknown}}"}',
+      })
+
+      const { body } = backend.buildRequest({ ...payload, message: 'say "hi"' })
+
+      expect(JSON.parse(body)).toEqual({
+        text: 'Build - say "hi"',
+        x: '{{unknown}}',
+      })
+    })
+
+    it('should retry server errors with backoff', async () => {
+      fetchMock
+        .mockResolvedValueOnce(new Response('', { status: 502 }))
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValueOnce(new Response('ok'))
+      const backend = new WebhookBackend({
+        url: 'https://example.com/hook',
+        backoffMs: 0,
+      })
+
+      await backend.send(payload)
+
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+    })
+
+    it('should give up after the configured retries', async () => {
+      fetchMock.mockRejectedValue(new Error('ECONNREFUSED'))
+      const backend = new WebhookBackend({
+        url: 'https://example.com/hook',
+        retries: 1,
+        backoffMs: 0,
+      })
+
+      await expect(backend.send(payload)).rejects.toThrow(
+        'Webhook request failed: ECONNREFUSED',
+      )
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not retry requests that cannot be built', async () => {
+      const backend = new WebhookBackend({
+        url: 'https://example.com/hook',
+        headers: { 'X-Title': 'ビルド' },
+      })
+
+      await expect(backend.send(payload)).rejects.toThrow(
+        'Invalid webhook request',
+      )
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it('should not retry client errors', async () => {
+      fetchMock.mockResolvedValue(
+        new Response('', { status: 404, statusText: 'Not Found' }),
+      )
+      const backend = new WebhookBackend({ url: 'https://example.com/hook' })
+
+      await expect(backend.send(payload)).rejects.toThrow(
+        'Webhook responded with 404 Not Found',
+      )
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('should fail without a URL', async () => {
+      const backend = new WebhookBackend(undefined)
+
+      expect(await backend.isAvailable()).toBe(false)
+      await expect(backend.send(payload)).rejects.toThrow(
+        'Webhook URL is not configured',
+      )
+    })
+  })
+})
@@ -1,12 +1,29 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Readable } from 'node:stream'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
 // Mock the notifier module before importing cli
 let mockNotifier: any
+let mockPolicy: any
 
 vi.mock('../src/notifier.js', () => ({
   TmuxNotifier: vi.fn(() => mockNotifier),
 }))
 
+vi.mock('../src/policy.js', () => ({
+  NotificationPolicy: vi.fn(() => mockPolicy),
+}))
+
+vi.mock('../src/scheduler.js', () => ({
+  startScheduler: vi.fn(),
+}))
+
+vi.mock('../src/run.js', () => ({
+  executeCommand: vi.fn(),
+}))
+
 describe('CLI', () => {
   let originalArgv: string[]
   let originalExit: typeof process.exit
@@ -35,12 +52,61 @@ describe('CLI', () => {
 
     // Create mock notifier
     mockNotifier = {
-      sendNotification: vi.fn().mockResolvedValue(undefined),
+      sendNotification: vi
+        .fn()
+        .mockResolvedValue({ id: 'test-id', status: 'delivered' }),
       listSessions: vi.fn().mockResolvedValue(['session1', 'session2']),
       sessionExists: vi.fn().mockResolvedValue(true),
-      getCurrentTmuxInfo: vi
-        .fn()
-        .mockResolvedValue({ session: 'current', window: '1', pane: '0' }),
+      resolveTarget: vi.fn(async ({ session, window, pane }) => ({
+        session,
+        window,
+        pane,
+      })),
+      getCurrentTmuxInfo: vi.fn().mockResolvedValue({
+        session: 'current',
+        window: '1',
+        pane: '0',
+        sessionId: '$1',
+        windowId: '@2',
+        paneId: '%3',
+      }),
+      listNotifications: vi.fn().mockResolvedValue([]),
+      flushDigest: vi.fn().mockResolvedValue(null),
+      scheduleNotification: vi.fn(async (_options, dueAt) => ({
+        id: 'scheduled-id',
+        dueAt: dueAt.toISOString(),
+        createdAt: '2026-10-19T12:00:00.000Z',
+        notification: { title: 'api', message: 'Check the deploy' },
+      })),
+      listScheduled: vi.fn().mockResolvedValue([]),
+      cancelScheduled: vi.fn().mockResolvedValue(null),
+      diagnose: vi.fn().mockResolvedValue({
+        terminal: {
+          name: 'WezTerm',
+          detected: 'WezTerm',
+          rule: 'tmux client termname wezterm',
+          app: 'WezTerm',
+          signals: [
+            { source: 'tmux client', value: '/dev/ttys002 (session dev)' },
+            { source: 'tmux termname', value: 'wezterm', terminal: 'WezTerm' },
+          ],
+        },
+        app: { path: '/Apps/MacOSNotifyMCP.app', found: false },
+        backends: ['terminal-notifier'],
+        tmux: {
+          available: true,
+          version: 'tmux 3.4',
+          inside: true,
+          sessions: ['dev'],
+        },
+        title: { title: 'api', source: 'config' },
+      }),
+    }
+    mockPolicy = {
+      getState: vi.fn().mockReturnValue({ mutedSessions: {} }),
+      setMeeting: vi.fn(),
+      muteSession: vi.fn(),
+      unmuteSession: vi.fn(),
     }
   })
 
@@ -118,6 +184,585 @@ describe('CLI', () => {
     })
   })
 
+  describe('history', () => {
+    it('should list notifications with filters', async () => {
+      mockNotifier.listNotifications.mockResolvedValue([
+        {
+          id: 'abc',
+          timestamp: '2026-10-19T12:00:00.000Z',
+          title: 'Build',
+          message: 'Done',
+          status: 'delivered',
+        },
+      ])
+      process.argv = [
+        'node',
+        'cli.js',
+        'history',
+        '--session',
+        'work',
+        '--since',
+        '2026-10-19T11:00:00Z',
+        '--grep',
+        'build',
+      ]
+
+      await runCli()
+
+      expect(mockNotifier.listNotifications).toHaveBeenCalledWith({
+        session: 'work',
+        since: new Date('2026-10-19T11:00:00Z'),
+        text: 'build',
+        limit: 20,
+      })
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        '- [2026-10-19T12:00:00.000Z] abc Build: Done [delivered]',
+      )
+      expect(mockNotifier.sendNotification).not.toHaveBeenCalled()
+      expect(exitCode).toBe(0)
+    })
+
+    it('should report an empty history', async () => {
+      process.argv = ['node', 'cli.js', 'history']
+
+      await runCli()
+
+      expect(consoleLogSpy).toHaveBeenCalledWith('No notifications found')
+      expect(exitCode).toBe(0)
+    })
+
+    it('should reject invalid times', async () => {
+      process.argv = ['node', 'cli.js', 'history', '--since', 'later']
+
+      await runCli()
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Error: Invalid time for --since: later',
+      )
+      expect(exitCode).toBe(1)
+    })
+  })
+
+  describe('do not disturb', () => {
+    it('should enter meeting mode for an hour by default', async () => {
+      process.argv = ['node', 'cli.js', 'dnd', 'meeting']
+
+      await runCli()
+
+      const until = mockPolicy.setMeeting.mock.calls[0][0] as Date
+      expect(until.getTime() - Date.now()).toBeGreaterThan(59 * 60 * 1000)
+      expect(until.getTime() - Date.now()).toBeLessThanOrEqual(60 * 60 * 1000)
+      expect(exitCode).toBe(0)
+    })
+
+    it('should leave meeting mode', async () => {
+      process.argv = ['node', 'cli.js', 'dnd', 'off']
+
+      await runCli()
+
+      expect(mockPolicy.setMeeting).toHaveBeenCalledWith(null)
+      expect(consoleLogSpy).toHaveBeenCalledWith('Meeting mode off')
+    })
+
+    it('should show the current status', async () => {
+      mockPolicy.getState.mockReturnValue({ mutedSessions: { logs: null } })
+      process.argv = ['node', 'cli.js', 'dnd', 'status']
+
+      await runCli()
+
+      expect(consoleLogSpy).toHaveBeenCalledWith('Meeting mode off')
+      expect(consoleLogSpy).toHaveBeenCalledWith("Muted session 'logs'")
+    })
+
+    it('should mute and unmute sessions', async () => {
+      process.argv = ['node', 'cli.js', 'mute', 'logs']
+      await runCli()
+      expect(mockPolicy.muteSession).toHaveBeenCalledWith('logs', null)
+
+      process.argv = ['node', 'cli.js', 'unmute', 'logs']
+      await runCli()
+      expect(mockPolicy.unmuteSession).toHaveBeenCalledWith('logs')
+    })
+
+    it('should reject an invalid duration', async () => {
+      process.argv = ['node', 'cli.js', 'mute', 'logs', '--for', 'soon']
+
+      await runCli()
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Error: Invalid end time: soon',
+      )
+      expect(exitCode).toBe(1)
+    })
+
+    it('should deliver the digest on demand', async () => {
+      process.argv = ['node', 'cli.js', 'digest']
+
+      await runCli()
+
+      expect(mockNotifier.flushDigest).toHaveBeenCalled()
+      expect(consoleLogSpy).toHaveBeenCalledWith('No digest to deliver')
+    })
+  })
+
+  describe('doctor', () => {
+    it('should print a report', async () => {
+      process.argv = ['node', 'cli.js', 'doctor']
+
+      await runCli()
+
+      const output = consoleLogSpy.mock.calls[0][0]
+      expect(output).toContain('Matched rule: tmux client termname wezterm')
+      expect(output).toContain('tmux termname: wezterm -> WezTerm')
+      expect(output).toContain('Found: no')
+      expect(exitCode).toBe(0)
+    })
+
+    it('should print the report as JSON', async () => {
+      process.argv = ['node', 'cli.js', 'doctor', '--json']
+
+      await runCli()
+
+      const output = JSON.parse(consoleLogSpy.mock.calls[0][0])
+      expect(output.terminal.rule).toBe('tmux client termname wezterm')
+      expect(output.tmux.sessions).toEqual(['dev'])
+    })
+  })
+
+  describe('scheduling', () => {
+    const scheduled = {
+      id: 'scheduled-id',
+      dueAt: '2026-10-19T12:15:00.000Z',
+      createdAt: '2026-10-19T12:00:00.000Z',
+      notification: { title: 'api', message: 'Check the deploy' },
+    }
+
+    it('should schedule a notification with --in', async () => {
+      const before = Date.now()
+      process.argv = ['node', 'cli.js', '-m', 'Check the deploy', '--in', '15m']
+
+      await runCli()
+
+      const [options, dueAt] = mockNotifier.scheduleNotification.mock.calls[0]
+      expect(options).toEqual({ message: 'Check the deploy' })
+      expect(dueAt.getTime() - before).toBeGreaterThanOrEqual(15 * 60 * 1000)
+      expect(mockNotifier.sendNotification).not.toHaveBeenCalled()
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        `Notification scheduled for ${dueAt.toLocaleString()} (id: scheduled-id)`,
+      )
+      expect(exitCode).toBe(0)
+    })
+
+    it('should schedule a notification with --at', async () => {
+      process.argv = ['node', 'cli.js', '-m', 'Standup', '--at', '09:30']
+
+      await runCli()
+
+      const [, dueAt] = mockNotifier.scheduleNotification.mock.calls[0]
+      expect(dueAt.getHours()).toBe(9)
+      expect(dueAt.getMinutes()).toBe(30)
+      expect(dueAt.getTime()).toBeGreaterThan(Date.now())
+    })
+
+    it('should reject invalid times', async () => {
+      process.argv = ['node', 'cli.js', '-m', 'Standup', '--in', '17:30']
+
+      await runCli()
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Error: Invalid time for --in: 17:30',
+      )
+      expect(exitCode).toBe(1)
+    })
+
+    it('should not combine scheduling with --wait', async () => {
+      process.argv = ['node', 'cli.js', '-m', 'x', '--in', '5m', '--wait', '5']
+
+      await runCli()
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Error: --wait cannot be combined with --at or --in',
+      )
+      expect(mockNotifier.scheduleNotification).not.toHaveBeenCalled()
+      expect(exitCode).toBe(1)
+    })
+
+    it('should list scheduled notifications', async () => {
+      mockNotifier.listScheduled.mockResolvedValue([scheduled])
+      process.argv = ['node', 'cli.js', 'scheduled']
+
+      await runCli()
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        '- [2026-10-19T12:15:00.000Z] scheduled-id api: Check the deploy',
+      )
+      expect(exitCode).toBe(0)
+    })
+
+    it('should cancel a scheduled notification', async () => {
+      mockNotifier.cancelScheduled.mockResolvedValue(scheduled)
+      process.argv = ['node', 'cli.js', 'scheduled', 'cancel', 'scheduled-id']
+
+      await runCli()
+
+      expect(mockNotifier.cancelScheduled).toHaveBeenCalledWith('scheduled-id')
+      expect(exitCode).toBe(0)
+
+      mockNotifier.cancelScheduled.mockResolvedValue(null)
+      await runCli()
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        "Error: Scheduled notification 'scheduled-id' not found",
+      )
+      expect(exitCode).toBe(1)
+    })
+
+    it('should keep delivering in the background with daemon', async () => {
+      const { startScheduler } = await import('../src/scheduler.js')
+      process.argv = ['node', 'cli.js', 'daemon']
+
+      await runCli()
+
+      expect(startScheduler).toHaveBeenCalledWith(mockNotifier, {
+        keepAlive: true,
+      })
+      expect(exitCode).toBeUndefined()
+    })
+  })
+
+  describe('run', () => {
+    const runCommand = async (result: object) => {
+      const { executeCommand } = await import('../src/run.js')
+      vi.mocked(executeCommand).mockResolvedValue({
+        exitCode: 0,
+        durationMs: 133_000,
+        tail: [],
+        ...result,
+      })
+      await runCli()
+      return vi.mocked(executeCommand)
+    }
+
+    it('should notify the current pane when the command succeeds', async () => {
+      process.argv = ['node', 'cli.js', 'run', '--', 'npm', 'test', '--', '-u']
+
+      const executeCommand = await runCommand({ tail: ['Tests: 12 passed'] })
+
+      expect(executeCommand).toHaveBeenCalledWith(
+        ['npm', 'test', '--', '-u'],
+        { tailLines: 5 },
+      )
+      expect(mockNotifier.sendNotification).toHaveBeenCalledWith({
+        session: 'current',
+        window: '1',
+        pane: '0',
+        sessionId: '$1',
+        windowId: '@2',
+        paneId: '%3',
+        title: 'Succeeded: npm test -- -u',
+        message: 'Exited with 0 after 2m 13s\nTests: 12 passed',
+        sound: undefined,
+      })
+      expect(exitCode).toBe(0)
+    })
+
+    it('should use the failure sound and mirror the exit code', async () => {
+      process.argv = ['node', 'cli.js', 'run', '--lines', '2', '--', 'make']
+
+      const executeCommand = await runCommand({
+        exitCode: 2,
+        tail: ['make: *** [all] Error 1'],
+      })
+
+      expect(executeCommand).toHaveBeenCalledWith(['make'], { tailLines: 2 })
+      expect(mockNotifier.sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: 'Failed: make',
+          message: 'Exited with 2 after 2m 13s\nmake: *** [all] Error 1',
+          sound: 'Basso',
+        }),
+      )
+      expect(exitCode).toBe(2)
+    })
+
+    it('should apply title, sound and priority options', async () => {
+      process.argv = [
+        'node',
+        'cli.js',
+        'run',
+        '-t',
+        'Nightly build',
+        '--sound',
+        'Hero',
+        '--priority',
+        'high',
+        '--',
+        'sleep',
+        '600',
+      ]
+
+      await runCommand({ exitCode: 143, signal: 'SIGTERM', durationMs: 45_000 })
+
+      expect(mockNotifier.sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: 'Nightly build',
+          message: 'Killed by SIGTERM after 45s',
+          sound: 'Hero',
+          priority: 'high',
+        }),
+      )
+      expect(exitCode).toBe(143)
+    })
+
+    it('should report commands that cannot be started', async () => {
+      process.argv = ['node', 'cli.js', 'run', '--', 'nope']
+
+      await runCommand({ exitCode: 127, error: 'spawn nope ENOENT' })
+
+      expect(mockNotifier.sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: 'Could not start: spawn nope ENOENT',
+        }),
+      )
+      expect(exitCode).toBe(127)
+    })
+
+    it('should keep the exit code when the notification fails', async () => {
+      mockNotifier.sendNotification.mockRejectedValue(new Error('No backend'))
+      process.argv = ['node', 'cli.js', 'run', '--', 'false']
+
+      await runCommand({ exitCode: 1 })
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Failed to send notification:',
+        expect.any(Error),
+      )
+      expect(exitCode).toBe(1)
+    })
+
+    it('should require a command', async () => {
+      process.argv = ['node', 'cli.js', 'run']
+
+      const executeCommand = await runCommand({})
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Error: Command is required (run [options] -- <command...>)',
+      )
+      expect(executeCommand).not.toHaveBeenCalled()
+      expect(exitCode).toBe(1)
+    })
+  })
+
+  describe('hooks', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'macos-notify-cli-hooks-'))
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+      vi.restoreAllMocks()
+    })
+
+    const withStdin = (text: string) =>
+      vi
+        .spyOn(process, 'stdin', 'get')
+        .mockReturnValue(Readable.from([text]) as typeof process.stdin)
+
+    it('should notify the current pane about a hook event', async () => {
+      withStdin(
+        JSON.stringify({
+          hook_event_name: 'Notification',
+          message: 'Claude needs your permission to use Bash',
+        }),
+      )
+      process.argv = ['node', 'cli.js', 'hook', 'Notification']
+
+      await runCli()
+
+      expect(mockNotifier.sendNotification).toHaveBeenCalledWith({
+        session: 'current',
+        window: '1',
+        pane: '0',
+        sessionId: '$1',
+        windowId: '@2',
+        paneId: '%3',
+        title: undefined,
+        message: 'Waiting for permission to run Bash',
+        sound: undefined,
+        priority: undefined,
+      })
+      expect(consoleLogSpy).not.toHaveBeenCalled()
+      expect(exitCode).toBe(0)
+    })
+
+    it('should apply the config of the event', async () => {
+      const configPath = join(dir, 'config.json')
+      writeFileSync(
+        configPath,
+        JSON.stringify({
+          hooks: {
+            Stop: { title: 'Agent', sound: 'Hero', priority: 'high' },
+            SubagentStop: { enabled: false },
+          },
+        }),
+      )
+      withStdin('{}')
+      process.argv = ['node', 'cli.js', 'hook', 'Stop', '--config', configPath]
+
+      await runCli()
+
+      expect(mockNotifier.sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: 'Agent',
+          message: 'Task finished',
+          sound: 'Hero',
+          priority: 'high',
+        }),
+      )
+
+      mockNotifier.sendNotification.mockClear()
+      withStdin('{}')
+      process.argv = [
+        'node',
+        'cli.js',
+        'hook',
+        'SubagentStop',
+        '--config',
+        configPath,
+      ]
+      await runCli()
+
+      expect(mockNotifier.sendNotification).not.toHaveBeenCalled()
+      expect(exitCode).toBe(0)
+    })
+
+    it('should reject invalid payloads', async () => {
+      withStdin('not json')
+      process.argv = ['node', 'cli.js', 'hook', 'Stop']
+
+      await runCli()
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringMatching(/^Error: Invalid hook payload: /),
+      )
+      expect(mockNotifier.sendNotification).not.toHaveBeenCalled()
+      expect(exitCode).toBe(1)
+    })
+
+    it('should install hooks into a settings file', async () => {
+      const settingsPath = join(dir, 'settings.json')
+      process.argv = [
+        'node',
+        'cli.js',
+        'install-hooks',
+        '--events',
+        'Stop,PreToolUse',
+        '--settings',
+        settingsPath,
+      ]
+
+      await runCli()
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        `Installed hooks for Stop, PreToolUse in ${settingsPath}`,
+      )
+
+      await runCli()
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        `Hooks are already installed in ${settingsPath}`,
+      )
+      expect(exitCode).toBe(0)
+    })
+
+    it('should print the settings snippet', async () => {
+      process.argv = ['node', 'cli.js', 'install-hooks', '--print']
+
+      await runCli()
+
+      const snippet = JSON.parse(consoleLogSpy.mock.calls[0][0])
+      expect(Object.keys(snippet.hooks)).toEqual(['Notification', 'Stop'])
+      expect(snippet.hooks.Stop[0].hooks[0].command).toBe(
+        'macos-notify-cli hook Stop',
+      )
+    })
+
+    it('should reject unknown events', async () => {
+      process.argv = ['node', 'cli.js', 'install-hooks', '--events', 'Done']
+
+      await runCli()
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringMatching(/^Error: Unknown hook event: Done/),
+      )
+      expect(exitCode).toBe(1)
+    })
+  })
+
+  describe('--wait', () => {
+    it('should wait for a click and exit 0', async () => {
+      mockNotifier.sendNotification.mockResolvedValue({
+        id: 'test-id',
+        status: 'delivered',
+        acknowledgement: 'clicked',
+      })
+      process.argv = ['node', 'cli.js', '-m', 'Deploy ready?', '--wait', '300']
+
+      await runCli()
+
+      expect(mockNotifier.sendNotification).toHaveBeenCalledWith({
+        message: 'Deploy ready?',
+        waitForClick: true,
+        timeoutMs: 300000,
+      })
+      expect(consoleLogSpy).toHaveBeenCalledWith('Notification clicked')
+      expect(exitCode).toBe(0)
+    })
+
+    it('should exit 1 when dismissed and 2 on timeout', async () => {
+      mockNotifier.sendNotification.mockResolvedValueOnce({
+        id: 'test-id',
+        status: 'delivered',
+        acknowledgement: 'dismissed',
+      })
+      process.argv = ['node', 'cli.js', '-m', 'Deploy ready?', '--wait', '5']
+      await runCli()
+      expect(consoleLogSpy).toHaveBeenCalledWith('Notification dismissed')
+      expect(exitCode).toBe(1)
+
+      mockNotifier.sendNotification.mockResolvedValueOnce({
+        id: 'test-id',
+        status: 'delivered',
+        acknowledgement: 'timeout',
+      })
+      await runCli()
+      expect(consoleLogSpy).toHaveBeenCalledWith('No click within 5s')
+      expect(exitCode).toBe(2)
+    })
+
+    it('should fail when no backend reports clicks', async () => {
+      process.argv = ['node', 'cli.js', '-m', 'Deploy ready?', '--wait', '5']
+
+      await runCli()
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Error: None of the backends can report clicks (use the macos-app backend, version 2.0 or later)',
+      )
+      expect(exitCode).toBe(1)
+    })
+
+    it('should reject an invalid wait time', async () => {
+      process.argv = ['node', 'cli.js', '-m', 'Deploy ready?', '--wait', 'soon']
+
+      await runCli()
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Error: Invalid wait time: soon (seconds)',
+      )
+      expect(mockNotifier.sendNotification).not.toHaveBeenCalled()
+      expect(exitCode).toBe(1)
+    })
+  })
+
   describe('notification sending', () => {
     it.skip('should send basic notification with message', async () => {
       process.argv = ['node', 'cli.js', '-m', 'Hello World']
@@ -208,6 +853,9 @@ describe('CLI', () => {
         session: 'current',
         window: '1',
         pane: '0',
+        sessionId: '$1',
+        windowId: '@2',
+        paneId: '%3',
       })
     })
 
@@ -223,8 +871,67 @@ describe('CLI', () => {
       expect(consoleErrorSpy).toHaveBeenCalledWith('Error: Not in a tmux session')
     })
 
+    it('should report suppressed notifications', async () => {
+      mockNotifier.sendNotification.mockResolvedValue({
+        id: 'test-id',
+        status: 'suppressed',
+        reason: 'rate limit exceeded for "Build" (5 at once, 6 per minute)',
+      })
+      process.argv = ['node', 'cli.js', '-m', 'Again']
+
+      await runCli()
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        'Notification suppressed: rate limit exceeded for "Build" (5 at once, 6 per minute)',
+      )
+      expect(exitCode).toBe(0)
+    })
+
+    it('should report deferred notifications', async () => {
+      mockNotifier.sendNotification.mockResolvedValue({
+        id: 'test-id',
+        status: 'deferred',
+        reason: 'quiet hours (22:00-07:00)',
+      })
+      process.argv = ['node', 'cli.js', '-m', 'Later']
+
+      await runCli()
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        'Notification deferred: quiet hours (22:00-07:00)',
+      )
+      expect(exitCode).toBe(0)
+    })
+
+    it('should send notifications with a priority', async () => {
+      process.argv = ['node', 'cli.js', '-m', 'Need approval', '--priority', 'critical']
+
+      await runCli()
+
+      expect(mockNotifier.sendNotification).toHaveBeenCalledWith({
+        message: 'Need approval',
+        priority: 'critical',
+      })
+    })
+
+    it('should reject unknown priorities', async () => {
+      process.argv = ['node', 'cli.js', '-m', 'Hi', '--priority', 'urgent']
+
+      await runCli()
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Error: Invalid priority: urgent (expected one of: low, normal, high, critical)',
+      )
+      expect(exitCode).toBe(1)
+      expect(mockNotifier.sendNotification).not.toHaveBeenCalled()
+    })
+
     it('should validate session exists', async () => {
-      mockNotifier.sessionExists.mockResolvedValue(false)
+      mockNotifier.resolveTarget.mockRejectedValue(
+        new Error(
+          "Session 'nonexistent' does not exist. Available sessions: session1",
+        ),
+      )
       process.argv = [
         'node',
         'cli.js',
@@ -236,11 +943,51 @@ describe('CLI', () => {
 
       await runCli()
 
-      expect(mockNotifier.sessionExists).toHaveBeenCalledWith('nonexistent')
+      expect(mockNotifier.resolveTarget).toHaveBeenCalledWith({
+        session: 'nonexistent',
+      })
       expect(consoleErrorSpy).toHaveBeenCalledWith(
-        "Error: Session 'nonexistent' does not exist",
+        "Error: Session 'nonexistent' does not exist. Available sessions: session1",
       )
       expect(exitCode).toBe(1)
+      expect(mockNotifier.sendNotification).not.toHaveBeenCalled()
+    })
+
+    it('should target the pane running a command', async () => {
+      mockNotifier.resolveTarget.mockResolvedValue({
+        session: 'dev',
+        window: '1',
+        pane: '0',
+        sessionId: '$1',
+        windowId: '@4',
+        paneId: '%9',
+      })
+      process.argv = [
+        'node',
+        'cli.js',
+        '-m',
+        'Tests failed',
+        '--command',
+        'npm test',
+        '--cwd',
+        'api',
+      ]
+
+      await runCli()
+
+      expect(mockNotifier.resolveTarget).toHaveBeenCalledWith({
+        command: 'npm test',
+        cwd: 'api',
+      })
+      expect(mockNotifier.sendNotification).toHaveBeenCalledWith({
+        message: 'Tests failed',
+        session: 'dev',
+        window: '1',
+        pane: '0',
+        sessionId: '$1',
+        windowId: '@4',
+        paneId: '%9',
+      })
     })
   })
 
@@ -272,6 +1019,76 @@ describe('CLI', () => {
       })
     })
 
+    it('should configure backends and webhook delivery', async () => {
+      process.argv = [
+        'node',
+        'cli.js',
+        '-m',
+        'Deploy done',
+        '--backend',
+        'log',
+        '--webhook',
+        'https://ntfy.sh/topic',
+        '--webhook-format',
+        'ntfy',
+      ]
+
+      await runCli()
+
+      const { TmuxNotifier } = await import('../src/notifier.js')
+      expect(TmuxNotifier).toHaveBeenCalledWith(undefined, {
+        backends: ['log', 'webhook'],
+        webhook: { url: 'https://ntfy.sh/topic', format: 'ntfy' },
+      })
+      expect(mockNotifier.sendNotification).toHaveBeenCalledWith({
+        message: 'Deploy done',
+      })
+    })
+
+    it('should skip terminal detection with --terminal', async () => {
+      process.argv = ['node', 'cli.js', '-m', 'Done', '--terminal', 'iTerm2']
+
+      await runCli()
+
+      const { TmuxNotifier } = await import('../src/notifier.js')
+      expect(TmuxNotifier).toHaveBeenCalledWith(undefined, {
+        terminal: 'iTerm2',
+      })
+      expect(mockNotifier.sendNotification).toHaveBeenCalledWith({
+        message: 'Done',
+      })
+    })
+
+    it('should reject unknown terminals', async () => {
+      process.argv = ['node', 'cli.js', '-m', 'Done', '--terminal', 'xterm']
+
+      await runCli()
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Error: Unknown terminal: xterm (expected one of: Cursor, VSCode, Zed, JetBrains, iTerm2, WezTerm, Kitty, Ghostty, Warp, Hyper, alacritty, Terminal)',
+      )
+      expect(exitCode).toBe(1)
+    })
+
+    it('should report a missing --config file', async () => {
+      process.argv = [
+        'node',
+        'cli.js',
+        '-m',
+        'Test',
+        '--config',
+        '/nonexistent/config.json',
+      ]
+
+      await runCli()
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Error: Config file not found: /nonexistent/config.json',
+      )
+      expect(mockNotifier.sendNotification).not.toHaveBeenCalled()
+      expect(exitCode).toBe(1)
+    })
+
     it('should error when no message provided', async () => {
       process.argv = ['node', 'cli.js']
 
@@ -0,0 +1,338 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  ConfigError,
+  getConfigPath,
+  isQuietTime,
+  loadConfig,
+  toNotifierOptions,
+  validateConfig,
+} from '../src/config'
+
+describe('config', () => {
+  let dir: string
+  const originalEnv = { ...process.env }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'macos-notify-config-'))
+    delete process.env.MACOS_NOTIFY_CONFIG
+    process.env.XDG_CONFIG_HOME = join(dir, 'xdg')
+  })
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  function writeJson(path: string, value: unknown) {
+    mkdirSync(join(path, '..'), { recursive: true })
+    writeFileSync(path, JSON.stringify(value))
+  }
+
+  describe('getConfigPath', () => {
+    it('should default to the XDG config directory', () => {
+      expect(getConfigPath()).toBe(
+        join(dir, 'xdg', 'macos-notify-mcp', 'config.json'),
+      )
+    })
+
+    it('should prefer MACOS_NOTIFY_CONFIG', () => {
+      process.env.MACOS_NOTIFY_CONFIG = '/etc/notify.json'
+      expect(getConfigPath()).toBe('/etc/notify.json')
+    })
+
+    it('should prefer an explicit path', () => {
+      process.env.MACOS_NOTIFY_CONFIG = '/etc/notify.json'
+      expect(getConfigPath('/tmp/other.json')).toBe('/tmp/other.json')
+    })
+  })
+
+  describe('loadConfig', () => {
+    it('should return an empty config when no file exists', () => {
+      expect(loadConfig({ cwd: dir })).toEqual({})
+    })
+
+    it('should fail when an explicit file is missing', () => {
+      expect(() => loadConfig({ path: join(dir, 'nope.json'), cwd: dir })).toThrow(
+        ConfigError,
+      )
+    })
+
+    it('should load the user config file', () => {
+      writeJson(getConfigPath(), {
+        defaults: { title: 'Agent', sound: 'Ping' },
+        backends: ['notify-send', 'log'],
+      })
+
+      const config = loadConfig({ cwd: dir })
+
+      expect(config.defaults).toEqual({ title: 'Agent', sound: 'Ping' })
+      expect(config.backends).toEqual(['notify-send', 'log'])
+    })
+
+    it('should apply project overrides and the per-repo file', () => {
+      const repo = join(dir, 'work', 'repo')
+      mkdirSync(join(repo, 'src'), { recursive: true })
+      writeJson(getConfigPath(), {
+        defaults: { title: 'Agent', sound: 'Ping' },
+        projects: {
+          [join(dir, 'work')]: { defaults: { title: 'Work' } },
+        },
+      })
+      writeJson(join(repo, '.macos-notify.json'), {
+        defaults: { sound: 'Hero' },
+      })
+
+      const config = loadConfig({ cwd: join(repo, 'src') })
+
+      expect(config.defaults).toEqual({ title: 'Work', sound: 'Hero' })
+    })
+
+    it('should not let the per-repo file choose where notifications go', () => {
+      for (const setting of [
+        { webhook: { url: 'https://attacker.example/hook' } },
+        { logFile: '~/.ssh/authorized_keys' },
+        { backends: ['webhook'] },
+      ]) {
+        const key = Object.keys(setting)[0]
+        writeJson(join(dir, '.macos-notify.json'), setting)
+
+        expect(() => loadConfig({ cwd: dir })).toThrow(
+          `"${key}" can only be set in the user config (use its projects map)`,
+        )
+      }
+    })
+
+    it('should let the projects map choose where notifications go', () => {
+      writeJson(getConfigPath(), {
+        projects: { [dir]: { webhook: { url: 'https://ntfy.sh/work' } } },
+      })
+
+      expect(loadConfig({ cwd: dir }).webhook).toEqual({
+        url: 'https://ntfy.sh/work',
+      })
+    })
+
+    it('should merge hook settings per event from the per-repo file', () => {
+      writeJson(getConfigPath(), {
+        hooks: { Stop: { sound: 'Glass' }, Notification: { priority: 'high' } },
+      })
+      writeJson(join(dir, '.macos-notify.json'), {
+        hooks: { Stop: { enabled: false } },
+      })
+
+      expect(loadConfig({ cwd: dir }).hooks).toEqual({
+        Stop: { enabled: false },
+        Notification: { priority: 'high' },
+      })
+    })
+
+    it('should ignore projects the working directory is not in', () => {
+      writeJson(getConfigPath(), {
+        projects: { [join(dir, 'work')]: { defaults: { title: 'Work' } } },
+      })
+
+      const config = loadConfig({ cwd: join(dir, 'workshop') })
+
+      expect(config.defaults).toBeUndefined()
+    })
+
+    it('should report invalid JSON', () => {
+      mkdirSync(join(dir, 'xdg', 'macos-notify-mcp'), { recursive: true })
+      writeFileSync(getConfigPath(), '{ nope')
+
+      expect(() => loadConfig({ cwd: dir })).toThrow(/Failed to read config/)
+    })
+  })
+
+  describe('validateConfig', () => {
+    it('should reject unknown settings', () => {
+      expect(() => validateConfig({ sond: 'Glass' }, 'config.json')).toThrow(
+        'Invalid config in config.json: "sond" is not a known setting',
+      )
+    })
+
+    it('should reject unknown backends', () => {
+      expect(() =>
+        validateConfig({ backends: ['growl'] }, 'config.json'),
+      ).toThrow(/"backends" Unknown notification backend: growl/)
+    })
+
+    it('should validate quiet hours', () => {
+      expect(() =>
+        validateConfig(
+          { quietHours: [{ start: '25:00', end: '07:00' }] },
+          'config.json',
+        ),
+      ).toThrow('"quietHours[0].start" must be a time in HH:MM format')
+      expect(() =>
+        validateConfig(
+          { quietHours: [{ start: '22:00', end: '07:00', days: ['funday'] }] },
+          'config.json',
+        ),
+      ).toThrow('"quietHours[0].days" must be an array')
+    })
+
+    it('should validate do-not-disturb settings', () => {
+      expect(() =>
+        validateConfig({ quietHoursAction: 'snooze' }, 'config.json'),
+      ).toThrow('"quietHoursAction" must be one of defer, silent, drop')
+      expect(() =>
+        validateConfig({ mutedSessions: 'logs' }, 'config.json'),
+      ).toThrow('"mutedSessions" must be an array of strings')
+    })
+
+    it('should validate the terminal override', () => {
+      expect(validateConfig({ terminal: 'iTerm2' }, 'config.json')).toEqual({
+        terminal: 'iTerm2',
+      })
+      expect(() => validateConfig({ terminal: 'xterm' }, 'config.json')).toThrow(
+        '"terminal" must be one of Cursor, VSCode, Zed, JetBrains, iTerm2',
+      )
+    })
+
+    it('should validate custom terminals', () => {
+      const terminals = [
+        { name: 'Rio', app: 'Rio', env: { TERM_PROGRAM: 'rio' } },
+      ]
+      expect(
+        validateConfig({ terminals, terminal: 'Rio' }, 'config.json'),
+      ).toEqual({ terminals, terminal: 'Rio' })
+      expect(() =>
+        validateConfig({ terminals: [{ name: 'Rio' }] }, 'config.json'),
+      ).toThrow('"terminals[0]" needs at least one of env, processes or termnames')
+      expect(() =>
+        validateConfig(
+          { terminals: [{ name: 'Rio', processes: 'rio' }] },
+          'config.json',
+        ),
+      ).toThrow('"terminals[0].processes" must be an array of non-empty strings')
+    })
+
+    it('should validate project entries with their path', () => {
+      expect(() =>
+        validateConfig(
+          { projects: { '~/work': { defaults: { title: 1 } } } },
+          'config.json',
+        ),
+      ).toThrow('"projects["~/work"].defaults.title" must be a string')
+    })
+
+    it('should validate webhook settings', () => {
+      expect(
+        validateConfig(
+          { webhook: { url: 'https://ntfy.sh/x', format: 'ntfy', retries: 0 } },
+          'config.json',
+        ).webhook,
+      ).toEqual({ url: 'https://ntfy.sh/x', format: 'ntfy', retries: 0 })
+      expect(() =>
+        validateConfig({ webhook: { url: 'x', format: 'irc' } }, 'config.json'),
+      ).toThrow('"webhook.format" must be json, slack, discord or ntfy')
+      expect(() =>
+        validateConfig(
+          { webhook: { url: 'x', minPriority: 'urgent' } },
+          'config.json',
+        ),
+      ).toThrow('"webhook.minPriority" must be one of low, normal, high, critical')
+    })
+
+    it('should validate escalation steps', () => {
+      const escalation = {
+        minPriority: 'critical',
+        steps: [
+          { afterMinutes: 5, sound: 'Sosumi' },
+          { afterMinutes: 15, backends: ['webhook'] },
+        ],
+      }
+      expect(validateConfig({ escalation }, 'config.json')).toEqual({
+        escalation,
+      })
+      expect(() =>
+        validateConfig({ escalation: { steps: [] } }, 'config.json'),
+      ).toThrow('"escalation.steps" must be a non-empty array')
+      expect(() =>
+        validateConfig(
+          { escalation: { steps: [{ afterMinutes: -1 }] } },
+          'config.json',
+        ),
+      ).toThrow('"escalation.steps[0].afterMinutes" must be a non-negative number')
+      expect(() =>
+        validateConfig(
+          { escalation: { steps: [{ afterMinutes: 5, backends: ['email'] }] } },
+          'config.json',
+        ),
+      ).toThrow('"escalation.steps[0].backends" Unknown notification backend: email')
+    })
+
+    it('should validate hook events', () => {
+      const hooks = {
+        Notification: { priority: 'high', sound: 'Ping' },
+        Stop: { enabled: false, title: 'Agent' },
+      }
+      expect(validateConfig({ hooks }, 'config.json')).toEqual({ hooks })
+      expect(() =>
+        validateConfig({ hooks: { Done: {} } }, 'config.json'),
+      ).toThrow('"hooks.Done" is not a hook event')
+      expect(() =>
+        validateConfig({ hooks: { Stop: { enabled: 'no' } } }, 'config.json'),
+      ).toThrow('"hooks.Stop.enabled" must be a boolean')
+      expect(() =>
+        validateConfig(
+          { hooks: { Stop: { priority: 'urgent' } } },
+          'config.json',
+        ),
+      ).toThrow('"hooks.Stop.priority" must be one of low, normal, high, critical')
+    })
+  })
+
+  describe('toNotifierOptions', () => {
+    it('should map config settings to notifier options', () => {
+      expect(
+        toNotifierOptions({
+          defaults: { title: 'Agent', sound: 'Ping' },
+          backends: ['log'],
+          quietHours: [{ start: '22:00', end: '07:00' }],
+        }),
+      ).toEqual({
+        backends: ['log'],
+        defaultTitle: 'Agent',
+        defaultSound: 'Ping',
+        quietHours: [{ start: '22:00', end: '07:00' }],
+      })
+    })
+  })
+
+  describe('isQuietTime', () => {
+    // 2026-10-19 is a Monday
+    const at = (time: string, day = 19) =>
+      new Date(`2026-10-${day}T${time}:00`)
+
+    it('should match a same-day range', () => {
+      const ranges = [{ start: '12:00', end: '13:00' }]
+      expect(isQuietTime(ranges, at('12:30'))).toBe(true)
+      expect(isQuietTime(ranges, at('13:00'))).toBe(false)
+    })
+
+    it('should match an overnight range', () => {
+      const ranges = [{ start: '22:00', end: '07:00' }]
+      expect(isQuietTime(ranges, at('23:00'))).toBe(true)
+      expect(isQuietTime(ranges, at('06:59'))).toBe(true)
+      expect(isQuietTime(ranges, at('07:00'))).toBe(false)
+    })
+
+    it('should respect the days a range starts on', () => {
+      const ranges = [
+        { start: '22:00', end: '07:00', days: ['fri' as const] },
+      ]
+      // Saturday morning belongs to Friday night
+      expect(isQuietTime(ranges, at('03:00', 24))).toBe(true)
+      expect(isQuietTime(ranges, at('03:00', 19))).toBe(false)
+    })
+
+    it('should not be quiet without ranges', () => {
+      expect(isQuietTime(undefined, at('03:00'))).toBe(false)
+    })
+  })
+})
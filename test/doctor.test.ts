@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { type Diagnosis, formatDiagnosis } from '../src/doctor'
+
+const diagnosis: Diagnosis = {
+  terminal: {
+    name: 'iTerm2',
+    detected: 'iTerm2',
+    rule: 'process /Applications/iTerm.app/Contents/MacOS/iTerm2',
+    app: 'iTerm2',
+    signals: [
+      { source: 'process tree', value: '500 -zsh' },
+      {
+        source: 'process tree',
+        value: '400 /Applications/iTerm.app/Contents/MacOS/iTerm2',
+        terminal: 'iTerm2',
+      },
+    ],
+  },
+  app: { path: '/Apps/MacOSNotifyMCP.app', found: true },
+  backends: ['macos-app'],
+  tmux: {
+    available: true,
+    version: 'tmux 3.4',
+    inside: true,
+    current: {
+      session: 'dev',
+      window: '1',
+      pane: '0',
+      sessionId: '$1',
+      windowId: '@2',
+      paneId: '%3',
+    },
+    sessions: ['dev', 'ops'],
+  },
+  title: {
+    title: 'api',
+    source: 'git remote',
+    remote: 'git@github.com:me/api.git',
+  },
+}
+
+describe('formatDiagnosis', () => {
+  it('should list every section', () => {
+    expect(formatDiagnosis(diagnosis)).toBe(
+      [
+        'Terminal',
+        '  Detected: iTerm2',
+        '  Matched rule: process /Applications/iTerm.app/Contents/MacOS/iTerm2',
+        '  Activates on click: iTerm2',
+        '  Signals:',
+        '    process tree: 500 -zsh',
+        '    process tree: 400 /Applications/iTerm.app/Contents/MacOS/iTerm2 -> iTerm2',
+        '',
+        'Notification app',
+        '  Path: /Apps/MacOSNotifyMCP.app',
+        '  Found: yes',
+        '  Backends: macos-app',
+        '',
+        'tmux',
+        '  Version: tmux 3.4',
+        '  Current pane: dev:1.0 ($1 @2 %3)',
+        '  Sessions: dev, ops',
+        '',
+        'Title',
+        '  Default title: api (from git remote)',
+        '  Git remote: git@github.com:me/api.git',
+      ].join('\n'),
+    )
+  })
+
+  it('should explain a configured terminal and missing tmux', () => {
+    const output = formatDiagnosis({
+      ...diagnosis,
+      terminal: {
+        name: 'WezTerm',
+        detected: 'Unknown',
+        configured: 'WezTerm',
+        signals: [],
+      },
+      tmux: {
+        available: false,
+        error: 'spawn tmux ENOENT',
+        inside: false,
+        sessions: [],
+      },
+    })
+
+    expect(output).toContain('  Configured: WezTerm (detection is skipped)')
+    expect(output).toContain('  Activates on click: first running terminal')
+    expect(output).toContain('    (none)')
+    expect(output).toContain('  Not available: spawn tmux ENOENT')
+    expect(output).toContain('  Current pane: not in tmux')
+    expect(output).toContain('  Sessions: (none)')
+  })
+})
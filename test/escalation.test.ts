@@ -0,0 +1,193 @@
+import {
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { EscalationQueue, type PendingEscalation } from '../src/escalation'
+import type { NotificationRecord } from '../src/history'
+
+describe('EscalationQueue', () => {
+  let dir: string
+  let stateFile: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'macos-notify-escalation-'))
+    stateFile = join(dir, 'escalations.json')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const steps = [
+    { afterMinutes: 5 },
+    { afterMinutes: 10, sound: 'Basso', backends: ['webhook' as const] },
+  ]
+  const start = new Date('2026-10-19T12:00:00.000Z')
+  const minutesLater = (minutes: number) =>
+    new Date(start.getTime() + minutes * 60 * 1000)
+
+  const record: NotificationRecord = {
+    id: 'first-id',
+    timestamp: start.toISOString(),
+    title: 'api',
+    message: 'Deploy?',
+    sound: 'Hero',
+    session: 'dev',
+    priority: 'high',
+    terminal: 'iTerm2',
+    status: 'delivered',
+    deliveries: [{ backend: 'macos-app', ok: true }],
+  }
+
+  // No lock or temp file is left behind
+  const queueFiles = () => readdirSync(dir)
+
+  const writePending = (pending: Partial<PendingEscalation>) =>
+    writeFileSync(
+      stateFile,
+      JSON.stringify({
+        escalations: [
+          {
+            id: 'first-id',
+            ids: ['first-id'],
+            notification: { title: 'api', message: 'Deploy?' },
+            step: 0,
+            dueAt: minutesLater(5).toISOString(),
+            owner: process.pid,
+            ...pending,
+          },
+        ],
+      }),
+    )
+
+  it('should apply to high and critical priority by default', () => {
+    const queue = new EscalationQueue({ steps, stateFile })
+
+    expect(queue.appliesTo('high')).toBe(true)
+    expect(queue.appliesTo('critical')).toBe(true)
+    expect(queue.appliesTo(undefined)).toBe(false)
+    expect(
+      new EscalationQueue({ steps, stateFile, minPriority: 'normal' }).appliesTo(
+        undefined,
+      ),
+    ).toBe(true)
+    expect(new EscalationQueue({ steps: [], stateFile }).appliesTo('high')).toBe(
+      false,
+    )
+  })
+
+  it('should sum the remaining steps', () => {
+    const queue = new EscalationQueue({ steps, stateFile })
+
+    expect(queue.durationMs()).toBe(15 * 60 * 1000)
+    expect(queue.durationMs(1)).toBe(10 * 60 * 1000)
+    expect(queue.durationMs(2)).toBe(0)
+  })
+
+  it('should persist scheduled escalations', () => {
+    new EscalationQueue({ steps, stateFile }).schedule(record, start)
+
+    expect(new EscalationQueue({ steps, stateFile }).list()).toEqual([
+      {
+        id: 'first-id',
+        ids: ['first-id'],
+        notification: {
+          title: 'api',
+          message: 'Deploy?',
+          session: 'dev',
+          priority: 'high',
+        },
+        step: 0,
+        dueAt: minutesLater(5).toISOString(),
+        owner: process.pid,
+      },
+    ])
+  })
+
+  it('should return escalations once their step is due', () => {
+    const queue = new EscalationQueue({ steps, stateFile })
+    queue.schedule(record, start)
+
+    expect(queue.due(minutesLater(4))).toEqual([])
+    expect(queue.due(minutesLater(5))).toHaveLength(1)
+  })
+
+  it('should advance to the next step and end after the last one', () => {
+    const queue = new EscalationQueue({ steps, stateFile })
+    const pending = queue.schedule(record, start)
+
+    queue.advance(pending, 'reminder-id', minutesLater(5))
+    const [next] = queue.list()
+    expect(next).toMatchObject({
+      ids: ['first-id', 'reminder-id'],
+      step: 1,
+      dueAt: minutesLater(15).toISOString(),
+    })
+
+    queue.advance(next, undefined, minutesLater(15))
+    expect(queue.list()).toEqual([])
+  })
+
+  it('should stop when any notification of the escalation is clicked', () => {
+    const queue = new EscalationQueue({ steps, stateFile })
+    queue.advance(queue.schedule(record, start), 'reminder-id', start)
+    queue.schedule({ ...record, id: 'other-id' }, start)
+
+    queue.acknowledge('reminder-id')
+
+    expect(queue.list().map((pending) => pending.id)).toEqual(['other-id'])
+  })
+
+  it('should adopt escalations of exited processes', () => {
+    writePending({ owner: 999_999_999 })
+    const queue = new EscalationQueue({ steps, stateFile })
+
+    const adopted = queue.adopt(minutesLater(1))
+
+    expect(adopted).toHaveLength(1)
+    expect(adopted[0].owner).toBe(process.pid)
+    expect(queue.due(minutesLater(5))).toHaveLength(1)
+  })
+
+  it('should adopt each escalation once', () => {
+    writePending({ owner: 999_999_999 })
+    const first = new EscalationQueue({ steps, stateFile })
+    const second = new EscalationQueue({ steps, stateFile })
+
+    expect(first.adopt(minutesLater(1))).toHaveLength(1)
+    expect(second.adopt(minutesLater(1))).toEqual([])
+    expect(queueFiles()).toEqual(['escalations.json'])
+  })
+
+  it('should leave escalations of running processes alone', () => {
+    writePending({ owner: process.ppid })
+    const queue = new EscalationQueue({ steps, stateFile })
+
+    expect(queue.adopt(minutesLater(1))).toEqual([])
+    expect(queue.due(minutesLater(5))).toEqual([])
+    expect(queue.list()).toHaveLength(1)
+  })
+
+  it('should drop orphaned escalations that already ended', () => {
+    writePending({ owner: 999_999_999 })
+    const queue = new EscalationQueue({ steps, stateFile })
+
+    expect(queue.adopt(minutesLater(16))).toEqual([])
+    expect(queue.list()).toEqual([])
+  })
+
+  it('should treat an unreadable state file as nothing pending', () => {
+    const queue = new EscalationQueue({ steps, stateFile })
+    queue.schedule(record, start)
+    writeFileSync(stateFile, '{')
+
+    expect(queue.list()).toEqual([])
+    expect(readFileSync(stateFile, 'utf-8')).toBe('{')
+  })
+})
@@ -0,0 +1,114 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  formatNotificationRecord,
+  NotificationHistory,
+  type NotificationRecord,
+} from '../src/history'
+
+function record(overrides: Partial<NotificationRecord>): NotificationRecord {
+  return {
+    id: 'id',
+    timestamp: '2026-10-19T12:00:00.000Z',
+    title: 'Build',
+    message: 'Done',
+    sound: 'Glass',
+    terminal: 'iTerm2',
+    status: 'delivered',
+    deliveries: [{ backend: 'macos-app', ok: true }],
+    ...overrides,
+  }
+}
+
+describe('NotificationHistory', () => {
+  let dir: string
+  let history: NotificationHistory
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'macos-notify-history-'))
+    history = new NotificationHistory(join(dir, 'state', 'history.jsonl'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should return nothing before the first notification', () => {
+    expect(history.list()).toEqual([])
+    expect(history.get('missing')).toBeNull()
+  })
+
+  it('should append records and list them newest first', () => {
+    history.append(record({ id: 'a' }))
+    history.append(record({ id: 'b' }))
+
+    expect(history.list().map((r) => r.id)).toEqual(['b', 'a'])
+    expect(history.get('a')?.id).toBe('a')
+  })
+
+  it('should filter by session, time range and text', () => {
+    history.append(
+      record({ id: 'a', session: 'api', timestamp: '2026-10-19T11:00:00Z' }),
+    )
+    history.append(
+      record({
+        id: 'b',
+        session: 'web',
+        message: 'Tests FAILED',
+        timestamp: '2026-10-19T12:30:00Z',
+      }),
+    )
+    history.append(
+      record({ id: 'c', session: 'api', timestamp: '2026-10-19T14:00:00Z' }),
+    )
+
+    expect(history.list({ session: 'api' }).map((r) => r.id)).toEqual([
+      'c',
+      'a',
+    ])
+    expect(
+      history
+        .list({
+          since: new Date('2026-10-19T12:00:00Z'),
+          until: new Date('2026-10-19T13:00:00Z'),
+        })
+        .map((r) => r.id),
+    ).toEqual(['b'])
+    expect(history.list({ text: 'failed' }).map((r) => r.id)).toEqual(['b'])
+    expect(history.list({ limit: 1 }).map((r) => r.id)).toEqual(['c'])
+  })
+
+  it('should return the latest copy of a record', () => {
+    history.append(record({ id: 'a', actions: ['Approve'] }))
+    history.append(record({ id: 'b' }))
+    history.append(
+      record({
+        id: 'a',
+        actions: ['Approve'],
+        response: { action: 'Approve', timestamp: '2026-10-19T12:01:00.000Z' },
+      }),
+    )
+
+    expect(history.list().map((entry) => entry.id)).toEqual(['b', 'a'])
+    expect(history.get('a')?.response?.action).toBe('Approve')
+  })
+
+  it('should skip corrupted lines', () => {
+    const path = join(dir, 'history.jsonl')
+    writeFileSync(path, `${JSON.stringify(record({ id: 'a' }))}\n{"id":"b"`)
+
+    expect(new NotificationHistory(path).list().map((r) => r.id)).toEqual(['a'])
+  })
+
+  it('should format records as one line', () => {
+    expect(
+      formatNotificationRecord(
+        record({ id: 'a', session: 'dev', window: '1', pane: '2' }),
+      ),
+    ).toBe(
+      '- [2026-10-19T12:00:00.000Z] a Build: Done (tmux: dev:1.2) [delivered]',
+    )
+  })
+})
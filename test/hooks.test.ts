@@ -0,0 +1,204 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  buildHookSettings,
+  describeHookEvent,
+  installHooks,
+  parseHookPayload,
+} from '../src/hooks'
+
+describe('hooks', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'macos-notify-hooks-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  describe('parseHookPayload', () => {
+    it('should parse a JSON object and allow empty input', () => {
+      expect(parseHookPayload('{"message":"hi"}')).toEqual({ message: 'hi' })
+      expect(parseHookPayload('  \n')).toEqual({})
+      expect(() => parseHookPayload('42')).toThrow('must be a JSON object')
+      expect(() => parseHookPayload('{')).toThrow()
+    })
+  })
+
+  describe('describeHookEvent', () => {
+    const now = new Date('2026-10-19T12:04:12.000Z')
+
+    it('should describe permission prompts and idle notifications', () => {
+      expect(
+        describeHookEvent('Notification', {
+          message: 'Claude needs your permission to use Bash',
+        }),
+      ).toBe('Waiting for permission to run Bash')
+      expect(
+        describeHookEvent('Notification', {
+          message: 'Claude is waiting for your input',
+        }),
+      ).toBe('Waiting for your input')
+      expect(
+        describeHookEvent('Notification', { message: 'Something else' }),
+      ).toBe('Something else')
+      expect(describeHookEvent('Notification', {})).toBe('Waiting for you')
+    })
+
+    it('should time a finished task from the last prompt', () => {
+      const transcript = join(dir, 'transcript.jsonl')
+      const entry = (type: string, timestamp: string, content: unknown) =>
+        JSON.stringify({ type, timestamp, message: { content } })
+      writeFileSync(
+        transcript,
+        [
+          entry('user', '2026-10-19T11:00:00.000Z', 'Earlier prompt'),
+          entry('user', '2026-10-19T12:00:00.000Z', [
+            { type: 'text', text: 'Fix the tests' },
+          ]),
+          entry('assistant', '2026-10-19T12:01:00.000Z', []),
+          entry('user', '2026-10-19T12:02:00.000Z', [
+            { type: 'tool_result', content: 'ok' },
+          ]),
+          '{ partial',
+        ].join('\n'),
+      )
+
+      expect(
+        describeHookEvent('Stop', { transcript_path: transcript }, now),
+      ).toBe('Task finished in 4m 12s')
+      expect(
+        describeHookEvent('SubagentStop', { transcript_path: transcript }, now),
+      ).toBe('Subagent finished in 4m 12s')
+    })
+
+    it('should leave out the duration when it cannot be told', () => {
+      expect(
+        describeHookEvent('Stop', { transcript_path: join(dir, 'missing') }),
+      ).toBe('Task finished')
+      expect(describeHookEvent('Stop', {})).toBe('Task finished')
+    })
+
+    it('should describe tool calls by their main argument', () => {
+      expect(
+        describeHookEvent('PreToolUse', {
+          tool_name: 'Bash',
+          tool_input: { command: 'npm test\nnpm run lint', description: 'x' },
+        }),
+      ).toBe('Running Bash: npm test')
+      expect(
+        describeHookEvent('PostToolUse', {
+          tool_name: 'Edit',
+          tool_input: { file_path: '/src/cli.ts', old_string: 'a' },
+        }),
+      ).toBe('Finished Edit: /src/cli.ts')
+      expect(
+        describeHookEvent('PreToolUse', {
+          tool_name: 'Bash',
+          tool_input: { command: 'x'.repeat(100) },
+        }),
+      ).toBe(`Running Bash: ${'x'.repeat(79)}…`)
+      expect(describeHookEvent('PreToolUse', { tool_name: 'TodoWrite' })).toBe(
+        'Running TodoWrite',
+      )
+    })
+
+    it('should fall back to the payload message or the event name', () => {
+      expect(describeHookEvent('SessionEnd', { message: 'Bye' })).toBe('Bye')
+      expect(describeHookEvent('PreCompact', {})).toBe('PreCompact')
+    })
+  })
+
+  describe('installHooks', () => {
+    it('should build a settings snippet', () => {
+      expect(buildHookSettings(['Stop'])).toEqual({
+        hooks: {
+          Stop: [
+            {
+              hooks: [{ type: 'command', command: 'macos-notify-cli hook Stop' }],
+            },
+          ],
+        },
+      })
+    })
+
+    it('should add hooks once and keep other settings', () => {
+      const settingsPath = join(dir, '.claude', 'settings.json')
+
+      expect(installHooks(settingsPath, ['Notification', 'Stop'])).toEqual([
+        'Notification',
+        'Stop',
+      ])
+      const settings = JSON.parse(readFileSync(settingsPath, 'utf-8'))
+      settings.model = 'opus'
+      settings.hooks.Stop.unshift({
+        hooks: [{ type: 'command', command: './lint.sh' }],
+      })
+      writeFileSync(settingsPath, JSON.stringify(settings))
+
+      expect(installHooks(settingsPath, ['Stop', 'PreToolUse'])).toEqual([
+        'PreToolUse',
+      ])
+      const updated = JSON.parse(readFileSync(settingsPath, 'utf-8'))
+      expect(updated.model).toBe('opus')
+      expect(updated.hooks.Stop).toHaveLength(2)
+      expect(Object.keys(updated.hooks)).toEqual([
+        'Notification',
+        'Stop',
+        'PreToolUse',
+      ])
+    })
+
+    it('should not overwrite a settings file it cannot read', () => {
+      const settingsPath = join(dir, 'settings.json')
+      writeFileSync(settingsPath, '{ // comment')
+
+      expect(() => installHooks(settingsPath, ['Stop'])).toThrow(
+        /Failed to read/,
+      )
+      expect(readFileSync(settingsPath, 'utf-8')).toBe('{ // comment')
+    })
+
+    it('should treat a null settings file as empty', () => {
+      const settingsPath = join(dir, 'settings.json')
+      writeFileSync(settingsPath, 'null')
+
+      expect(installHooks(settingsPath, ['Stop'])).toEqual(['Stop'])
+      expect(JSON.parse(readFileSync(settingsPath, 'utf-8'))).toEqual(
+        buildHookSettings(['Stop']),
+      )
+    })
+
+    it('should not overwrite settings of an unexpected shape', () => {
+      const settingsPath = join(dir, 'settings.json')
+      for (const [content, problem] of [
+        ['[]', 'settings must be an object'],
+        ['{"hooks":"none"}', '"hooks" must be an object'],
+        ['{"hooks":{"Stop":{"command":"x"}}}', '"hooks.Stop" must be an array'],
+      ]) {
+        writeFileSync(settingsPath, content)
+
+        expect(() => installHooks(settingsPath, ['Stop'])).toThrow(
+          `Failed to read ${settingsPath}: ${problem}`,
+        )
+        expect(readFileSync(settingsPath, 'utf-8')).toBe(content)
+      }
+    })
+
+    it('should skip matchers without a hooks array', () => {
+      const settingsPath = join(dir, 'settings.json')
+      writeFileSync(
+        settingsPath,
+        JSON.stringify({ hooks: { Stop: [null, { matcher: '*' }] } }),
+      )
+
+      expect(installHooks(settingsPath, ['Stop'])).toEqual(['Stop'])
+      const updated = JSON.parse(readFileSync(settingsPath, 'utf-8'))
+      expect(updated.hooks.Stop).toHaveLength(3)
+    })
+  })
+})
@@ -0,0 +1,191 @@
+import { spawnSync } from 'node:child_process'
+import {
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs'
+import { request } from 'node:http'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  getHttpToken,
+  type HttpServer,
+  parsePort,
+  startHttpServer,
+} from '../src/http'
+
+describe('http', () => {
+  const token = 'secret-token'
+  let dir: string
+  let http: HttpServer | undefined
+  let servers: number
+
+  const createServer = () => {
+    servers++
+    const server = new Server(
+      { name: 'test', version: '1.0.0' },
+      { capabilities: { tools: {} } },
+    )
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [{ name: 'ping', inputSchema: { type: 'object' } }],
+    }))
+    return server
+  }
+
+  const connectClient = async (url: string) => {
+    const client = new Client({ name: 'agent', version: '1.0.0' })
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(url), {
+        requestInit: { headers: { Authorization: `Bearer ${token}` } },
+      }),
+    )
+    return client
+  }
+
+  const postToSocket = (socketPath: string) =>
+    new Promise<number | undefined>((resolve, reject) => {
+      request({ socketPath, path: '/mcp', method: 'POST' }, (response) => {
+        response.resume()
+        resolve(response.statusCode)
+      })
+        .on('error', reject)
+        .end('{}')
+    })
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'macos-notify-http-'))
+    servers = 0
+  })
+
+  afterEach(async () => {
+    await http?.close()
+    http = undefined
+    rmSync(dir, { recursive: true, force: true })
+    delete process.env.MACOS_NOTIFY_TOKEN
+  })
+
+  it('should serve several clients with a server each', async () => {
+    http = await startHttpServer(createServer, { port: 0, token })
+
+    const first = await connectClient(http.url)
+    const second = await connectClient(http.url)
+
+    expect((await first.listTools()).tools.map((tool) => tool.name)).toEqual([
+      'ping',
+    ])
+    expect((await second.listTools()).tools).toHaveLength(1)
+    expect(servers).toBe(2)
+    await first.close()
+    await second.close()
+  })
+
+  it('should reject requests without the bearer token', async () => {
+    http = await startHttpServer(createServer, { port: 0, token })
+
+    const response = await fetch(http.url, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer wrong' },
+      body: '{}',
+    })
+
+    expect(response.status).toBe(401)
+    expect(response.headers.get('www-authenticate')).toBe('Bearer')
+    expect((await fetch(http.url, { method: 'POST' })).status).toBe(401)
+    expect(servers).toBe(0)
+  })
+
+  it('should reject unknown paths, sessions and non-initialize requests', async () => {
+    http = await startHttpServer(createServer, { port: 0, token })
+    const post = (url: string, body: string, headers = {}) =>
+      fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+          ...headers,
+        },
+        body,
+      })
+
+    expect((await post(http.url.replace('/mcp', '/other'), '{}')).status).toBe(
+      404,
+    )
+    expect(
+      (await post(http.url, '{}', { 'mcp-session-id': 'gone' })).status,
+    ).toBe(404)
+    expect(
+      (
+        await post(
+          http.url,
+          JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+        )
+      ).status,
+    ).toBe(400)
+    expect((await post(http.url, '{')).status).toBe(400)
+  })
+
+  it('should listen on a Unix socket only the user can access', async () => {
+    const socketPath = join(dir, 'mcp.sock')
+    http = await startHttpServer(createServer, { socketPath, token })
+
+    expect(http.url).toBe(`unix:${socketPath}`)
+    expect(statSync(socketPath).mode & 0o777).toBe(0o600)
+    expect(await postToSocket(socketPath)).toBe(401)
+
+    await expect(
+      startHttpServer(createServer, { socketPath, token }),
+    ).rejects.toThrow('already in use')
+  })
+
+  it('should replace a socket left behind by an exited server', async () => {
+    const socketPath = join(dir, 'mcp.sock')
+    // A killed process leaves its socket file behind
+    spawnSync(process.execPath, [
+      '-e',
+      `require('node:net').createServer().listen(${JSON.stringify(socketPath)}, () => process.kill(process.pid, 'SIGKILL'))`,
+    ])
+    expect(statSync(socketPath).isSocket()).toBe(true)
+
+    http = await startHttpServer(createServer, { socketPath, token })
+
+    expect(await postToSocket(socketPath)).toBe(401)
+  })
+
+  it('should not replace files that are not sockets', async () => {
+    const socketPath = join(dir, 'notes.txt')
+    writeFileSync(socketPath, 'keep me')
+
+    await expect(
+      startHttpServer(createServer, { socketPath, token }),
+    ).rejects.toThrow('exists and is not a socket')
+    expect(readFileSync(socketPath, 'utf-8')).toBe('keep me')
+  })
+
+  it('should generate a token once and keep it private', () => {
+    const path = join(dir, 'state', 'http-token')
+
+    const token = getHttpToken(path)
+
+    expect(token).toMatch(/^[0-9a-f]{64}$/)
+    expect(getHttpToken(path)).toBe(token)
+    expect(readFileSync(path, 'utf-8')).toBe(`${token}\n`)
+    expect(statSync(path).mode & 0o777).toBe(0o600)
+
+    process.env.MACOS_NOTIFY_TOKEN = 'from-env'
+    expect(getHttpToken(path)).toBe('from-env')
+  })
+
+  it('should validate ports', () => {
+    expect(parsePort('8765')).toBe(8765)
+    expect(() => parsePort('')).toThrow('Invalid port: ')
+    expect(() => parsePort('http')).toThrow('Invalid port: http')
+    expect(() => parsePort('70000')).toThrow('Invalid port: 70000')
+  })
+})
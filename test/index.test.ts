@@ -1,7 +1,13 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js'
 
 describe('MCP Server', () => {
@@ -18,12 +24,85 @@ describe('MCP Server', () => {
 
     // Create mock notifier
     mockNotifier = {
-      sendNotification: vi.fn().mockResolvedValue(undefined),
+      sendNotification: vi
+        .fn()
+        .mockResolvedValue({ id: 'test-id', status: 'delivered' }),
       listSessions: vi.fn().mockResolvedValue(['session1', 'session2']),
+      listSessionInfo: vi.fn().mockResolvedValue([
+        { name: 'session1', windows: 2, attached: true },
+        { name: 'session2', windows: 1, attached: false },
+      ]),
       sessionExists: vi.fn().mockResolvedValue(true),
-      getCurrentTmuxInfo: vi
-        .fn()
-        .mockResolvedValue({ session: 'current', window: '1', pane: '0' }),
+      resolveTarget: vi.fn(async ({ session, window, pane }) => ({
+        session,
+        window,
+        pane,
+      })),
+      getCurrentTmuxInfo: vi.fn().mockResolvedValue({
+        session: 'current',
+        window: '1',
+        pane: '0',
+        sessionId: '$1',
+        windowId: '@2',
+        paneId: '%3',
+      }),
+      listWindows: vi.fn().mockResolvedValue([
+        {
+          session: 'dev',
+          index: '1',
+          name: 'tests',
+          active: true,
+          panes: 2,
+          clients: ['/dev/ttys001'],
+        },
+      ]),
+      listPanes: vi.fn().mockResolvedValue([
+        {
+          session: 'dev',
+          window: '1',
+          windowName: 'tests',
+          index: '0',
+          title: 'macbook',
+          command: 'node',
+          cwd: '/src/app',
+          pid: 4242,
+          active: true,
+          windowActive: true,
+        },
+      ]),
+      listNotifications: vi.fn().mockResolvedValue([]),
+      getNotification: vi.fn().mockResolvedValue(null),
+      refreshTerminalDetection: vi.fn().mockResolvedValue('iTerm2'),
+      processEscalations: vi.fn().mockResolvedValue([]),
+      deliverScheduled: vi.fn().mockResolvedValue([]),
+      flushDigest: vi.fn().mockResolvedValue(null),
+      scheduleNotification: vi.fn(async (options, dueAt) => ({
+        id: 'scheduled-id',
+        dueAt: dueAt.toISOString(),
+        createdAt: '2026-10-19T12:00:00.000Z',
+        notification: { ...options, title: 'api' },
+      })),
+      listScheduled: vi.fn().mockResolvedValue([]),
+      cancelScheduled: vi.fn().mockResolvedValue(null),
+      askUser: vi.fn().mockResolvedValue({
+        record: { id: 'ask-id', status: 'delivered' },
+        response: { action: 'Approve', timestamp: '2026-10-19T12:00:00.000Z' },
+      }),
+      diagnose: vi.fn().mockResolvedValue({
+        terminal: {
+          name: 'iTerm2',
+          detected: 'iTerm2',
+          rule: 'env TERM_PROGRAM=iTerm.app',
+          app: 'iTerm2',
+          signals: [
+            { source: 'env', value: 'TERM_PROGRAM=iTerm.app', terminal: 'iTerm2' },
+          ],
+        },
+        app: { path: '/Apps/MacOSNotifyMCP.app', found: true },
+        backends: ['macos-app'],
+        tmux: { available: false, error: 'spawn tmux ENOENT', inside: false, sessions: [] },
+        title: { title: 'api', source: 'git remote', remote: 'git@github.com:me/api.git' },
+      }),
     }
 
     // Mock the notifier module
@@ -39,6 +118,8 @@ describe('MCP Server', () => {
         handlers.set(schema, handler)
       }),
       connect: vi.fn(),
+      sendResourceListChanged: vi.fn().mockResolvedValue(undefined),
+      sendResourceUpdated: vi.fn().mockResolvedValue(undefined),
     }
 
     // Mock MCP SDK
@@ -72,12 +153,46 @@ describe('MCP Server', () => {
 
       const response = await listToolsHandler({ method: 'tools/list' })
       
-      expect(response.tools).toHaveLength(3)
+      expect(response.tools).toHaveLength(13)
       
       const toolNames = response.tools.map((tool: any) => tool.name)
       expect(toolNames).toContain('send_notification')
       expect(toolNames).toContain('list_tmux_sessions')
+      expect(toolNames).toContain('list_tmux_windows')
+      expect(toolNames).toContain('list_tmux_panes')
       expect(toolNames).toContain('get_current_tmux_info')
+      expect(toolNames).toContain('refresh_terminal_detection')
+      expect(toolNames).toContain('diagnose')
+      expect(toolNames).toContain('ask_user')
+      expect(toolNames).toContain('list_notifications')
+      expect(toolNames).toContain('get_notification')
+      expect(toolNames).toContain('schedule_notification')
+      expect(toolNames).toContain('list_scheduled_notifications')
+      expect(toolNames).toContain('cancel_notification')
+    })
+
+    it('should declare an output schema for every tool', async () => {
+      const { handlers } = await loadServer()
+
+      const listToolsHandler = handlers.get(ListToolsRequestSchema)
+      const response = await listToolsHandler({ method: 'tools/list' })
+
+      for (const tool of response.tools) {
+        expect(tool.outputSchema?.type).toBe('object')
+      }
+    })
+
+    it('should not allow unknown arguments in any input schema', async () => {
+      const { handlers } = await loadServer()
+
+      const listToolsHandler = handlers.get(ListToolsRequestSchema)
+      const response = await listToolsHandler({ method: 'tools/list' })
+
+      for (const tool of response.tools) {
+        expect(tool.inputSchema.type).toBe('object')
+        expect(tool.inputSchema.additionalProperties).toBe(false)
+        expect(tool.inputSchema.$schema).toBeUndefined()
+      }
     })
 
     it('should provide correct schema for send_notification tool', async () => {
@@ -132,6 +247,91 @@ describe('MCP Server', () => {
         expect(response.content).toHaveLength(1)
         expect(response.content[0].type).toBe('text')
         expect(response.content[0].text).toBe('Notification sent: "Test notification"')
+        expect(response.structuredContent).toEqual({
+          id: 'test-id',
+          status: 'delivered',
+        })
+      })
+
+      it('should wait for a click when asked to', async () => {
+        mockNotifier.sendNotification.mockResolvedValueOnce({
+          id: 'test-id',
+          status: 'delivered',
+          acknowledgement: 'clicked',
+        })
+
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'send_notification',
+            arguments: {
+              message: 'Deploy ready?',
+              waitForClick: true,
+              timeout: 60,
+            },
+          },
+        })
+
+        expect(mockNotifier.sendNotification).toHaveBeenCalledWith(
+          expect.objectContaining({ waitForClick: true, timeoutMs: 60000 }),
+        )
+        expect(response.content[0].text).toBe(
+          'Notification sent: "Deploy ready?". The user clicked it',
+        )
+        expect(response.structuredContent.acknowledgement).toBe('clicked')
+      })
+
+      it('should report the wait timeout in seconds', async () => {
+        mockNotifier.sendNotification.mockResolvedValueOnce({
+          id: 'test-id',
+          status: 'delivered',
+          acknowledgement: 'timeout',
+        })
+
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'send_notification',
+            arguments: { message: 'Deploy ready?', waitForClick: true },
+          },
+        })
+
+        expect(mockNotifier.sendNotification).toHaveBeenCalledWith(
+          expect.objectContaining({ waitForClick: true, timeoutMs: 300000 }),
+        )
+        expect(response.content[0].text).toBe(
+          'Notification sent: "Deploy ready?". No click within 300s',
+        )
+      })
+
+      it('should return the resolved target in structured content', async () => {
+        const record = {
+          id: 'abc',
+          timestamp: '2026-10-19T12:00:00.000Z',
+          title: 'Build',
+          message: 'Done',
+          sound: 'Glass',
+          session: 'work',
+          window: '2',
+          pane: '1',
+          terminal: 'iTerm2',
+          status: 'delivered',
+          deliveries: [{ backend: 'macos-app', ok: true }],
+        }
+        mockNotifier.sendNotification.mockResolvedValue(record)
+
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'send_notification',
+            arguments: { message: 'Done', session: 'work', window: '2', pane: '1' },
+          },
+        })
+
+        expect(response.structuredContent).toEqual({
+          ...record,
+          target: 'work:2.1',
+        })
       })
 
       it('should send notification with all parameters', async () => {
@@ -163,6 +363,132 @@ describe('MCP Server', () => {
         expect(response.content[0].text).toBe('Notification sent: "Full notification" (tmux: work)')
       })
 
+      it('should report suppressed notifications', async () => {
+        mockNotifier.sendNotification.mockResolvedValue({
+          id: 'test-id',
+          status: 'suppressed',
+          reason: 'duplicate of a notification sent 2s ago (x2)',
+        })
+
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'send_notification',
+            arguments: { message: 'Again' },
+          },
+        })
+
+        expect(response.content[0].text).toBe(
+          'Notification suppressed: duplicate of a notification sent 2s ago (x2). It was not delivered; avoid sending the same notification repeatedly.',
+        )
+      })
+
+      it('should resolve named targets before sending', async () => {
+        mockNotifier.resolveTarget.mockResolvedValue({
+          session: 'dev',
+          window: '1',
+          pane: '0',
+          sessionId: '$1',
+          windowId: '@4',
+          paneId: '%9',
+        })
+
+        await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'send_notification',
+            arguments: { message: 'Done', window: 'tests', command: 'npm test' },
+          },
+        })
+
+        expect(mockNotifier.resolveTarget).toHaveBeenCalledWith({
+          window: 'tests',
+          command: 'npm test',
+        })
+        expect(mockNotifier.sendNotification).toHaveBeenCalledWith({
+          message: 'Done',
+          session: 'dev',
+          window: '1',
+          pane: '0',
+          sessionId: '$1',
+          windowId: '@4',
+          paneId: '%9',
+        })
+      })
+
+      it('should report targets that cannot be resolved', async () => {
+        mockNotifier.resolveTarget.mockRejectedValue(
+          new Error("No pane is running 'cargo'. Available panes: dev:0.0 (vim)"),
+        )
+
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'send_notification',
+            arguments: { message: 'Done', command: 'cargo' },
+          },
+        })
+
+        expect(response.isError).toBe(true)
+        expect(response.content[0].text).toBe(
+          "Error: No pane is running 'cargo'. Available panes: dev:0.0 (vim)",
+        )
+        expect(mockNotifier.sendNotification).not.toHaveBeenCalled()
+      })
+
+      it('should report deferred notifications', async () => {
+        mockNotifier.sendNotification.mockResolvedValue({
+          id: 'test-id',
+          status: 'deferred',
+          reason: 'quiet hours (22:00-07:00)',
+        })
+
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'send_notification',
+            arguments: { message: 'Later' },
+          },
+        })
+
+        expect(mockNotifier.sendNotification).toHaveBeenCalledWith({
+          message: 'Later',
+        })
+        expect(response.content[0].text).toBe(
+          'Notification deferred: quiet hours (22:00-07:00). It will be delivered in a digest when the do-not-disturb period ends.',
+        )
+      })
+
+      it('should pass the priority through', async () => {
+        await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'send_notification',
+            arguments: { message: 'Need approval', priority: 'critical' },
+          },
+        })
+
+        expect(mockNotifier.sendNotification).toHaveBeenCalledWith({
+          message: 'Need approval',
+          priority: 'critical',
+        })
+      })
+
+      it('should reject unknown priorities', async () => {
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'send_notification',
+            arguments: { message: 'Hi', priority: 'urgent' },
+          },
+        })
+
+        expect(response.content[0].text).toBe(
+          'Error: Invalid priority: urgent (expected one of: low, normal, high, critical)',
+        )
+        expect(mockNotifier.sendNotification).not.toHaveBeenCalled()
+      })
+
       it('should handle missing required message parameter', async () => {
         const request = {
           method: 'tools/call',
@@ -197,29 +523,101 @@ describe('MCP Server', () => {
         expect(response.content[0].text).toBe('Error: Failed to send')
       })
 
-      it('should convert non-string parameters to strings', async () => {
-        const request = {
+      it('should reject arguments of the wrong type', async () => {
+        const response = await callToolHandler({
           method: 'tools/call',
           params: {
             name: 'send_notification',
-            arguments: {
-              message: 123,
-              title: true,
-              window: 456,
-              pane: null,
-            } as any,
+            arguments: { message: 123, title: true, pane: null } as any,
           },
-        }
+        })
 
-        const response = await callToolHandler(request)
+        expect(response.isError).toBe(true)
+        expect(response.content[0].text).toBe(
+          'Error: message must be a string; title must be a string; pane must be a string or a non-negative integer',
+        )
+        expect(response._meta.error).toEqual({
+          code: 'invalid_arguments',
+          issues: [
+            { path: 'message', message: 'message must be a string' },
+            { path: 'title', message: 'title must be a string' },
+            {
+              path: 'pane',
+              message: 'pane must be a string or a non-negative integer',
+            },
+          ],
+        })
+        expect(mockNotifier.sendNotification).not.toHaveBeenCalled()
+      })
 
-        expect(mockNotifier.sendNotification).toHaveBeenCalledWith({
-          message: '123',
-          title: 'true',
-          window: '456',
-          // pane is not included because null is filtered out
+      it('should reject unknown arguments', async () => {
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'send_notification',
+            arguments: { message: 'Hi', urgency: 'high' },
+          },
+        })
+
+        expect(response.isError).toBe(true)
+        expect(response.content[0].text).toBe('Error: Unknown argument: urgency')
+        expect(response._meta.error.code).toBe('invalid_arguments')
+        expect(mockNotifier.sendNotification).not.toHaveBeenCalled()
+      })
+
+      it('should accept window and pane indexes as numbers', async () => {
+        await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'send_notification',
+            arguments: { message: 'Hi', session: 'dev', window: 2, pane: 0 },
+          },
+        })
+
+        expect(mockNotifier.resolveTarget).toHaveBeenCalledWith({
+          session: 'dev',
+          window: '2',
+          pane: '0',
+        })
+      })
+
+      it('should report sessions that do not exist with their code', async () => {
+        const { SessionNotFoundError } = await import('../src/errors')
+        mockNotifier.resolveTarget.mockRejectedValue(
+          new SessionNotFoundError(
+            "Session 'nope' does not exist. Available sessions: dev",
+            'nope',
+            ['dev'],
+          ),
+        )
+
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'send_notification',
+            arguments: { message: 'Done', session: 'nope' },
+          },
+        })
+
+        expect(response.isError).toBe(true)
+        expect(response._meta.error).toEqual({
+          code: 'session_not_found',
+          session: 'nope',
+          candidates: ['dev'],
         })
       })
+
+      it('should report unexpected errors as internal errors', async () => {
+        mockNotifier.sendNotification.mockRejectedValue(new Error('Boom'))
+
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: { name: 'send_notification', arguments: { message: 'Hi' } },
+        })
+
+        expect(response.isError).toBe(true)
+        expect(response._meta.error).toEqual({ code: 'internal_error' })
+      })
     })
 
     describe('list_tmux_sessions', () => {
@@ -234,15 +632,21 @@ describe('MCP Server', () => {
 
         const response = await callToolHandler(request)
 
-        expect(mockNotifier.listSessions).toHaveBeenCalled()
+        expect(mockNotifier.listSessionInfo).toHaveBeenCalled()
         expect(response.content).toHaveLength(1)
         expect(response.content[0].type).toBe('text')
         expect(response.content[0].text).toContain('session1')
         expect(response.content[0].text).toContain('session2')
+        expect(response.structuredContent).toEqual({
+          sessions: [
+            { name: 'session1', windows: 2, attached: true },
+            { name: 'session2', windows: 1, attached: false },
+          ],
+        })
       })
 
       it('should handle empty session list', async () => {
-        mockNotifier.listSessions.mockResolvedValue([])
+        mockNotifier.listSessionInfo.mockResolvedValue([])
 
         const request = {
           method: 'tools/call',
@@ -255,10 +659,11 @@ describe('MCP Server', () => {
         const response = await callToolHandler(request)
 
         expect(response.content[0].text).toBe('No tmux sessions found')
+        expect(response.structuredContent).toEqual({ sessions: [] })
       })
 
       it('should handle errors when listing sessions', async () => {
-        mockNotifier.listSessions.mockRejectedValue(
+        mockNotifier.listSessionInfo.mockRejectedValue(
           new Error('Tmux not available'),
         )
 
@@ -272,6 +677,210 @@ describe('MCP Server', () => {
 
         const response = await callToolHandler(request)
         expect(response.content[0].text).toBe('Error: Tmux not available')
+        expect(response.isError).toBe(true)
+      })
+
+      it('should not require arguments for tools without input', async () => {
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: { name: 'list_tmux_sessions' },
+        })
+
+        expect(response.isError).toBeUndefined()
+        expect(mockNotifier.listSessionInfo).toHaveBeenCalled()
+      })
+    })
+
+    describe('list_tmux_windows', () => {
+      it('should list windows of a session', async () => {
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: { name: 'list_tmux_windows', arguments: { session: 'dev' } },
+        })
+
+        expect(mockNotifier.listWindows).toHaveBeenCalledWith('dev')
+        expect(response.content[0].text).toBe(
+          'Available tmux windows:\n- dev:1 tests (2 panes, active, clients: /dev/ttys001)',
+        )
+        expect(response.structuredContent.windows).toHaveLength(1)
+      })
+    })
+
+    describe('list_tmux_panes', () => {
+      it('should list panes with their command and directory', async () => {
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'list_tmux_panes',
+            arguments: { session: 'dev', window: '1' },
+          },
+        })
+
+        expect(mockNotifier.listPanes).toHaveBeenCalledWith({
+          session: 'dev',
+          window: '1',
+        })
+        expect(response.content[0].text).toBe(
+          'Available tmux panes:\n- dev:1.0 node in /src/app "macbook" (active)',
+        )
+        expect(response.structuredContent.panes[0]).toMatchObject({
+          command: 'node',
+          cwd: '/src/app',
+        })
+      })
+
+      it('should require a session for the window filter', async () => {
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: { name: 'list_tmux_panes', arguments: { window: '1' } },
+        })
+
+        expect(response.isError).toBe(true)
+        expect(response.content[0].text).toBe(
+          'Error: The window filter requires a session',
+        )
+      })
+
+      it('should report when no panes are found', async () => {
+        mockNotifier.listPanes.mockResolvedValue([])
+
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: { name: 'list_tmux_panes', arguments: {} },
+        })
+
+        expect(response.content[0].text).toBe('No tmux panes found')
+        expect(response.structuredContent).toEqual({ panes: [] })
+      })
+    })
+
+    describe('refresh_terminal_detection', () => {
+      it('should detect the terminal again', async () => {
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: { name: 'refresh_terminal_detection', arguments: {} },
+        })
+
+        expect(mockNotifier.refreshTerminalDetection).toHaveBeenCalled()
+        expect(response.content[0].text).toBe('Detected terminal: iTerm2')
+        expect(response.structuredContent).toEqual({
+          terminal: 'iTerm2',
+          configured: false,
+        })
+      })
+    })
+
+    describe('ask_user', () => {
+      it('should return the action the user chose', async () => {
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'ask_user',
+            arguments: {
+              message: 'Deploy to production?',
+              actions: ['Approve', 'Reject'],
+              timeout: 60,
+            },
+          },
+        })
+
+        expect(mockNotifier.askUser).toHaveBeenCalledWith({
+          message: 'Deploy to production?',
+          title: undefined,
+          sound: undefined,
+          actions: ['Approve', 'Reject'],
+          priority: 'high',
+          timeoutMs: 60000,
+        })
+        expect(response.content[0].text).toBe('User chose: Approve')
+        expect(response.structuredContent).toEqual({
+          id: 'ask-id',
+          status: 'delivered',
+          answered: true,
+          action: 'Approve',
+          text: undefined,
+        })
+      })
+
+      it('should default to yes and no buttons', async () => {
+        await callToolHandler({
+          method: 'tools/call',
+          params: { name: 'ask_user', arguments: { message: 'Continue?' } },
+        })
+
+        expect(mockNotifier.askUser).toHaveBeenCalledWith(
+          expect.objectContaining({
+            actions: ['Yes', 'No'],
+            timeoutMs: 300000,
+          }),
+        )
+      })
+
+      it('should explain why there is no answer', async () => {
+        mockNotifier.askUser.mockResolvedValueOnce({
+          record: { id: 'ask-id', status: 'delivered' },
+          response: null,
+          reason: 'no response within 300s',
+        })
+
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'ask_user',
+            arguments: { message: 'Which branch?', reply: true },
+          },
+        })
+
+        // A reply field alone needs no buttons
+        const options = mockNotifier.askUser.mock.calls[0][0]
+        expect(options.reply).toBe(true)
+        expect(options.actions).toBeUndefined()
+        expect(response.content[0].text).toBe(
+          'No answer: no response within 300s',
+        )
+        expect(response.structuredContent).toEqual({
+          id: 'ask-id',
+          status: 'delivered',
+          answered: false,
+          reason: 'no response within 300s',
+        })
+      })
+
+      it('should reject an invalid timeout', async () => {
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'ask_user',
+            arguments: { message: 'Continue?', timeout: -1 },
+          },
+        })
+
+        expect(response.isError).toBe(true)
+        expect(response.content[0].text).toBe('Error: Invalid timeout: -1')
+      })
+    })
+
+    describe('diagnose', () => {
+      it('should report the detection signals as text and structured content', async () => {
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: { name: 'diagnose', arguments: {} },
+        })
+
+        expect(mockNotifier.diagnose).toHaveBeenCalled()
+        expect(response.content[0].text).toContain(
+          'Matched rule: env TERM_PROGRAM=iTerm.app',
+        )
+        expect(response.content[0].text).toContain(
+          'Not available: spawn tmux ENOENT',
+        )
+        expect(response.structuredContent.terminal.signals).toEqual([
+          { source: 'env', value: 'TERM_PROGRAM=iTerm.app', terminal: 'iTerm2' },
+        ])
+        expect(response.structuredContent.app).toEqual({
+          path: '/Apps/MacOSNotifyMCP.app',
+          found: true,
+        })
       })
     })
 
@@ -294,6 +903,16 @@ describe('MCP Server', () => {
         expect(text).toContain('Session: current')
         expect(text).toContain('Window: 1')
         expect(text).toContain('Pane: 0')
+        expect(text).toContain('Pane: 0 (%3)')
+        expect(response.structuredContent).toEqual({
+          inTmux: true,
+          session: 'current',
+          window: '1',
+          pane: '0',
+          sessionId: '$1',
+          windowId: '@2',
+          paneId: '%3',
+        })
       })
 
       it('should handle when not in tmux session', async () => {
@@ -310,6 +929,7 @@ describe('MCP Server', () => {
         const response = await callToolHandler(request)
 
         expect(response.content[0].text).toBe('Not in a tmux session')
+        expect(response.structuredContent).toEqual({ inTmux: false })
       })
 
       it('should handle errors when getting tmux info', async () => {
@@ -330,6 +950,236 @@ describe('MCP Server', () => {
       })
     })
 
+    describe('list_notifications', () => {
+      const record = {
+        id: 'abc',
+        timestamp: '2026-10-19T12:00:00.000Z',
+        title: 'Build',
+        message: 'Done',
+        sound: 'Glass',
+        session: 'work',
+        terminal: 'iTerm2',
+        status: 'delivered',
+        deliveries: [{ backend: 'macos-app', ok: true }],
+      }
+
+      it('should list notifications with filters', async () => {
+        mockNotifier.listNotifications.mockResolvedValue([record])
+
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'list_notifications',
+            arguments: {
+              session: 'work',
+              since: '2026-10-19T11:00:00Z',
+              query: 'build',
+            },
+          },
+        })
+
+        expect(mockNotifier.listNotifications).toHaveBeenCalledWith({
+          session: 'work',
+          since: new Date('2026-10-19T11:00:00Z'),
+          until: undefined,
+          text: 'build',
+          limit: 20,
+        })
+        expect(response.content[0].text).toBe(
+          'Notifications:\n- [2026-10-19T12:00:00.000Z] abc Build: Done (tmux: work) [delivered]',
+        )
+        expect(response.structuredContent).toEqual({
+          notifications: [{ ...record, target: 'work' }],
+        })
+      })
+
+      it('should handle an empty history', async () => {
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: { name: 'list_notifications', arguments: {} },
+        })
+
+        expect(response.content[0].text).toBe('No notifications found')
+      })
+
+      it('should reject invalid times', async () => {
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: { name: 'list_notifications', arguments: { since: 'later' } },
+        })
+
+        expect(response.content[0].text).toContain('Error: Invalid since: later')
+      })
+
+      it('should get a notification by id', async () => {
+        mockNotifier.getNotification.mockResolvedValue(record)
+
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: { name: 'get_notification', arguments: { id: 'abc' } },
+        })
+
+        expect(mockNotifier.getNotification).toHaveBeenCalledWith('abc')
+        expect(JSON.parse(response.content[0].text)).toEqual(record)
+        expect(response.structuredContent).toEqual({
+          ...record,
+          target: 'work',
+        })
+      })
+
+      it('should report unknown notification ids', async () => {
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: { name: 'get_notification', arguments: { id: 'nope' } },
+        })
+
+        expect(response.content[0].text).toBe(
+          "Error: Notification 'nope' not found",
+        )
+        expect(response.isError).toBe(true)
+      })
+    })
+
+    describe('scheduled notifications', () => {
+      const scheduled = {
+        id: 'scheduled-id',
+        dueAt: '2026-10-19T12:15:00.000Z',
+        createdAt: '2026-10-19T12:00:00.000Z',
+        notification: { title: 'api', message: 'Check the deploy' },
+      }
+
+      it('should schedule a notification after a delay', async () => {
+        const before = Date.now()
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'schedule_notification',
+            arguments: { message: 'Check the deploy', in: '15m' },
+          },
+        })
+
+        const [options, dueAt] = mockNotifier.scheduleNotification.mock.calls[0]
+        expect(options).toEqual({ message: 'Check the deploy' })
+        expect(dueAt.getTime() - before).toBeGreaterThanOrEqual(15 * 60 * 1000)
+        expect(dueAt.getTime() - before).toBeLessThan(16 * 60 * 1000)
+        expect(response.content[0].text).toBe(
+          `Notification scheduled for ${dueAt.toISOString()} (id: scheduled-id)`,
+        )
+        expect(response.structuredContent).toMatchObject({
+          id: 'scheduled-id',
+          notification: { title: 'api', message: 'Check the deploy' },
+        })
+      })
+
+      it('should schedule a notification at a time', async () => {
+        const at = new Date(Date.now() + 60 * 60 * 1000).toISOString()
+        await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'schedule_notification',
+            arguments: { message: 'Standup', at, session: 'dev' },
+          },
+        })
+
+        expect(mockNotifier.scheduleNotification).toHaveBeenCalledWith(
+          expect.objectContaining({ message: 'Standup', session: 'dev' }),
+          new Date(at),
+        )
+      })
+
+      it('should require exactly one of at and in', async () => {
+        for (const args of [
+          { message: 'x' },
+          { message: 'x', at: '17:30', in: '5m' },
+        ]) {
+          const response = await callToolHandler({
+            method: 'tools/call',
+            params: { name: 'schedule_notification', arguments: args },
+          })
+          expect(response.isError).toBe(true)
+          expect(response.content[0].text).toBe('Error: Give either at or in')
+        }
+      })
+
+      it('should reject invalid and past times', async () => {
+        const invalid = await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'schedule_notification',
+            arguments: { message: 'x', in: 'soon' },
+          },
+        })
+        expect(invalid.content[0].text).toBe(
+          'Error: Invalid in: soon (use a duration like 15m or 1h30m)',
+        )
+
+        const past = await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'schedule_notification',
+            arguments: { message: 'x', at: '2020-01-01T00:00:00Z' },
+          },
+        })
+        expect(past.content[0].text).toBe(
+          'Error: Invalid at: 2020-01-01T00:00:00Z is in the past',
+        )
+        expect(mockNotifier.scheduleNotification).not.toHaveBeenCalled()
+      })
+
+      it('should list scheduled notifications', async () => {
+        mockNotifier.listScheduled.mockResolvedValue([scheduled])
+
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: { name: 'list_scheduled_notifications', arguments: {} },
+        })
+
+        expect(response.content[0].text).toBe(
+          'Scheduled notifications:\n- [2026-10-19T12:15:00.000Z] scheduled-id api: Check the deploy',
+        )
+        expect(response.structuredContent).toEqual({ scheduled: [scheduled] })
+      })
+
+      it('should report when nothing is scheduled', async () => {
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: { name: 'list_scheduled_notifications', arguments: {} },
+        })
+
+        expect(response.content[0].text).toBe('No scheduled notifications')
+      })
+
+      it('should cancel a scheduled notification', async () => {
+        mockNotifier.cancelScheduled.mockResolvedValue(scheduled)
+
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: {
+            name: 'cancel_notification',
+            arguments: { id: 'scheduled-id' },
+          },
+        })
+
+        expect(mockNotifier.cancelScheduled).toHaveBeenCalledWith('scheduled-id')
+        expect(response.content[0].text).toBe(
+          'Cancelled notification scheduled for 2026-10-19T12:15:00.000Z: "Check the deploy"',
+        )
+        expect(response.structuredContent).toEqual(scheduled)
+      })
+
+      it('should report unknown scheduled notifications', async () => {
+        const response = await callToolHandler({
+          method: 'tools/call',
+          params: { name: 'cancel_notification', arguments: { id: 'nope' } },
+        })
+
+        expect(response.isError).toBe(true)
+        expect(response.content[0].text).toBe(
+          "Error: Scheduled notification 'nope' not found (it may have been delivered already)",
+        )
+      })
+    })
+
     describe('unknown tool', () => {
       it('should handle unknown tool name', async () => {
         const request = {
@@ -342,7 +1192,101 @@ describe('MCP Server', () => {
 
         const response = await callToolHandler(request)
         expect(response.content[0].text).toBe('Error: Unknown tool: unknown_tool')
+        expect(response.isError).toBe(true)
+        expect(response._meta.error.code).toBe('unknown_tool')
+      })
+    })
+  })
+
+  describe('Resources', () => {
+    it('should advertise resources with change notifications', async () => {
+      await loadServer()
+
+      const { Server } = await import('@modelcontextprotocol/sdk/server/index.js')
+      expect(vi.mocked(Server).mock.calls[0][1]).toEqual({
+        capabilities: {
+          tools: {},
+          resources: { subscribe: true, listChanged: true },
+          prompts: {},
+        },
+      })
+    })
+
+    it('should list and read resources', async () => {
+      const { handlers } = await loadServer()
+
+      const { resources } = await handlers.get(ListResourcesRequestSchema)({
+        method: 'resources/list',
+      })
+      expect(resources.map((resource: any) => resource.uri)).toContain(
+        'tmux://sessions/session1/panes',
+      )
+
+      const { contents } = await handlers.get(ReadResourceRequestSchema)({
+        method: 'resources/read',
+        params: { uri: 'tmux://sessions' },
       })
+      expect(JSON.parse(contents[0].text).sessions).toHaveLength(2)
+    })
+
+    it('should notify subscribers when tmux sessions change', async () => {
+      let onChange: (() => Promise<void>) | undefined
+      vi.doMock('../src/resources', async (importOriginal) => ({
+        ...(await importOriginal<typeof import('../src/resources')>()),
+        watchTmuxSessions: vi.fn((_notifier, callback) => {
+          onChange = callback
+        }),
+      }))
+
+      try {
+        const { handlers } = await loadServer()
+        await vi.waitFor(() => expect(onChange).toBeDefined())
+
+        await onChange?.()
+        expect(mockServer.sendResourceListChanged).toHaveBeenCalledTimes(1)
+        expect(mockServer.sendResourceUpdated).not.toHaveBeenCalled()
+
+        await handlers.get(SubscribeRequestSchema)({
+          method: 'resources/subscribe',
+          params: { uri: 'tmux://sessions' },
+        })
+        await onChange?.()
+        expect(mockServer.sendResourceUpdated).toHaveBeenCalledWith({
+          uri: 'tmux://sessions',
+        })
+
+        await handlers.get(UnsubscribeRequestSchema)({
+          method: 'resources/unsubscribe',
+          params: { uri: 'tmux://sessions' },
+        })
+        await onChange?.()
+        expect(mockServer.sendResourceUpdated).toHaveBeenCalledTimes(1)
+      } finally {
+        vi.doUnmock('../src/resources')
+      }
+    })
+  })
+
+  describe('Prompts', () => {
+    it('should list and render prompts', async () => {
+      const { handlers } = await loadServer()
+
+      const { prompts } = await handlers.get(ListPromptsRequestSchema)({
+        method: 'prompts/list',
+      })
+      expect(prompts.map((prompt: any) => prompt.name)).toEqual([
+        'notify_when_done',
+        'ask_before_destructive_action',
+        'summarize_and_notify',
+      ])
+
+      const prompt = await handlers.get(GetPromptRequestSchema)({
+        method: 'prompts/get',
+        params: { name: 'notify_when_done', arguments: { task: 'Deploy' } },
+      })
+      expect(prompt.messages[0].content.text).toMatch(
+        /^Work on this task: Deploy/,
+      )
     })
   })
 
@@ -357,6 +1301,45 @@ describe('MCP Server', () => {
       }, expect.any(Object))
     })
 
+    it('should exit with the message of an invalid config file', async () => {
+      vi.doMock('../src/config', async (importOriginal) => {
+        const actual = await importOriginal<typeof import('../src/config')>()
+        return {
+          ...actual,
+          loadConfig: vi.fn(() => {
+            throw new actual.ConfigError(
+              '/home/me/.config/macos-notify-mcp/config.json: "priority" is not allowed',
+            )
+          }),
+        }
+      })
+      const consoleErrorSpy = vi
+        .spyOn(console, 'error')
+        .mockImplementation(() => {})
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('process.exit')
+      })
+
+      await expect(loadServer()).rejects.toThrow('process.exit')
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Error: /home/me/.config/macos-notify-mcp/config.json: "priority" is not allowed',
+      )
+      expect(exitSpy).toHaveBeenCalledWith(1)
+
+      vi.doUnmock('../src/config')
+      consoleErrorSpy.mockRestore()
+      exitSpy.mockRestore()
+    })
+
+    it('should start delivering scheduled notifications and reminders', async () => {
+      await loadServer()
+
+      await vi.waitFor(() => {
+        expect(mockNotifier.deliverScheduled).toHaveBeenCalledTimes(1)
+        expect(mockNotifier.processEscalations).toHaveBeenCalledTimes(1)
+      })
+    })
+
     it('should connect transport', async () => {
       await loadServer()
 
@@ -364,6 +1347,45 @@ describe('MCP Server', () => {
       expect(StdioServerTransport).toHaveBeenCalled()
     })
 
+    it('should serve over HTTP with --http', async () => {
+      const originalArgv = process.argv
+      const startHttpServer = vi.fn().mockResolvedValue({
+        url: 'http://127.0.0.1:8765/mcp',
+        close: vi.fn(),
+      })
+      vi.doMock('../src/http', () => ({
+        getHttpToken: vi.fn(() => 'secret'),
+        parsePort: vi.fn(Number),
+        startHttpServer,
+      }))
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      process.argv = [...originalArgv, '--http', '8765']
+
+      try {
+        await loadServer()
+        await vi.waitFor(() => {
+          expect(consoleErrorSpy).toHaveBeenCalledWith(
+            'macOS Notify MCP server listening on http://127.0.0.1:8765/mcp',
+          )
+        })
+      } finally {
+        process.argv = originalArgv
+        consoleErrorSpy.mockRestore()
+        vi.doUnmock('../src/http')
+      }
+
+      const [createServer, options] = startHttpServer.mock.calls[0]
+      expect(options).toEqual({ port: 8765, socketPath: undefined, token: 'secret' })
+      const { StdioServerTransport } = await import('@modelcontextprotocol/sdk/server/stdio.js')
+      expect(StdioServerTransport).not.toHaveBeenCalled()
+
+      // Each HTTP session gets its own server with the tool handlers
+      handlers.clear()
+      expect(createServer()).toBe(mockServer)
+      expect(handlers.has(ListToolsRequestSchema)).toBe(true)
+      expect(handlers.has(CallToolRequestSchema)).toBe(true)
+    })
+
     it('should set up error handling', async () => {
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
       
@@ -0,0 +1,70 @@
+import { spawnSync } from 'node:child_process'
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { isRunning, withFileLock } from '../src/lock'
+
+describe('withFileLock', () => {
+  let dir: string
+  let path: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'macos-notify-lock-'))
+    path = join(dir, 'state', 'scheduled.json')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should hold the lock while running and release it after', () => {
+    const result = withFileLock(path, () => {
+      expect(readFileSync(`${path}.lock`, 'utf-8')).toBe(String(process.pid))
+      return 42
+    })
+
+    expect(result).toBe(42)
+    expect(existsSync(`${path}.lock`)).toBe(false)
+  })
+
+  it('should release the lock when the function throws', () => {
+    expect(() =>
+      withFileLock(path, () => {
+        throw new Error('boom')
+      }),
+    ).toThrow('boom')
+    expect(existsSync(`${path}.lock`)).toBe(false)
+  })
+
+  it('should take over a lock left behind by a process that exited', () => {
+    const { pid } = spawnSync(process.execPath, ['-e', ''])
+    withFileLock(path, () => {})
+    writeFileSync(`${path}.lock`, String(pid))
+
+    expect(withFileLock(path, () => 'taken')).toBe('taken')
+  })
+
+  it('should take over a lock held for too long', () => {
+    withFileLock(path, () => {})
+    writeFileSync(`${path}.lock`, String(process.pid))
+    const old = new Date(Date.now() - 60 * 1000)
+    utimesSync(`${path}.lock`, old, old)
+
+    expect(withFileLock(path, () => 'taken')).toBe('taken')
+  })
+})
+
+describe('isRunning', () => {
+  it('should tell running processes from exited ones', () => {
+    expect(isRunning(process.pid)).toBe(true)
+    expect(isRunning(spawnSync(process.execPath, ['-e', '']).pid)).toBe(false)
+  })
+})
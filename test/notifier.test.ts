@@ -7,8 +7,14 @@ import {
   type Mock,
   vi,
 } from 'vitest'
+import {
+  AppNotFoundError,
+  DeliveryFailedError,
+  TmuxUnavailableError,
+} from '../src/errors'
 import { TmuxNotifier } from '../src/notifier'
 import type { ChildProcess } from 'node:child_process'
+import { existsSync, readFileSync } from 'node:fs'
 
 // Mock modules
 vi.mock('node:child_process')
@@ -132,9 +138,7 @@ describe('TmuxNotifier', () => {
     it('should return current tmux session info', async () => {
       const runCommandSpy = vi
         .spyOn(notifier as any, 'runCommand')
-        .mockResolvedValueOnce('my-session')
-        .mockResolvedValueOnce('1')
-        .mockResolvedValueOnce('0')
+        .mockResolvedValue('my-session\t1\t0\t$2\t@5\t%7\n')
 
       const result = await notifier.getCurrentTmuxInfo()
 
@@ -142,8 +146,17 @@ describe('TmuxNotifier', () => {
         session: 'my-session',
         window: '1',
         pane: '0',
+        sessionId: '$2',
+        windowId: '@5',
+        paneId: '%7',
       })
-      expect(runCommandSpy).toHaveBeenCalledTimes(3)
+      expect(runCommandSpy).toHaveBeenCalledTimes(1)
+      expect(runCommandSpy).toHaveBeenCalledWith('tmux', [
+        'display-message',
+        '-p',
+        '-F',
+        '#{session_name}\t#{window_index}\t#{pane_index}\t#{session_id}\t#{window_id}\t#{pane_id}',
+      ])
     })
 
     it('should return null when not in tmux session', async () => {
@@ -199,6 +212,246 @@ describe('TmuxNotifier', () => {
     })
   })
 
+  describe('listSessionInfo', () => {
+    beforeEach(() => {
+      notifier = new TmuxNotifier('/test/app/path')
+    })
+
+    it('should return sessions with window count and attached state', async () => {
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockResolvedValue('dev\t3\t1\na|b\t1\t0\n')
+
+      const result = await notifier.listSessionInfo()
+
+      expect(result).toEqual([
+        { name: 'dev', windows: 3, attached: true },
+        { name: 'a|b', windows: 1, attached: false },
+      ])
+      expect(runCommandSpy).toHaveBeenCalledWith('tmux', [
+        'list-sessions',
+        '-F',
+        '#{session_name}\t#{session_windows}\t#{session_attached}',
+      ])
+    })
+
+    it('should return empty array when tmux is not running', async () => {
+      vi.spyOn(notifier as any, 'runCommand').mockRejectedValue(
+        new Error('no server running'),
+      )
+
+      expect(await notifier.listSessionInfo()).toEqual([])
+    })
+
+    it('should reuse results for a short time', async () => {
+      vi.useFakeTimers()
+      try {
+        const runCommandSpy = vi
+          .spyOn(notifier as any, 'runCommand')
+          .mockResolvedValue('dev\t3\t1\n')
+
+        await Promise.all([notifier.listSessionInfo(), notifier.listSessionInfo()])
+        await notifier.listSessionInfo()
+        expect(runCommandSpy).toHaveBeenCalledTimes(1)
+
+        vi.advanceTimersByTime(1000)
+        await notifier.listSessionInfo()
+        expect(runCommandSpy).toHaveBeenCalledTimes(2)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+  })
+
+  describe('listWindows', () => {
+    beforeEach(() => {
+      notifier = new TmuxNotifier('/test/app/path')
+    })
+
+    it('should return windows with the clients showing them', async () => {
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockImplementation(async (_command: any, args: any) =>
+          args[0] === 'list-clients'
+            ? '/dev/ttys001\tdev\t1\n/dev/ttys002\tops\t0\n'
+            : 'dev\t0\teditor\t0\t1\ndev\t1\ttests\t1\t2\n',
+        )
+
+      const result = await notifier.listWindows('dev')
+
+      expect(result).toEqual([
+        {
+          session: 'dev',
+          index: '0',
+          name: 'editor',
+          active: false,
+          panes: 1,
+          clients: [],
+        },
+        {
+          session: 'dev',
+          index: '1',
+          name: 'tests',
+          active: true,
+          panes: 2,
+          clients: ['/dev/ttys001'],
+        },
+      ])
+      expect(runCommandSpy).toHaveBeenCalledWith('tmux', [
+        'list-windows',
+        '-t',
+        'dev',
+        '-F',
+        '#{session_name}\t#{window_index}\t#{window_name}\t#{window_active}\t#{window_panes}',
+      ])
+    })
+
+    it('should list windows of all sessions without a session', async () => {
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockResolvedValue('')
+
+      expect(await notifier.listWindows()).toEqual([])
+      expect(runCommandSpy.mock.calls[0][1].slice(0, 2)).toEqual([
+        'list-windows',
+        '-a',
+      ])
+    })
+  })
+
+  describe('listPanes', () => {
+    beforeEach(() => {
+      notifier = new TmuxNotifier('/test/app/path')
+    })
+
+    it('should return pane details', async () => {
+      vi.spyOn(notifier as any, 'runCommand').mockResolvedValue(
+        '%7\tdev\t$1\t1\t@3\ttests\t0\tmacbook\tnode\t/src/app\t4242\t1\t1\n',
+      )
+
+      const result = await notifier.listPanes({ session: 'dev' })
+
+      expect(result).toEqual([
+        {
+          id: '%7',
+          session: 'dev',
+          sessionId: '$1',
+          window: '1',
+          windowId: '@3',
+          windowName: 'tests',
+          index: '0',
+          title: 'macbook',
+          command: 'node',
+          cwd: '/src/app',
+          pid: 4242,
+          active: true,
+          windowActive: true,
+        },
+      ])
+    })
+
+    it('should scope the query to a session or window', async () => {
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockResolvedValue('')
+
+      await notifier.listPanes()
+      await notifier.listPanes({ session: 'dev' })
+      await notifier.listPanes({ session: 'dev', window: '2' })
+
+      expect(
+        runCommandSpy.mock.calls.map((call: any) => call[1].slice(0, -2)),
+      ).toEqual([
+        ['list-panes', '-a'],
+        ['list-panes', '-s', '-t', 'dev'],
+        ['list-panes', '-t', 'dev:2'],
+      ])
+    })
+
+    it('should return empty array when tmux is not running', async () => {
+      vi.spyOn(notifier as any, 'runCommand').mockRejectedValue(
+        new Error('no server running'),
+      )
+
+      expect(await notifier.listPanes()).toEqual([])
+    })
+  })
+
+  describe('resolveTarget', () => {
+    beforeEach(() => {
+      notifier = new TmuxNotifier('/test/app/path')
+    })
+
+    it('should match the command line in the foreground of a pane', async () => {
+      vi.spyOn(notifier as any, 'runCommand').mockImplementation(
+        async (command: any) =>
+          command === 'ps'
+            ? [
+                '  4242  4242  5000 -zsh',
+                '  5000  5000  5000 npm test',
+                '  5001  5000  5000 node jest',
+              ].join('\n')
+            : [
+                '%1\tdev\t$1\t0\t@1\teditor\t0\tvim\tnvim\t/src/app\t4000\t1\t1',
+                '%2\tdev\t$1\t1\t@2\ttests\t0\ttests\tnode\t/src/app\t4242\t1\t0',
+              ].join('\n'),
+      )
+
+      expect(await notifier.resolveTarget({ command: 'npm test' })).toEqual({
+        session: 'dev',
+        window: '1',
+        pane: '0',
+        sessionId: '$1',
+        windowId: '@2',
+        paneId: '%2',
+      })
+    })
+
+    it('should not query processes without a command selector', async () => {
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockResolvedValue(
+          '%1\tdev\t$1\t0\t@1\teditor\t0\tvim\tnvim\t/src/app\t4000\t1\t1\n',
+        )
+
+      expect(await notifier.resolveTarget({ window: 'editor' })).toEqual({
+        session: 'dev',
+        window: '0',
+        sessionId: '$1',
+        windowId: '@1',
+      })
+      expect(runCommandSpy).toHaveBeenCalledTimes(1)
+    })
+
+    it('should report when no tmux server is running', async () => {
+      vi.spyOn(notifier as any, 'runCommand').mockImplementation(
+        async (_command: unknown, args: any) => {
+          if (args[0] === '-V') return 'tmux 3.4\n'
+          throw new Error('no server running on /tmp/tmux-501/default')
+        },
+      )
+
+      const error = await notifier
+        .resolveTarget({ session: 'dev' })
+        .catch((caught) => caught)
+
+      expect(error).toBeInstanceOf(TmuxUnavailableError)
+      expect(error.message).toBe(
+        'No tmux server is running (no tmux sessions found)',
+      )
+    })
+
+    it('should report when tmux is not installed', async () => {
+      vi.spyOn(notifier as any, 'runCommand').mockRejectedValue(
+        new Error('spawn tmux ENOENT'),
+      )
+
+      await expect(notifier.resolveTarget({ session: 'dev' })).rejects.toThrow(
+        new TmuxUnavailableError('tmux is not installed'),
+      )
+    })
+  })
+
   describe('sessionExists', () => {
     beforeEach(() => {
       notifier = new TmuxNotifier('/test/app/path')
@@ -236,9 +489,663 @@ describe('TmuxNotifier', () => {
     })
   })
 
-  describe('sendNotification', () => {
+  describe('getTerminalEmulator', () => {
     beforeEach(() => {
       notifier = new TmuxNotifier('/test/app/path')
+      for (const name of [
+        'CURSOR_TRACE_ID',
+        'VSCODE_IPC_HOOK_CLI',
+        'VSCODE_REMOTE',
+        'VSCODE_PID',
+        'ALACRITTY_WINDOW_ID',
+        'ALACRITTY_SOCKET',
+        'TERM_PROGRAM',
+        'TMUX',
+      ]) {
+        vi.stubEnv(name, '')
+      }
+    })
+
+    afterEach(() => {
+      vi.unstubAllEnvs()
+    })
+
+    it('should cache the detected terminal', async () => {
+      const detectSpy = vi
+        .spyOn(notifier as any, 'detectTerminalEmulator')
+        .mockResolvedValueOnce('iTerm2')
+        .mockResolvedValueOnce('alacritty')
+
+      expect(await notifier.getTerminalEmulator()).toBe('iTerm2')
+      expect(await notifier.getTerminalEmulator()).toBe('iTerm2')
+      expect(detectSpy).toHaveBeenCalledTimes(1)
+
+      expect(await notifier.refreshTerminalDetection()).toBe('alacritty')
+      expect(await notifier.getTerminalEmulator()).toBe('alacritty')
+      expect(detectSpy).toHaveBeenCalledTimes(2)
+    })
+
+    it('should detect again when another tmux client is in front', async () => {
+      vi.stubEnv('TMUX', '/tmp/tmux-501/default,1,0')
+      vi.stubEnv('TMUX_PANE', '%1')
+      vi.spyOn(notifier as any, 'getActiveClientInfo')
+        .mockResolvedValueOnce({ tty: '/dev/ttys001' })
+        .mockResolvedValueOnce({ tty: '/dev/ttys001' })
+        .mockResolvedValueOnce({ tty: '/dev/ttys002' })
+      const detectSpy = vi
+        .spyOn(notifier as any, 'detectTerminalEmulator')
+        .mockResolvedValueOnce('iTerm2')
+        .mockResolvedValueOnce('VSCode')
+
+      expect(await notifier.getTerminalEmulator()).toBe('iTerm2')
+      expect(await notifier.getTerminalEmulator()).toBe('iTerm2')
+      expect(await notifier.getTerminalEmulator()).toBe('VSCode')
+      expect(detectSpy).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not detect a configured terminal', async () => {
+      notifier = new TmuxNotifier('/test/app/path', { terminal: 'Cursor' })
+      const detectSpy = vi.spyOn(notifier as any, 'detectTerminalEmulator')
+
+      expect(await notifier.getTerminalEmulator()).toBe('Cursor')
+      expect(await notifier.refreshTerminalDetection()).toBe('Cursor')
+      expect(detectSpy).not.toHaveBeenCalled()
+    })
+
+    it('should detect terminals from their environment variables', async () => {
+      vi.stubEnv('TERM_PROGRAM', 'ghostty')
+      const runCommandSpy = vi.spyOn(notifier as any, 'runCommand')
+
+      expect(await notifier.getTerminalEmulator()).toBe('Ghostty')
+      expect(runCommandSpy).not.toHaveBeenCalled()
+    })
+
+    it('should detect configured terminals', async () => {
+      notifier = new TmuxNotifier('/test/app/path', {
+        terminals: [{ name: 'Rio', processes: ['rio'] }],
+      })
+      vi.spyOn(notifier as any, 'runCommand').mockResolvedValue(
+        [`${process.pid} 500 node`, '  500     1 /usr/local/bin/rio'].join(
+          '\n',
+        ),
+      )
+
+      expect(await notifier.getTerminalEmulator()).toBe('Rio')
+    })
+
+    it('should walk the process tree from a single ps call', async () => {
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockResolvedValue(
+          [
+            `${process.pid} 500 node`,
+            '  500   400 -zsh',
+            '  400     1 /Applications/iTerm.app/Contents/MacOS/iTerm2',
+          ].join('\n'),
+        )
+
+      expect(await notifier.getTerminalEmulator()).toBe('iTerm2')
+      expect(runCommandSpy).toHaveBeenCalledTimes(1)
+    })
+
+    it('should check every process on the client tty in one ps call', async () => {
+      vi.stubEnv('TMUX', '/tmp/tmux-501/default,1,0')
+      vi.stubEnv('TMUX_PANE', '%1')
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockImplementation(async (command: any) => {
+          switch (command) {
+            case 'tmux':
+              return '/dev/ttys001\tdev\t100\txterm-256color\n/dev/ttys002\tdev\t200\txterm-256color\n'
+            case 'lsof':
+              return [
+                'COMMAND PID USER FD TYPE DEVICE SIZE/OFF NODE NAME',
+                'zsh 300 me 0u CHR 16,2 0t0 1 /dev/ttys002',
+                'alacritty 301 me 1u CHR 16,2 0t0 1 /dev/ttys002',
+              ].join('\n')
+            default:
+              return 'zsh\nalacritty\n'
+          }
+        })
+
+      expect(await notifier.getTerminalEmulator()).toBe('alacritty')
+      expect(runCommandSpy.mock.calls).toEqual([
+        [
+          'tmux',
+          [
+            'list-clients',
+            '-t',
+            '%1',
+            '-F',
+            '#{client_tty}\t#{client_session}\t#{client_activity}\t#{client_termname}',
+          ],
+        ],
+        ['lsof', ['/dev/ttys002']],
+        ['ps', ['-p', '300,301', '-o', 'comm=']],
+      ])
+    })
+  })
+
+  describe('diagnose', () => {
+    beforeEach(() => {
+      notifier = new TmuxNotifier('/test/app/path', {
+        backends: ['log'],
+        defaultTitle: 'Agent',
+      })
+      for (const name of notifier['terminals'].envNames) {
+        vi.stubEnv(name, '')
+      }
+      vi.stubEnv('TMUX', '')
+    })
+
+    afterEach(() => {
+      vi.unstubAllEnvs()
+    })
+
+    it('should report every signal up to the matching rule', async () => {
+      vi.stubEnv('TERM', 'xterm-256color')
+      vi.spyOn(notifier as any, 'runCommand').mockImplementation(
+        async (command: any) => {
+          if (command === 'tmux') throw new Error('spawn tmux ENOENT')
+          return [
+            `${process.pid} 500 node`,
+            '  500   400 -zsh',
+            '  400     1 /Applications/WezTerm.app/Contents/MacOS/wezterm-gui',
+          ].join('\n')
+        },
+      )
+
+      const diagnosis = await notifier.diagnose()
+
+      expect(diagnosis.terminal).toEqual({
+        name: 'WezTerm',
+        detected: 'WezTerm',
+        configured: undefined,
+        rule: 'process /Applications/WezTerm.app/Contents/MacOS/wezterm-gui',
+        app: 'WezTerm',
+        signals: [
+          { source: 'env', value: 'TERM=xterm-256color', terminal: undefined },
+          {
+            source: 'process tree',
+            value: `${process.pid} node`,
+            terminal: undefined,
+          },
+          { source: 'process tree', value: '500 -zsh', terminal: undefined },
+          {
+            source: 'process tree',
+            value: '400 /Applications/WezTerm.app/Contents/MacOS/wezterm-gui',
+            terminal: 'WezTerm',
+          },
+        ],
+      })
+      expect(diagnosis.app).toEqual({ path: '/test/app/path', found: true })
+      expect(diagnosis.backends).toEqual(['log'])
+      expect(diagnosis.tmux).toMatchObject({
+        available: false,
+        error: 'spawn tmux ENOENT',
+        inside: false,
+        sessions: [],
+      })
+      expect(diagnosis.title).toEqual({ title: 'Agent', source: 'config' })
+    })
+
+    it('should detect even when the terminal is configured', async () => {
+      notifier = new TmuxNotifier('/test/app/path', {
+        backends: ['log'],
+        terminal: 'Ghostty',
+      })
+      vi.stubEnv('TERM_PROGRAM', 'iTerm.app')
+      vi.spyOn(notifier as any, 'runCommand').mockImplementation(
+        async (_command: any, args: any) => {
+          if (args[0] === '-V') return 'tmux 3.4\n'
+          if (args[0] === 'list-sessions') return 'dev\n'
+          if (args[2] === 'remote.origin.url') return '\n'
+          return '/src/scratch\n'
+        },
+      )
+
+      const diagnosis = await notifier.diagnose()
+
+      expect(diagnosis.terminal).toMatchObject({
+        name: 'Ghostty',
+        detected: 'iTerm2',
+        configured: 'Ghostty',
+        rule: 'env TERM_PROGRAM=iTerm.app',
+        app: 'Ghostty',
+      })
+      expect(diagnosis.tmux).toMatchObject({
+        available: true,
+        version: 'tmux 3.4',
+        sessions: ['dev'],
+      })
+      expect(diagnosis.title).toMatchObject({
+        source: 'git directory',
+        root: '/src/scratch',
+      })
+    })
+  })
+
+  describe('actions', () => {
+    let listener: any
+    let answer: (response: any) => void
+
+    beforeEach(() => {
+      // A bundle built from the current main.swift reports responses
+      vi.mocked(readFileSync).mockReturnValue(
+        '<key>CFBundleShortVersionString</key><string>2.0</string>',
+      )
+      notifier = new TmuxNotifier('/test/app/path', {
+        backends: ['macos-app'],
+        throttle: false,
+      })
+      vi.spyOn(notifier as any, 'detectTerminalEmulator').mockResolvedValue(
+        'iTerm2',
+      )
+      listener = {
+        path: '/state/reply-1234abcd.sock',
+        response: new Promise((resolve) => {
+          answer = resolve
+        }),
+        close: vi.fn(),
+      }
+    })
+
+    it('should pass the actions and reply socket to the app', async () => {
+      const listenSpy = vi
+        .spyOn(notifier as any, 'listenForResponse')
+        .mockResolvedValue(listener)
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockResolvedValue('')
+
+      const record = await notifier.sendNotification({
+        message: 'Deploy?',
+        actions: ['Approve', 'Reject'],
+        timeoutMs: 5000,
+      })
+
+      expect(listenSpy).toHaveBeenCalledWith(
+        record.id,
+        expect.any(Array),
+        5000,
+      )
+      expect(runCommandSpy.mock.calls[0][1]).toEqual(
+        expect.arrayContaining([
+          '--action',
+          'Approve',
+          '--reply-socket',
+          '/state/reply-1234abcd.sock',
+        ]),
+      )
+      expect(record.actions).toEqual(['Approve', 'Reject'])
+      expect(listener.close).not.toHaveBeenCalled()
+    })
+
+    it('should return the answer to askUser and record it', async () => {
+      vi.spyOn(notifier as any, 'listenForResponse').mockResolvedValue(
+        listener,
+      )
+      vi.spyOn(notifier as any, 'runCommand').mockResolvedValue('')
+      const appendSpy = vi.spyOn(notifier['history'], 'append')
+
+      const result = notifier.askUser({ message: 'Deploy?', actions: ['Yes'] })
+      await vi.waitFor(() => expect(appendSpy).toHaveBeenCalledTimes(1))
+      answer({ action: 'Yes', timestamp: '2026-10-19T12:00:00.000Z' })
+
+      const { record, response } = await result
+      expect(response?.action).toBe('Yes')
+      expect(record.response).toEqual(response)
+      expect(appendSpy).toHaveBeenLastCalledWith(
+        expect.objectContaining({ id: record.id, response }),
+      )
+    })
+
+    it('should report a timeout', async () => {
+      vi.spyOn(notifier as any, 'listenForResponse').mockResolvedValue(
+        listener,
+      )
+      vi.spyOn(notifier as any, 'runCommand').mockResolvedValue('')
+
+      const result = notifier.askUser({
+        message: 'Deploy?',
+        actions: ['Yes'],
+        timeoutMs: 90_000,
+      })
+      await vi.waitFor(() =>
+        expect(notifier['pendingResponses'].size).toBe(1),
+      )
+      answer(null)
+
+      expect(await result).toMatchObject({
+        response: null,
+        reason: 'no response within 90s',
+      })
+    })
+
+    it('should report clicks and dismissals with waitForClick', async () => {
+      const listenSpy = vi
+        .spyOn(notifier as any, 'listenForResponse')
+        .mockResolvedValue(listener)
+      vi.spyOn(notifier as any, 'runCommand').mockResolvedValue('')
+
+      const result = notifier.sendNotification({
+        message: 'Deploy ready?',
+        waitForClick: true,
+        timeoutMs: 300_000,
+      })
+      await vi.waitFor(() =>
+        expect(notifier['pendingResponses'].size).toBe(1),
+      )
+      answer({ action: 'dismiss', timestamp: '2026-10-19T12:00:00.000Z' })
+
+      expect(await result).toMatchObject({
+        status: 'delivered',
+        acknowledgement: 'dismissed',
+        response: { action: 'dismiss' },
+      })
+      expect(listenSpy.mock.calls[0][2]).toBe(300_000)
+    })
+
+    it('should only listen when there is something to wait for', async () => {
+      const listenSpy = vi.spyOn(notifier as any, 'listenForResponse')
+      vi.spyOn(notifier as any, 'runCommand').mockResolvedValue('')
+
+      const record = await notifier.sendNotification({ message: 'Done' })
+
+      expect(listenSpy).not.toHaveBeenCalled()
+      expect(record.acknowledgement).toBeUndefined()
+    })
+
+    it('should not wait when no backend can report a response', async () => {
+      notifier = new TmuxNotifier('/test/app/path', {
+        backends: ['log'],
+        throttle: false,
+      })
+      vi.spyOn(notifier as any, 'detectTerminalEmulator').mockResolvedValue(
+        'iTerm2',
+      )
+      vi.spyOn(process.stderr, 'write').mockReturnValue(true)
+
+      expect(
+        await notifier.askUser({ message: 'Deploy?', actions: ['Yes'] }),
+      ).toMatchObject({
+        response: null,
+        reason: 'none of the backends can report responses (use macos-app 2.0 or later)',
+      })
+    })
+
+    it('should stop listening when delivery fails', async () => {
+      vi.spyOn(notifier as any, 'listenForResponse').mockResolvedValue(
+        listener,
+      )
+      vi.spyOn(notifier as any, 'runCommand').mockRejectedValue(
+        new Error('open failed'),
+      )
+
+      await expect(
+        notifier.sendNotification({ message: 'Deploy?', actions: ['Yes'] }),
+      ).rejects.toThrow('open failed')
+      expect(listener.close).toHaveBeenCalled()
+    })
+  })
+
+  describe('scheduling', () => {
+    beforeEach(() => {
+      notifier = new TmuxNotifier('/test/app/path', {
+        defaultTitle: 'api',
+        throttle: false,
+      })
+    })
+
+    it('should resolve the default title when scheduling', async () => {
+      const addSpy = vi
+        .spyOn(notifier['schedule'], 'add')
+        .mockImplementation((notification, dueAt) => ({
+          id: 'scheduled-id',
+          dueAt: dueAt.toISOString(),
+          createdAt: '2026-10-19T12:00:00.000Z',
+          notification,
+        }))
+      const dueAt = new Date('2026-10-19T12:15:00.000Z')
+
+      const scheduled = await notifier.scheduleNotification(
+        { message: 'Check the deploy', session: 'dev' },
+        dueAt,
+      )
+
+      expect(addSpy).toHaveBeenCalledWith(
+        { title: 'api', message: 'Check the deploy', session: 'dev' },
+        dueAt,
+      )
+      expect(scheduled.dueAt).toBe('2026-10-19T12:15:00.000Z')
+    })
+
+    it('should send the notifications that are due', async () => {
+      const now = new Date('2026-10-19T12:15:00.000Z')
+      const takeSpy = vi.spyOn(notifier['schedule'], 'takeDue').mockReturnValue([
+        {
+          id: 'scheduled-id',
+          dueAt: '2026-10-19T12:15:00.000Z',
+          createdAt: '2026-10-19T12:00:00.000Z',
+          notification: { title: 'api', message: 'Check the deploy' },
+        },
+      ])
+      const sendSpy = vi
+        .spyOn(notifier, 'sendNotification')
+        .mockResolvedValue({ id: 'sent-id', status: 'delivered' } as any)
+
+      const records = await notifier.deliverScheduled(now)
+
+      expect(takeSpy).toHaveBeenCalledWith(now)
+      expect(sendSpy).toHaveBeenCalledWith({
+        title: 'api',
+        message: 'Check the deploy',
+      })
+      expect(records).toEqual([{ id: 'sent-id', status: 'delivered' }])
+    })
+
+    it('should carry on when a scheduled notification fails', async () => {
+      const scheduled = (message: string) => ({
+        id: message,
+        dueAt: '2026-10-19T12:15:00.000Z',
+        createdAt: '2026-10-19T12:00:00.000Z',
+        notification: { title: 'api', message },
+      })
+      vi.spyOn(notifier['schedule'], 'takeDue').mockReturnValue([
+        scheduled('first'),
+        scheduled('second'),
+      ])
+      vi.spyOn(notifier, 'sendNotification')
+        .mockRejectedValueOnce(new Error('open failed'))
+        .mockResolvedValueOnce({ id: 'sent-id', status: 'delivered' } as any)
+
+      expect(await notifier.deliverScheduled()).toEqual([
+        { id: 'sent-id', status: 'delivered' },
+      ])
+    })
+  })
+
+  describe('escalation', () => {
+    let listener: any
+    let answer: (response: any) => void
+    let queue: any
+
+    const pending = {
+      id: 'first-id',
+      ids: ['first-id'],
+      notification: { title: 'api', message: 'Deploy?', priority: 'high' },
+      step: 0,
+      dueAt: '2026-10-19T12:05:00.000Z',
+      owner: process.pid,
+    }
+
+    beforeEach(() => {
+      // A bundle built from the current main.swift reports responses
+      vi.mocked(readFileSync).mockReturnValue(
+        '<key>CFBundleShortVersionString</key><string>2.0</string>',
+      )
+      notifier = new TmuxNotifier('/test/app/path', {
+        backends: ['macos-app'],
+        throttle: false,
+        escalation: {
+          steps: [
+            { afterMinutes: 5 },
+            { afterMinutes: 10, backends: ['log'] },
+          ],
+        },
+      })
+      vi.spyOn(notifier as any, 'detectTerminalEmulator').mockResolvedValue(
+        'iTerm2',
+      )
+      listener = {
+        path: '/state/reply-1234abcd.sock',
+        response: new Promise((resolve) => {
+          answer = resolve
+        }),
+        close: vi.fn(),
+      }
+      queue = notifier['escalations']
+      vi.spyOn(queue, 'schedule').mockReturnValue(pending)
+      vi.spyOn(queue, 'acknowledge').mockReturnValue(undefined)
+      vi.spyOn(queue, 'adopt').mockReturnValue([])
+      vi.spyOn(queue, 'due').mockReturnValue([])
+      vi.spyOn(queue, 'advance').mockReturnValue(undefined)
+    })
+
+    it('should escalate high priority notifications that report clicks', async () => {
+      const listenSpy = vi
+        .spyOn(notifier as any, 'listenForResponse')
+        .mockResolvedValue(listener)
+      vi.spyOn(notifier as any, 'runCommand').mockResolvedValue('')
+
+      const record = await notifier.sendNotification({
+        message: 'Deploy?',
+        priority: 'high',
+      })
+
+      expect(queue.schedule).toHaveBeenCalledWith(record)
+      expect(listenSpy.mock.calls[0][2]).toBe(60 * 60 * 1000)
+      expect(record.acknowledgement).toBeUndefined()
+    })
+
+    it('should not escalate normal priority notifications', async () => {
+      const listenSpy = vi.spyOn(notifier as any, 'listenForResponse')
+      vi.spyOn(notifier as any, 'runCommand').mockResolvedValue('')
+
+      await notifier.sendNotification({ message: 'Done' })
+
+      expect(listenSpy).not.toHaveBeenCalled()
+      expect(queue.schedule).not.toHaveBeenCalled()
+    })
+
+    it('should stop escalating once the notification is clicked', async () => {
+      vi.spyOn(notifier as any, 'listenForResponse').mockResolvedValue(
+        listener,
+      )
+      vi.spyOn(notifier as any, 'runCommand').mockResolvedValue('')
+
+      const record = await notifier.sendNotification({
+        message: 'Deploy?',
+        priority: 'high',
+      })
+      answer({ action: 'click', timestamp: '2026-10-19T12:00:00.000Z' })
+
+      await vi.waitFor(() =>
+        expect(queue.acknowledge).toHaveBeenCalledWith(record.id),
+      )
+    })
+
+    it('should send due reminders with a louder sound', async () => {
+      queue.due.mockReturnValue([pending])
+      const listenSpy = vi
+        .spyOn(notifier as any, 'listenForResponse')
+        .mockResolvedValue(listener)
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockResolvedValue('')
+      const now = new Date('2026-10-19T12:05:00.000Z')
+
+      const [reminder] = await notifier.processEscalations(now)
+
+      expect(reminder).toMatchObject({
+        title: 'Reminder: api',
+        sound: 'Sosumi',
+        priority: 'high',
+      })
+      expect(runCommandSpy.mock.calls[0][1]).toEqual(
+        expect.arrayContaining(['-t', 'Reminder: api', '--sound', 'Sosumi']),
+      )
+      // Listens until the last step is due
+      expect(listenSpy.mock.calls[0][2]).toBe(10 * 60 * 1000)
+      expect(queue.advance).toHaveBeenCalledWith(pending, reminder.id, now)
+    })
+
+    it('should send later steps through their own backends', async () => {
+      queue.due.mockReturnValue([{ ...pending, step: 1 }])
+      vi.spyOn(process.stderr, 'write').mockReturnValue(true)
+      const runCommandSpy = vi.spyOn(notifier as any, 'runCommand')
+
+      const [reminder] = await notifier.processEscalations()
+
+      expect(reminder.deliveries).toEqual([{ backend: 'log', ok: true }])
+      expect(runCommandSpy).not.toHaveBeenCalled()
+      expect(queue.advance).toHaveBeenCalledWith(
+        expect.objectContaining({ step: 1 }),
+        undefined,
+        expect.any(Date),
+      )
+    })
+
+    it('should move on when a reminder cannot be delivered', async () => {
+      queue.due.mockReturnValue([pending])
+      vi.spyOn(notifier as any, 'listenForResponse').mockResolvedValue(
+        undefined,
+      )
+      vi.spyOn(notifier as any, 'runCommand').mockRejectedValue(
+        new Error('open failed'),
+      )
+
+      expect(await notifier.processEscalations()).toEqual([])
+      expect(queue.advance).toHaveBeenCalledWith(
+        pending,
+        undefined,
+        expect.any(Date),
+      )
+    })
+
+    it('should listen again for clicks on adopted escalations', async () => {
+      queue.adopt.mockReturnValue([pending])
+      vi.spyOn(notifier['history'], 'get').mockReturnValue({
+        id: 'first-id',
+      } as any)
+      const { ReplyListener } = await import('../src/reply')
+      const listenSpy = vi
+        .spyOn(ReplyListener.prototype, 'listen')
+        .mockResolvedValue()
+      const now = new Date('2026-10-19T12:01:00.000Z')
+
+      await notifier.processEscalations(now)
+
+      // 4 minutes until the next step, then 10 until the last one
+      expect(listenSpy).toHaveBeenCalledWith(14 * 60 * 1000)
+      expect(notifier['pendingResponses'].has('first-id')).toBe(true)
+    })
+
+    it('should do nothing without escalation steps', async () => {
+      notifier = new TmuxNotifier('/test/app/path', { throttle: false })
+
+      expect(await notifier.processEscalations()).toEqual([])
+    })
+  })
+
+  describe('sendNotification', () => {
+    beforeEach(() => {
+      notifier = new TmuxNotifier('/test/app/path', {
+        backends: ['macos-app'],
+      })
+      vi.spyOn(notifier as any, 'detectTerminalEmulator').mockResolvedValue(
+        'iTerm2',
+      )
     })
 
     it('should send basic notification with message only', async () => {
@@ -258,6 +1165,10 @@ describe('TmuxNotifier', () => {
         'Hello World',
         '--sound',
         'Glass',
+        '--terminal',
+        'iTerm2',
+        '--terminal-app',
+        'iTerm2',
       ])
     })
 
@@ -285,6 +1196,10 @@ describe('TmuxNotifier', () => {
         'Test message',
         '--sound',
         'Glass',
+        '--terminal',
+        'iTerm2',
+        '--terminal-app',
+        'iTerm2',
         '-s',
         'my-session',
         '-w',
@@ -295,8 +1210,10 @@ describe('TmuxNotifier', () => {
     })
 
     it('should handle empty app path', async () => {
-      notifier = new TmuxNotifier()
-      notifier['appPath'] = ''
+      vi.mocked(existsSync).mockReturnValue(false)
+      notifier = new TmuxNotifier('/missing/MacOSNotifyMCP.app', {
+        backends: ['macos-app'],
+      })
 
       await expect(
         notifier.sendNotification({ message: 'Test' }),
@@ -341,11 +1258,530 @@ describe('TmuxNotifier', () => {
         'Simple message',
         '--sound',
         'Glass',
+        '--terminal',
+        'iTerm2',
+        '--terminal-app',
+        'iTerm2',
       ])
       expect(args).not.toContain('-s')
       expect(args).not.toContain('-w')
       expect(args).not.toContain('-p')
     })
+
+    it('should use configured default title and sound', async () => {
+      notifier = new TmuxNotifier('/test/app/path', {
+        backends: ['macos-app'],
+        defaultTitle: 'Agent',
+        defaultSound: 'Ping',
+      })
+      vi.spyOn(notifier as any, 'detectTerminalEmulator').mockResolvedValue(
+        'Unknown',
+      )
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockResolvedValue('')
+
+      await notifier.sendNotification({ message: 'Hello' })
+
+      const args = runCommandSpy.mock.calls[0][1]
+      expect(args).toContain('Agent')
+      expect(args).toContain('Ping')
+    })
+
+    it('should silence notifications during quiet hours', async () => {
+      notifier = new TmuxNotifier('/test/app/path', {
+        backends: ['macos-app'],
+        // Together these ranges cover the whole day
+        quietHours: [
+          { start: '00:00', end: '23:59' },
+          { start: '23:59', end: '00:00' },
+        ],
+        quietHoursAction: 'silent',
+      })
+      vi.spyOn(notifier as any, 'detectTerminalEmulator').mockResolvedValue(
+        'Unknown',
+      )
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockResolvedValue('')
+
+      await notifier.sendNotification({ message: 'Hello', sound: 'Hero' })
+
+      const args = runCommandSpy.mock.calls[0][1] as string[]
+      expect(args[args.indexOf('--sound') + 1]).toBe('none')
+    })
+
+    it('should defer notifications during quiet hours by default', async () => {
+      notifier = new TmuxNotifier('/test/app/path', {
+        backends: ['macos-app'],
+        quietHours: [
+          { start: '00:00', end: '23:59' },
+          { start: '23:59', end: '00:00' },
+        ],
+      })
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockResolvedValue('')
+      const enqueueSpy = vi
+        .spyOn(notifier['policy'], 'enqueue')
+        .mockReturnValue(undefined)
+
+      const record = await notifier.sendNotification({ message: 'Hello' })
+
+      expect(record).toMatchObject({
+        status: 'deferred',
+        reason: expect.stringContaining('quiet hours'),
+      })
+      expect(enqueueSpy).toHaveBeenCalledWith(record)
+      expect(runCommandSpy).not.toHaveBeenCalled()
+    })
+
+    it('should report deferred notifications that cannot be queued', async () => {
+      notifier = new TmuxNotifier('/test/app/path', {
+        backends: ['macos-app'],
+        quietHours: [
+          { start: '00:00', end: '23:59' },
+          { start: '23:59', end: '00:00' },
+        ],
+      })
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockResolvedValue('')
+      vi.spyOn(notifier['policy'], 'enqueue').mockImplementation(() => {
+        throw new Error('EACCES: permission denied')
+      })
+
+      const record = await notifier.sendNotification({ message: 'Hello' })
+
+      expect(record).toMatchObject({
+        status: 'failed',
+        reason: expect.stringMatching(
+          /quiet hours.*could not be queued for the digest: EACCES/,
+        ),
+      })
+      expect(runCommandSpy).not.toHaveBeenCalled()
+    })
+
+    it('should drop notifications from muted sessions', async () => {
+      notifier = new TmuxNotifier('/test/app/path', {
+        backends: ['macos-app'],
+        mutedSessions: ['noisy'],
+      })
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockResolvedValue('')
+
+      const record = await notifier.sendNotification({
+        message: 'Hello',
+        session: 'noisy',
+      })
+
+      expect(record).toMatchObject({
+        status: 'dropped',
+        reason: "session 'noisy' is muted",
+      })
+      expect(runCommandSpy).not.toHaveBeenCalled()
+    })
+
+    it('should pass the priority to the policy', async () => {
+      vi.spyOn(notifier as any, 'runCommand').mockResolvedValue('')
+      const evaluateSpy = vi.spyOn(notifier['policy'], 'evaluate')
+
+      await notifier.sendNotification({ message: 'Hello', priority: 'high' })
+
+      expect(evaluateSpy).toHaveBeenCalledWith({
+        session: undefined,
+        priority: 'high',
+      })
+    })
+
+    it('should pick the sound and interruption level from the priority', async () => {
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockResolvedValue('')
+
+      const record = await notifier.sendNotification({
+        message: 'Waiting for approval',
+        priority: 'critical',
+      })
+
+      const args = runCommandSpy.mock.calls[0][1] as string[]
+      expect(args[args.indexOf('--sound') + 1]).toBe('Sosumi')
+      expect(args).not.toContain('--interruption-level')
+      expect(record.priority).toBe('critical')
+    })
+
+    it('should prefer an explicit sound over the priority sound', async () => {
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockResolvedValue('')
+
+      await notifier.sendNotification({
+        message: 'FYI',
+        sound: 'Ping',
+        priority: 'low',
+      })
+
+      const args = runCommandSpy.mock.calls[0][1] as string[]
+      expect(args[args.indexOf('--sound') + 1]).toBe('Ping')
+      expect(args[args.indexOf('--interruption-level') + 1]).toBe('passive')
+    })
+
+    it('should skip backends above the notification priority', async () => {
+      notifier = new TmuxNotifier('/test/app/path', {
+        backends: ['macos-app', 'webhook'],
+        webhook: { url: 'https://example.com/hook', minPriority: 'high' },
+      })
+      vi.spyOn(notifier as any, 'detectTerminalEmulator').mockResolvedValue(
+        'iTerm2',
+      )
+      vi.spyOn(notifier as any, 'runCommand').mockResolvedValue('')
+      const fetchSpy = vi
+        .spyOn(globalThis, 'fetch')
+        .mockResolvedValue(new Response('ok'))
+
+      const normal = await notifier.sendNotification({ message: 'Tests passed' })
+      expect(normal.deliveries).toEqual([{ backend: 'macos-app', ok: true }])
+      expect(fetchSpy).not.toHaveBeenCalled()
+
+      const high = await notifier.sendNotification({
+        message: 'Need approval',
+        priority: 'high',
+      })
+      expect(high.deliveries).toEqual([
+        { backend: 'macos-app', ok: true },
+        { backend: 'webhook', ok: true },
+      ])
+    })
+
+    it('should drop notifications no backend accepts', async () => {
+      notifier = new TmuxNotifier('/test/app/path', {
+        backends: ['webhook'],
+        webhook: { url: 'https://example.com/hook', minPriority: 'critical' },
+      })
+
+      const record = await notifier.sendNotification({ message: 'FYI' })
+
+      expect(record).toMatchObject({
+        status: 'dropped',
+        reason: 'no backend accepts normal priority notifications',
+      })
+    })
+
+    it('should deliver queued notifications as a digest', async () => {
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockResolvedValue('')
+      vi.spyOn(notifier['policy'], 'takeQueued').mockReturnValue([
+        { title: 'Build', message: 'Done' },
+        { title: 'Tests', message: 'Passed' },
+      ] as any)
+
+      const record = await notifier.flushDigest()
+
+      expect(record).toMatchObject({
+        title: '2 notifications while you were away',
+        message: '• Build: Done\n• Tests: Passed',
+        status: 'delivered',
+      })
+      expect(runCommandSpy).toHaveBeenCalledTimes(1)
+    })
+
+    it('should queue the notifications again when the digest fails', async () => {
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockRejectedValueOnce(new Error('spawn open ENOENT'))
+        .mockResolvedValue('')
+      let queue = [
+        { title: 'Build', message: 'Done' },
+        { title: 'Tests', message: 'Passed' },
+      ] as any[]
+      vi.spyOn(notifier['policy'], 'enqueue').mockImplementation((record) => {
+        queue.push(record)
+      })
+      vi.spyOn(notifier['policy'], 'takeQueued').mockImplementation(() => {
+        const taken = queue
+        queue = []
+        return taken
+      })
+
+      await expect(notifier.flushDigest()).rejects.toThrow('spawn open ENOENT')
+      expect(queue).toHaveLength(2)
+
+      const record = await notifier.flushDigest()
+      expect(record).toMatchObject({
+        message: '• Build: Done\n• Tests: Passed',
+        status: 'delivered',
+      })
+      expect(queue).toEqual([])
+      expect(runCommandSpy).toHaveBeenCalledTimes(2)
+    })
+
+    it('should keep the digest queued while do-not-disturb is active', async () => {
+      vi.spyOn(notifier['policy'], 'evaluate').mockReturnValue({
+        action: 'defer',
+        reason: 'in a meeting',
+      })
+      const takeQueuedSpy = vi.spyOn(notifier['policy'], 'takeQueued')
+
+      expect(await notifier.flushDigest()).toBeNull()
+      expect(takeQueuedSpy).not.toHaveBeenCalled()
+    })
+
+    it('should return and record the delivery result', async () => {
+      const fs = await import('node:fs')
+      notifier = new TmuxNotifier('/test/app/path', {
+        backends: ['macos-app'],
+        historyFile: '/state/history.jsonl',
+      })
+      vi.spyOn(notifier as any, 'detectTerminalEmulator').mockResolvedValue(
+        'iTerm2',
+      )
+      vi.spyOn(notifier as any, 'runCommand').mockResolvedValue('')
+
+      const record = await notifier.sendNotification({
+        message: 'Hello',
+        title: 'Title',
+        session: 'dev',
+      })
+
+      expect(record).toMatchObject({
+        id: expect.any(String),
+        title: 'Title',
+        message: 'Hello',
+        session: 'dev',
+        terminal: 'iTerm2',
+        status: 'delivered',
+        deliveries: [{ backend: 'macos-app', ok: true }],
+      })
+      expect(fs.appendFileSync).toHaveBeenCalledWith(
+        '/state/history.jsonl',
+        `${JSON.stringify(record)}\n`,
+      )
+    })
+
+    it('should record failed deliveries before throwing', async () => {
+      const fs = await import('node:fs')
+      notifier = new TmuxNotifier('/test/app/path', {
+        backends: ['notify-send'],
+        historyFile: '/state/history.jsonl',
+      })
+      vi.spyOn(notifier as any, 'detectTerminalEmulator').mockResolvedValue(
+        'Unknown',
+      )
+      vi.spyOn(notifier as any, 'runCommand').mockRejectedValue(
+        new Error('no dbus'),
+      )
+
+      await expect(
+        notifier.sendNotification({ message: 'Hello' }),
+      ).rejects.toThrow('no dbus')
+
+      const line = (fs.appendFileSync as unknown as Mock).mock.calls[0][1]
+      expect(JSON.parse(line)).toMatchObject({
+        status: 'failed',
+        deliveries: [{ backend: 'notify-send', ok: false, error: 'no dbus' }],
+      })
+    })
+
+    it('should record suppressed notifications without delivering', async () => {
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockResolvedValue('')
+      vi.spyOn(notifier['throttle'] as any, 'check').mockReturnValue({
+        allowed: false,
+        reason: 'duplicate of a notification sent 3s ago (x2)',
+        message: 'Hello',
+      })
+
+      const record = await notifier.sendNotification({ message: 'Hello' })
+
+      expect(record).toMatchObject({
+        status: 'suppressed',
+        reason: 'duplicate of a notification sent 3s ago (x2)',
+        deliveries: [],
+      })
+      expect(runCommandSpy).not.toHaveBeenCalled()
+    })
+
+    it('should deliver the collapsed message from the throttle', async () => {
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockResolvedValue('')
+      vi.spyOn(notifier['throttle'] as any, 'check').mockReturnValue({
+        allowed: true,
+        message: 'Hello (x3)',
+      })
+
+      await notifier.sendNotification({ message: 'Hello' })
+
+      expect(runCommandSpy.mock.calls[0][1]).toContain('Hello (x3)')
+    })
+
+    it('should not throttle when disabled', () => {
+      notifier = new TmuxNotifier('/test/app/path', { throttle: false })
+      expect(notifier['throttle']).toBeNull()
+    })
+
+    it('should deliver through every configured backend', async () => {
+      notifier = new TmuxNotifier('/test/app/path', {
+        backends: ['macos-app', 'notify-send'],
+      })
+      vi.spyOn(notifier as any, 'detectTerminalEmulator').mockResolvedValue(
+        'Unknown',
+      )
+      const runCommandSpy = vi
+        .spyOn(notifier as any, 'runCommand')
+        .mockResolvedValue('')
+
+      await notifier.sendNotification({ message: 'Hello', title: 'Title' })
+
+      expect(runCommandSpy).toHaveBeenCalledWith(
+        '/usr/bin/open',
+        expect.any(Array),
+      )
+      expect(runCommandSpy).toHaveBeenCalledWith('notify-send', [
+        '--app-name',
+        'macos-notify-mcp',
+        'Title',
+        'Hello',
+      ])
+    })
+
+    it('should succeed when at least one backend delivers', async () => {
+      notifier = new TmuxNotifier('/test/app/path', {
+        backends: ['macos-app', 'notify-send'],
+      })
+      vi.spyOn(notifier as any, 'detectTerminalEmulator').mockResolvedValue(
+        'Unknown',
+      )
+      vi.spyOn(notifier as any, 'runCommand').mockImplementation(
+        async (command: unknown) => {
+          if (command === 'notify-send') throw new Error('no dbus')
+          return ''
+        },
+      )
+
+      await expect(
+        notifier.sendNotification({ message: 'Hello' }),
+      ).resolves.toMatchObject({
+        status: 'delivered',
+        deliveries: [
+          { backend: 'macos-app', ok: true },
+          { backend: 'notify-send', ok: false, error: 'no dbus' },
+        ],
+      })
+    })
+
+    it('should throw when every backend fails', async () => {
+      notifier = new TmuxNotifier('/test/app/path', {
+        backends: ['notify-send'],
+      })
+      vi.spyOn(notifier as any, 'detectTerminalEmulator').mockResolvedValue(
+        'Unknown',
+      )
+      vi.spyOn(notifier as any, 'runCommand').mockRejectedValue(
+        new Error('no dbus'),
+      )
+
+      await expect(
+        notifier.sendNotification({ message: 'Hello' }),
+      ).rejects.toThrow('no dbus')
+    })
+
+    it('should report every backend when all of them fail', async () => {
+      notifier = new TmuxNotifier(undefined, {
+        backends: ['macos-app', 'notify-send'],
+      })
+      notifier['appPath'] = ''
+      vi.spyOn(notifier as any, 'detectTerminalEmulator').mockResolvedValue(
+        'Unknown',
+      )
+      vi.spyOn(notifier as any, 'runCommand').mockRejectedValue(
+        new Error('no dbus'),
+      )
+
+      const error = await notifier
+        .sendNotification({ message: 'Hello' })
+        .catch((caught) => caught)
+
+      expect(error).toBeInstanceOf(DeliveryFailedError)
+      expect(error.code).toBe('delivery_failed')
+      expect(error.message).toBe(
+        'All backends failed: macos-app: MacOSNotifyMCP.app not found; notify-send: no dbus',
+      )
+      expect(error.deliveries).toEqual([
+        { backend: 'macos-app', ok: false, error: 'MacOSNotifyMCP.app not found' },
+        { backend: 'notify-send', ok: false, error: 'no dbus' },
+      ])
+    })
+
+    it('should keep the error of the only backend when it is typed', async () => {
+      notifier = new TmuxNotifier(undefined, { backends: ['macos-app'] })
+      notifier['appPath'] = ''
+      vi.spyOn(notifier as any, 'detectTerminalEmulator').mockResolvedValue(
+        'Unknown',
+      )
+
+      await expect(
+        notifier.sendNotification({ message: 'Hello' }),
+      ).rejects.toBeInstanceOf(AppNotFoundError)
+    })
+  })
+
+  describe('getBackends', () => {
+    const originalBackend = process.env.MACOS_NOTIFY_BACKEND
+
+    afterEach(() => {
+      if (originalBackend === undefined) {
+        delete process.env.MACOS_NOTIFY_BACKEND
+      } else {
+        process.env.MACOS_NOTIFY_BACKEND = originalBackend
+      }
+    })
+
+    it('should read the backend list from MACOS_NOTIFY_BACKEND', async () => {
+      process.env.MACOS_NOTIFY_BACKEND = 'log,notify-send'
+      notifier = new TmuxNotifier('/test/app/path')
+
+      const backends = await notifier.getBackends()
+
+      expect(backends.map((b) => b.name)).toEqual(['log', 'notify-send'])
+    })
+
+    it('should reject unknown backend names', () => {
+      process.env.MACOS_NOTIFY_BACKEND = 'bogus'
+      expect(() => new TmuxNotifier('/test/app/path')).toThrow(
+        'Unknown notification backend: bogus',
+      )
+    })
+
+    it('should auto-detect the first available backend', async () => {
+      notifier = new TmuxNotifier('/test/app/path', { backends: ['auto'] })
+      vi.spyOn(notifier as any, 'runCommand').mockImplementation(
+        async (_command: unknown, args: unknown) => {
+          if ((args as string[])[0] === 'notify-send') return '/usr/bin/x'
+          throw new Error('not found')
+        },
+      )
+      mockExistsSync.mockReturnValue(false)
+
+      const backends = await notifier.getBackends()
+
+      expect(backends.map((b) => b.name)).toEqual(['notify-send'])
+    })
+
+    it('should fall back to the log backend', async () => {
+      notifier = new TmuxNotifier('/test/app/path', { backends: ['auto'] })
+      vi.spyOn(notifier as any, 'runCommand').mockRejectedValue(
+        new Error('not found'),
+      )
+      mockExistsSync.mockReturnValue(false)
+
+      const backends = await notifier.getBackends()
+
+      expect(backends.map((b) => b.name)).toEqual(['log'])
+    })
   })
 })
 
@@ -0,0 +1,168 @@
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { NotificationRecord } from '../src/history'
+import { formatDigest, NotificationPolicy } from '../src/policy'
+
+describe('NotificationPolicy', () => {
+  let dir: string
+  let stateFile: string
+  let digestFile: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'macos-notify-policy-'))
+    stateFile = join(dir, 'state', 'dnd.json')
+    digestFile = join(dir, 'state', 'digest.jsonl')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const inMinutes = (minutes: number) =>
+    new Date(Date.now() + minutes * 60 * 1000)
+
+  const record = (title: string): NotificationRecord => ({
+    id: title,
+    timestamp: new Date(0).toISOString(),
+    title,
+    message: `${title} message`,
+    sound: 'Glass',
+    terminal: 'Unknown',
+    status: 'deferred',
+    deliveries: [],
+  })
+
+  describe('evaluate', () => {
+    it('should deliver by default', () => {
+      const policy = new NotificationPolicy({ stateFile, digestFile })
+      expect(policy.evaluate({ session: 'dev' })).toEqual({ action: 'deliver' })
+    })
+
+    it('should apply the quiet hours action', () => {
+      const quietHours = [{ start: '22:00', end: '07:00' }]
+      const night = new Date('2026-10-19T23:00:00')
+
+      expect(
+        new NotificationPolicy({ stateFile, digestFile, quietHours }).evaluate(
+          {},
+          night,
+        ),
+      ).toEqual({ action: 'defer', reason: 'quiet hours (22:00-07:00)' })
+      expect(
+        new NotificationPolicy({
+          stateFile,
+          digestFile,
+          quietHours,
+          quietHoursAction: 'drop',
+        }).evaluate({}, night).action,
+      ).toBe('drop')
+    })
+
+    it('should let only critical notifications through quiet hours', () => {
+      const policy = new NotificationPolicy({
+        stateFile,
+        digestFile,
+        quietHours: [{ start: '22:00', end: '07:00' }],
+      })
+      const night = new Date('2026-10-19T23:00:00')
+
+      expect(policy.evaluate({ priority: 'high' }, night).action).toBe('defer')
+      expect(policy.evaluate({ priority: 'critical' }, night).action).toBe(
+        'deliver',
+      )
+    })
+
+    it('should drop notifications from muted sessions', () => {
+      const policy = new NotificationPolicy({
+        stateFile,
+        digestFile,
+        mutedSessions: ['noisy'],
+      })
+
+      expect(policy.evaluate({ session: 'noisy', priority: 'critical' })).toEqual({
+        action: 'drop',
+        reason: "session 'noisy' is muted",
+      })
+      expect(policy.evaluate({ session: 'dev' }).action).toBe('deliver')
+    })
+
+    it('should defer all but high priority notifications in a meeting', () => {
+      const policy = new NotificationPolicy({ stateFile, digestFile })
+      policy.setMeeting(inMinutes(30))
+
+      const decision = policy.evaluate({})
+      expect(decision.action).toBe('defer')
+      expect(decision.reason).toMatch(/^in a meeting until \d\d:\d\d/)
+      expect(policy.evaluate({ priority: 'low' }).action).toBe('defer')
+      expect(policy.evaluate({ priority: 'high' }).action).toBe('deliver')
+      expect(policy.evaluate({ priority: 'critical' }).action).toBe('deliver')
+
+      policy.setMeeting(null)
+      expect(policy.evaluate({}).action).toBe('deliver')
+    })
+  })
+
+  describe('state', () => {
+    it('should expire meeting mode and temporary mutes', () => {
+      const policy = new NotificationPolicy({ stateFile, digestFile })
+      const meetingUntil = inMinutes(30)
+      policy.setMeeting(meetingUntil)
+      policy.muteSession('build', inMinutes(10))
+      policy.muteSession('logs', null)
+
+      expect(policy.getState(inMinutes(20))).toEqual({
+        meetingUntil: meetingUntil.toISOString(),
+        mutedSessions: { logs: null },
+      })
+      expect(policy.getState(inMinutes(40))).toEqual({
+        mutedSessions: { logs: null },
+      })
+    })
+
+    it('should unmute sessions', () => {
+      const policy = new NotificationPolicy({ stateFile, digestFile })
+      policy.muteSession('build', null)
+      expect(policy.evaluate({ session: 'build' }).action).toBe('drop')
+
+      policy.unmuteSession('build')
+      expect(policy.evaluate({ session: 'build' }).action).toBe('deliver')
+    })
+  })
+
+  describe('digest queue', () => {
+    it('should return queued notifications once', () => {
+      const policy = new NotificationPolicy({ stateFile, digestFile })
+      policy.enqueue(record('Build'))
+      policy.enqueue(record('Tests'))
+
+      expect(policy.takeQueued().map((entry) => entry.title)).toEqual([
+        'Build',
+        'Tests',
+      ])
+      expect(policy.takeQueued()).toEqual([])
+    })
+  })
+})
+
+describe('formatDigest', () => {
+  const entry = (title: string) => ({ title, message: 'done' }) as any
+
+  it('should summarize a single notification', () => {
+    expect(formatDigest([entry('Build')])).toEqual({
+      title: '1 notification while you were away',
+      message: '• Build: done',
+    })
+  })
+
+  it('should cap the listed notifications', () => {
+    const digest = formatDigest(
+      ['a', 'b', 'c', 'd', 'e', 'f', 'g'].map(entry),
+    )
+
+    expect(digest.title).toBe('7 notifications while you were away')
+    expect(digest.message.split('\n')).toHaveLength(6)
+    expect(digest.message).toMatch(/…and 2 more$/)
+  })
+})
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getInterruptionLevel,
+  getPrioritySound,
+  isPriority,
+  meetsPriority,
+} from '../src/priority'
+
+describe('priority', () => {
+  it('should recognize priority names', () => {
+    expect(isPriority('critical')).toBe(true)
+    expect(isPriority('urgent')).toBe(false)
+  })
+
+  it('should compare priorities, treating a missing one as normal', () => {
+    expect(meetsPriority('high', 'normal')).toBe(true)
+    expect(meetsPriority('low', 'normal')).toBe(false)
+    expect(meetsPriority(undefined, 'normal')).toBe(true)
+    expect(meetsPriority(undefined, 'high')).toBe(false)
+  })
+
+  it('should leave the normal sound to the configured default', () => {
+    expect(getPrioritySound('low')).toBe('none')
+    expect(getPrioritySound('normal')).toBeUndefined()
+    expect(getPrioritySound(undefined)).toBeUndefined()
+  })
+
+  it('should map priorities to macOS interruption levels', () => {
+    expect(getInterruptionLevel('low')).toBe('passive')
+    expect(getInterruptionLevel(undefined)).toBe('active')
+    expect(getInterruptionLevel('high')).toBe('active')
+    expect(getInterruptionLevel('critical')).toBe('active')
+  })
+})
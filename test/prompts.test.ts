@@ -0,0 +1,78 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js'
+import { describe, expect, it } from 'vitest'
+import { getPrompt, listPrompts } from '../src/prompts'
+
+describe('prompts', () => {
+  const text = (name: string, args?: Record<string, string>) =>
+    getPrompt(name, args).messages[0].content.text
+
+  it('should list the prompts with their arguments', () => {
+    expect(listPrompts()).toEqual([
+      expect.objectContaining({
+        name: 'notify_when_done',
+        arguments: [expect.objectContaining({ name: 'task' })],
+      }),
+      expect.objectContaining({
+        name: 'ask_before_destructive_action',
+        arguments: [expect.objectContaining({ name: 'actions' })],
+      }),
+      expect.objectContaining({
+        name: 'summarize_and_notify',
+        arguments: [expect.objectContaining({ name: 'focus' })],
+      }),
+    ])
+    expect(listPrompts()[0]).not.toHaveProperty('render')
+  })
+
+  it('should tell the agent to notify its own pane when done', () => {
+    const prompt = getPrompt('notify_when_done', { task: 'Fix the tests' })
+
+    expect(prompt.description).toBe(
+      'Work on a task and send a notification when it is finished or blocked',
+    )
+    expect(prompt.messages).toHaveLength(1)
+    expect(prompt.messages[0].role).toBe('user')
+    expect(text('notify_when_done', { task: 'Fix the tests' })).toMatch(
+      /^Work on this task: Fix the tests\n\nWhen you finish it,/,
+    )
+    expect(text('notify_when_done')).toMatch(/^When you finish the current task/)
+    expect(text('notify_when_done')).toContain('`useCurrent: true`')
+    expect(text('notify_when_done')).toContain('`send_notification`')
+  })
+
+  it('should ask before destructive actions with critical priority', () => {
+    expect(text('ask_before_destructive_action')).toContain('`ask_user`')
+    expect(text('ask_before_destructive_action')).toContain(
+      'priority `critical`',
+    )
+    expect(text('ask_before_destructive_action')).toContain('force pushing')
+    expect(
+      text('ask_before_destructive_action', { actions: 'terraform apply' }),
+    ).toContain('Destructive actions include terraform apply.')
+  })
+
+  it('should focus the summary when asked to', () => {
+    expect(text('summarize_and_notify', { focus: 'open questions' })).toMatch(
+      /^Summarize what you have done, focusing on open questions, and send/,
+    )
+    expect(text('summarize_and_notify')).toMatch(
+      /^Summarize what you have done, and send/,
+    )
+  })
+
+  it('should reject unknown prompts', () => {
+    expect(() => getPrompt('notify_me')).toThrow('Unknown prompt: notify_me')
+  })
+
+  it('should report unknown prompts as invalid params', () => {
+    let error: unknown
+    try {
+      getPrompt('notify_me')
+    } catch (caught) {
+      error = caught
+    }
+
+    expect(error).toBeInstanceOf(McpError)
+    expect((error as McpError).code).toBe(ErrorCode.InvalidParams)
+  })
+})
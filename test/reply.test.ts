@@ -0,0 +1,95 @@
+import { existsSync, mkdtempSync, rmSync } from 'node:fs'
+import { connect } from 'node:net'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getReplySocketPath, ReplyListener } from '../src/reply'
+
+/**
+ * Connect to the socket like the notification app does and send `data`
+ */
+function answer(path: string, data: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = connect(path, () => socket.end(data))
+    socket.on('close', () => resolve())
+    socket.on('error', reject)
+  })
+}
+
+describe('ReplyListener', () => {
+  let dir: string
+  let listener: ReplyListener
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'macos-notify-reply-'))
+    listener = new ReplyListener(join(dir, 'state', 'reply.sock'))
+  })
+
+  afterEach(() => {
+    listener.close()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should resolve with the action the user chose', async () => {
+    await listener.listen(5000)
+    await answer(listener.path, '{"action":"Approve"}')
+
+    expect(await listener.response).toEqual({
+      action: 'Approve',
+      text: undefined,
+      timestamp: expect.any(String),
+    })
+    expect(existsSync(listener.path)).toBe(false)
+  })
+
+  it('should pass on text replies', async () => {
+    await listener.listen(5000)
+    await answer(listener.path, '{"action":"reply","text":"Use staging"}')
+
+    expect(await listener.response).toMatchObject({
+      action: 'reply',
+      text: 'Use staging',
+    })
+  })
+
+  it('should ignore malformed responses', async () => {
+    await listener.listen(5000)
+    await answer(listener.path, 'not json')
+    await answer(listener.path, '{"text":"no action"}')
+    await answer(listener.path, '{"action":"Reject"}')
+
+    expect((await listener.response)?.action).toBe('Reject')
+  })
+
+  it('should resolve to null once it times out', async () => {
+    await listener.listen(10)
+
+    expect(await listener.response).toBeNull()
+    expect(existsSync(listener.path)).toBe(false)
+  })
+
+  it('should replace a socket left behind', async () => {
+    const stale = new ReplyListener(listener.path)
+    await stale.listen(5000)
+
+    await listener.listen(5000)
+    await answer(listener.path, '{"action":"click"}')
+
+    expect((await listener.response)?.action).toBe('click')
+    stale.close()
+  })
+})
+
+describe('getReplySocketPath', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should keep socket paths short', () => {
+    vi.stubEnv('XDG_STATE_HOME', '/state')
+
+    expect(getReplySocketPath('0f8e7a12-5b7c-4f1e-9a77-3d1f4a6b2c9e')).toBe(
+      '/state/macos-notify-mcp/reply-0f8e7a12.sock',
+    )
+  })
+})
@@ -0,0 +1,139 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  CONFIG_URI,
+  getPanesUri,
+  HISTORY_URI,
+  listResources,
+  RESOURCE_NOT_FOUND,
+  readResource,
+  SESSIONS_URI,
+  watchTmuxSessions,
+} from '../src/resources'
+
+describe('resources', () => {
+  let notifier: any
+
+  beforeEach(() => {
+    notifier = {
+      listSessions: vi.fn().mockResolvedValue(['dev', 'my notes']),
+      listSessionInfo: vi
+        .fn()
+        .mockResolvedValue([{ name: 'dev', windows: 2, attached: true }]),
+      sessionExists: vi.fn(async (name: string) => name === 'my notes'),
+      listPanes: vi.fn().mockResolvedValue([{ index: '0', command: 'vim' }]),
+      listNotifications: vi.fn().mockResolvedValue([{ id: 'n1' }]),
+    }
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  const read = async (uri: string, config = {}) =>
+    JSON.parse((await readResource(notifier, config, uri)).text)
+
+  it('should list the panes of every session', async () => {
+    const uris = (await listResources(notifier)).map((resource) => resource.uri)
+
+    expect(uris).toEqual([
+      SESSIONS_URI,
+      HISTORY_URI,
+      CONFIG_URI,
+      'tmux://sessions/dev/panes',
+      'tmux://sessions/my%20notes/panes',
+    ])
+  })
+
+  it('should read sessions, panes and history', async () => {
+    expect(await read(SESSIONS_URI)).toEqual({
+      sessions: [{ name: 'dev', windows: 2, attached: true }],
+    })
+    expect(await read(getPanesUri('my notes'))).toEqual({
+      session: 'my notes',
+      panes: [{ index: '0', command: 'vim' }],
+    })
+    expect(notifier.listPanes).toHaveBeenCalledWith({ session: 'my notes' })
+    expect(await read(HISTORY_URI)).toEqual({ notifications: [{ id: 'n1' }] })
+    expect(notifier.listNotifications).toHaveBeenCalledWith({ limit: 50 })
+  })
+
+  it('should redact webhook secrets from the config', async () => {
+    const config = await read(CONFIG_URI, {
+      defaults: { title: 'Agent' },
+      webhook: {
+        url: 'https://hooks.slack.com/services/T0/B0/secret',
+        format: 'slack',
+        headers: { Authorization: 'Bearer secret' },
+      },
+      projects: { '~/api': { webhook: { url: 'https://ntfy.sh/' } } },
+    })
+
+    expect(config).toEqual({
+      defaults: { title: 'Agent' },
+      webhook: {
+        url: 'https://hooks.slack.com/[redacted]',
+        format: 'slack',
+        headers: { Authorization: '[redacted]' },
+      },
+      projects: { '~/api': { webhook: { url: 'https://ntfy.sh' } } },
+    })
+  })
+
+  it('should reject unknown resources and sessions', async () => {
+    await expect(read(getPanesUri('gone'))).rejects.toThrow(
+      "tmux session 'gone' not found",
+    )
+    await expect(read('tmux://windows')).rejects.toThrow(
+      'Unknown resource: tmux://windows',
+    )
+  })
+
+  it('should report unknown resources with the resource not found code', async () => {
+    const error = await readResource(notifier, {}, 'tmux://windows').catch(
+      (caught) => caught,
+    )
+
+    expect(error).toBeInstanceOf(McpError)
+    expect(error.code).toBe(RESOURCE_NOT_FOUND)
+    expect(error.code).toBe(-32002)
+    expect(error.data).toEqual({ uri: 'tmux://windows' })
+  })
+
+  it('should report sessions that appear or disappear', async () => {
+    vi.useFakeTimers()
+    const onChange = vi.fn()
+    const stop = watchTmuxSessions(notifier, onChange, 1000)
+    await vi.advanceTimersByTimeAsync(0)
+
+    notifier.listSessions.mockResolvedValue(['my notes', 'dev'])
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(onChange).not.toHaveBeenCalled()
+
+    notifier.listSessions.mockResolvedValue(['dev'])
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(onChange).toHaveBeenCalledWith(['dev'])
+
+    stop()
+    notifier.listSessions.mockResolvedValue([])
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(onChange).toHaveBeenCalledTimes(1)
+  })
+
+  it('should keep watching when tmux fails', async () => {
+    vi.useFakeTimers()
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const onChange = vi.fn()
+    notifier.listSessions.mockRejectedValueOnce(new Error('no server'))
+    const stop = watchTmuxSessions(notifier, onChange, 1000)
+    await vi.advanceTimersByTimeAsync(2000)
+    stop()
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      'Failed to list tmux sessions:',
+      expect.any(Error),
+    )
+    expect(notifier.listSessions).toHaveBeenCalledTimes(3)
+  })
+})
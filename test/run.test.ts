@@ -0,0 +1,93 @@
+import { Writable } from 'node:stream'
+import { describe, expect, it } from 'vitest'
+import { executeCommand } from '../src/run'
+
+describe('executeCommand', () => {
+  const capture = () => {
+    const chunks: string[] = []
+    const stream = new Writable({
+      write(chunk, _encoding, callback) {
+        chunks.push(chunk.toString())
+        callback()
+      },
+    })
+    return { stream, text: () => chunks.join('') }
+  }
+
+  const run = (script: string, tailLines?: number) => {
+    const stdout = capture()
+    const stderr = capture()
+    return executeCommand([process.execPath, '-e', script], {
+      tailLines,
+      stdout: stdout.stream,
+      stderr: stderr.stream,
+    }).then((result) => ({
+      result,
+      stdout: stdout.text(),
+      stderr: stderr.text(),
+    }))
+  }
+
+  it('should pass output through and keep the last lines', async () => {
+    const { result, stdout, stderr } = await run(
+      `for (let i = 1; i <= 8; i++) console.log('line ' + i)
+       console.error('warning')`,
+      3,
+    )
+
+    expect(stdout).toBe(
+      Array.from({ length: 8 }, (_, i) => `line ${i + 1}\n`).join(''),
+    )
+    expect(stderr).toBe('warning\n')
+    expect(result.exitCode).toBe(0)
+    expect(result.tail).toEqual(['line 7', 'line 8', 'warning'])
+    expect(result.durationMs).toBeGreaterThanOrEqual(0)
+  })
+
+  it('should keep no lines when asked for none', async () => {
+    const { result, stdout } = await run(`console.log('done')`, 0)
+
+    expect(stdout).toBe('done\n')
+    expect(result.tail).toEqual([])
+  })
+
+  it('should decode characters split across chunks', async () => {
+    const { result } = await run(
+      `const text = Buffer.from('héllo ✅\\n')
+       process.stdout.write(text.subarray(0, 2))
+       setTimeout(() => process.stdout.write(text.subarray(2)), 50)`,
+    )
+
+    expect(result.tail).toEqual(['héllo ✅'])
+  })
+
+  it('should mirror the exit code', async () => {
+    const { result } = await run('process.exit(3)')
+
+    expect(result.exitCode).toBe(3)
+    expect(result.signal).toBeUndefined()
+  })
+
+  it('should strip colors and keep the last redraw of a line', async () => {
+    const { result } = await run(
+      `process.stdout.write('\\x1b[32m10%\\r50%\\r100%\\x1b[0m\\n\\ndone')`,
+    )
+
+    expect(result.tail).toEqual(['100%', 'done'])
+  })
+
+  it('should report a command killed by a signal', async () => {
+    const { result } = await run(`process.kill(process.pid, 'SIGTERM')`)
+
+    expect(result.signal).toBe('SIGTERM')
+    expect(result.exitCode).toBe(143)
+  })
+
+  it('should report a command that cannot be started', async () => {
+    const result = await executeCommand(['macos-notify-no-such-command'])
+
+    expect(result.exitCode).toBe(127)
+    expect(result.error).toContain('ENOENT')
+    expect(result.tail).toEqual([])
+  })
+})
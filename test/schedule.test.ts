@@ -0,0 +1,94 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  formatScheduledNotification,
+  NotificationSchedule,
+} from '../src/schedule'
+
+describe('NotificationSchedule', () => {
+  let dir: string
+  let path: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'macos-notify-schedule-'))
+    path = join(dir, 'state', 'scheduled.json')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const now = new Date('2026-10-19T12:00:00.000Z')
+  const minutesLater = (minutes: number) =>
+    new Date(now.getTime() + minutes * 60 * 1000)
+  const deploy = { title: 'api', message: 'Check the deploy' }
+
+  it('should persist scheduled notifications', () => {
+    const scheduled = new NotificationSchedule(path).add(
+      deploy,
+      minutesLater(15),
+      now,
+    )
+
+    expect(scheduled).toEqual({
+      id: expect.any(String),
+      dueAt: '2026-10-19T12:15:00.000Z',
+      createdAt: '2026-10-19T12:00:00.000Z',
+      notification: deploy,
+    })
+    expect(new NotificationSchedule(path).list()).toEqual([scheduled])
+  })
+
+  it('should list the soonest first', () => {
+    const schedule = new NotificationSchedule(path)
+    schedule.add({ ...deploy, message: 'later' }, minutesLater(30), now)
+    schedule.add({ ...deploy, message: 'sooner' }, minutesLater(5), now)
+
+    expect(schedule.list().map((item) => item.notification.message)).toEqual([
+      'sooner',
+      'later',
+    ])
+  })
+
+  it('should cancel by id', () => {
+    const schedule = new NotificationSchedule(path)
+    const scheduled = schedule.add(deploy, minutesLater(15), now)
+
+    expect(schedule.cancel('unknown')).toBeNull()
+    expect(schedule.cancel(scheduled.id)).toEqual(scheduled)
+    expect(schedule.list()).toEqual([])
+  })
+
+  it('should take only the notifications that are due', () => {
+    const schedule = new NotificationSchedule(path)
+    schedule.add({ ...deploy, message: 'later' }, minutesLater(30), now)
+    schedule.add({ ...deploy, message: 'sooner' }, minutesLater(5), now)
+
+    expect(schedule.takeDue(minutesLater(4))).toEqual([])
+    const due = schedule.takeDue(minutesLater(5))
+    expect(due.map((item) => item.notification.message)).toEqual(['sooner'])
+    expect(schedule.list()).toHaveLength(1)
+    expect(schedule.takeDue(minutesLater(5))).toEqual([])
+  })
+
+  it('should treat an unreadable file as nothing scheduled', () => {
+    const schedule = new NotificationSchedule(path)
+    schedule.add(deploy, minutesLater(15), now)
+    writeFileSync(path, 'not json')
+
+    expect(schedule.list()).toEqual([])
+  })
+
+  it('should format a scheduled notification as one line', () => {
+    expect(
+      formatScheduledNotification({
+        id: 'abc',
+        dueAt: '2026-10-19T12:15:00.000Z',
+        createdAt: '2026-10-19T12:00:00.000Z',
+        notification: { ...deploy, session: 'dev', window: '1' },
+      }),
+    ).toBe('- [2026-10-19T12:15:00.000Z] abc api: Check the deploy (tmux: dev:1)')
+  })
+})
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { startScheduler } from '../src/scheduler'
+
+describe('startScheduler', () => {
+  let notifier: any
+  let stop: () => void
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    notifier = {
+      deliverScheduled: vi.fn().mockResolvedValue([]),
+      flushDigest: vi.fn().mockResolvedValue(null),
+      processEscalations: vi.fn().mockResolvedValue([]),
+    }
+  })
+
+  afterEach(() => {
+    stop?.()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('should run every task right away and then periodically', async () => {
+    stop = startScheduler(notifier, { intervalMs: 1000 })
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(notifier.deliverScheduled).toHaveBeenCalledTimes(1)
+    expect(notifier.flushDigest).toHaveBeenCalledTimes(1)
+    expect(notifier.processEscalations).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(2000)
+    expect(notifier.deliverScheduled).toHaveBeenCalledTimes(3)
+  })
+
+  it('should keep going when a task fails', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    notifier.deliverScheduled.mockRejectedValue(new Error('disk full'))
+
+    stop = startScheduler(notifier, { intervalMs: 1000 })
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      'Failed to deliver scheduled notifications:',
+      expect.any(Error),
+    )
+    expect(notifier.processEscalations).toHaveBeenCalledTimes(1)
+  })
+
+  it('should skip a run while the previous one is still busy', async () => {
+    notifier.processEscalations.mockReturnValue(
+      new Promise((resolve) => setTimeout(resolve, 2500)),
+    )
+
+    stop = startScheduler(notifier, { intervalMs: 1000 })
+    await vi.advanceTimersByTimeAsync(2000)
+
+    expect(notifier.deliverScheduled).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(notifier.deliverScheduled).toHaveBeenCalledTimes(2)
+  })
+
+  it('should stop when asked', async () => {
+    stop = startScheduler(notifier, { intervalMs: 1000 })
+    await vi.advanceTimersByTimeAsync(0)
+    stop()
+
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(notifier.deliverScheduled).toHaveBeenCalledTimes(1)
+  })
+})
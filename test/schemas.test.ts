@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+import { InvalidArgumentsError } from '../src/errors'
+import {
+  getInputSchema,
+  isToolName,
+  parseToolArguments,
+  toolInputSchemas,
+} from '../src/schemas'
+
+function parseError(name: any, args: unknown): InvalidArgumentsError {
+  try {
+    parseToolArguments(name, args)
+  } catch (error) {
+    if (error instanceof InvalidArgumentsError) return error
+    throw error
+  }
+  throw new Error('Expected the arguments to be rejected')
+}
+
+describe('schemas', () => {
+  describe('getInputSchema', () => {
+    it('should describe the arguments as JSON Schema', () => {
+      const schema = getInputSchema('send_notification')
+
+      expect(schema.type).toBe('object')
+      expect(schema.required).toEqual(['message'])
+      expect(schema.additionalProperties).toBe(false)
+      expect(schema).not.toHaveProperty('$schema')
+      expect(schema.properties).toMatchObject({
+        message: { type: 'string', description: 'The notification message' },
+        priority: {
+          type: 'string',
+          enum: ['low', 'normal', 'high', 'critical'],
+        },
+        window: {
+          anyOf: [{ type: 'string' }, { type: 'integer', minimum: 0 }],
+        },
+        actions: { type: 'array', items: { type: 'string' } },
+        timeout: { type: 'number', exclusiveMinimum: 0 },
+      })
+    })
+
+    it('should describe tools without arguments as empty objects', () => {
+      expect(getInputSchema('diagnose')).toEqual({
+        type: 'object',
+        properties: {},
+        additionalProperties: false,
+      })
+    })
+  })
+
+  describe('isToolName', () => {
+    it('should only accept known tools', () => {
+      expect(isToolName('ask_user')).toBe(true)
+      expect(isToolName('toString')).toBe(false)
+      expect(Object.keys(toolInputSchemas)).toHaveLength(13)
+    })
+  })
+
+  describe('parseToolArguments', () => {
+    it('should return the parsed arguments', () => {
+      expect(
+        parseToolArguments('send_notification', {
+          message: 'Done',
+          window: 2,
+          actions: ['Approve', '', 'Reject'],
+        }),
+      ).toEqual({ message: 'Done', window: '2', actions: ['Approve', 'Reject'] })
+    })
+
+    it('should treat missing arguments as an empty object', () => {
+      expect(parseToolArguments('list_tmux_sessions', undefined)).toEqual({})
+    })
+
+    it('should keep the messages of specific checks', () => {
+      expect(parseError('send_notification', {}).message).toBe(
+        'Message is required',
+      )
+      expect(
+        parseError('send_notification', { message: 'Hi', priority: 'urgent' })
+          .message,
+      ).toBe(
+        'Invalid priority: urgent (expected one of: low, normal, high, critical)',
+      )
+      expect(parseError('ask_user', { message: 'Hi', timeout: 0 }).message).toBe(
+        'Invalid timeout: 0',
+      )
+      expect(parseError('schedule_notification', { message: 'Hi' }).message).toBe(
+        'Give either at or in',
+      )
+      expect(parseError('list_tmux_panes', { window: '1' }).issues).toEqual([
+        { path: 'window', message: 'The window filter requires a session' },
+      ])
+    })
+
+    it('should not coerce values to strings', () => {
+      expect(
+        parseError('send_notification', { message: 'Hi', window: 1.5 }).issues,
+      ).toEqual([{ path: 'window', message: 'window must be an integer' }])
+      expect(parseError('get_notification', { id: 42 }).issues).toEqual([
+        { path: 'id', message: 'id must be a string' },
+      ])
+    })
+
+    it('should reject unknown arguments', () => {
+      const error = parseError('list_tmux_windows', {
+        session: 'dev',
+        sesion: 'dev',
+        all: true,
+      })
+
+      expect(error.code).toBe('invalid_arguments')
+      expect(error.message).toBe('Unknown arguments: sesion, all')
+      expect(error.issues).toEqual([
+        { path: '', message: 'Unknown arguments: sesion, all' },
+      ])
+    })
+
+    it('should list every problem', () => {
+      const error = parseError('list_notifications', { limit: 0, query: 1 })
+
+      expect(error.message).toBe(
+        'query must be a string; Invalid limit: Number must be greater than 0',
+      )
+    })
+
+    it('should reject arguments that are not an object', () => {
+      expect(parseError('diagnose', ['verbose']).message).toBe(
+        'arguments must be an object',
+      )
+    })
+  })
+})
@@ -0,0 +1,209 @@
+import { homedir } from 'node:os'
+import { describe, expect, it } from 'vitest'
+import { SessionNotFoundError, TargetError } from '../src/errors'
+import type { TmuxPane } from '../src/notifier'
+import { hasTargetSelector, matchesGlob, resolveTarget } from '../src/target'
+
+function pane(overrides: Partial<TmuxPane>): TmuxPane {
+  return {
+    id: '%0',
+    session: 'dev',
+    sessionId: '$0',
+    window: '0',
+    windowId: '@0',
+    windowName: 'editor',
+    index: '0',
+    title: 'macbook',
+    command: 'zsh',
+    cwd: '/src/app',
+    pid: 100,
+    active: true,
+    windowActive: true,
+    ...overrides,
+  }
+}
+
+const panes = [
+  pane({ id: '%0', command: 'vim' }),
+  pane({
+    id: '%1',
+    window: '1',
+    windowId: '@1',
+    windowName: 'tests',
+    command: 'node',
+    pid: 101,
+  }),
+  pane({
+    id: '%2',
+    window: '1',
+    windowId: '@1',
+    windowName: 'tests',
+    index: '1',
+    title: 'logs',
+    cwd: '/src/app/logs',
+    pid: 102,
+  }),
+  pane({
+    id: '%3',
+    session: 'ops',
+    sessionId: '$1',
+    windowId: '@2',
+    windowName: 'tests',
+    cwd: '/srv/api',
+    pid: 103,
+  }),
+]
+
+describe('target', () => {
+  describe('hasTargetSelector', () => {
+    it('should ignore empty fields', () => {
+      expect(hasTargetSelector({})).toBe(false)
+      expect(hasTargetSelector({ session: '' })).toBe(false)
+      expect(hasTargetSelector({ cwd: 'api' })).toBe(true)
+    })
+  })
+
+  describe('matchesGlob', () => {
+    it('should match full paths with wildcards', () => {
+      expect(matchesGlob('/src/app', '/src/*')).toBe(true)
+      expect(matchesGlob('/src/app/logs', '/src/*')).toBe(false)
+      expect(matchesGlob('/src/app/logs', '/src/**')).toBe(true)
+      expect(matchesGlob('/src/app/', '/src/ap?')).toBe(true)
+    })
+
+    it('should match the last component without a slash', () => {
+      expect(matchesGlob('/srv/api', 'api')).toBe(true)
+      expect(matchesGlob('/srv/api-v2', 'api*')).toBe(true)
+      expect(matchesGlob('/srv/api/src', 'api')).toBe(false)
+    })
+
+    it('should expand the home directory', () => {
+      expect(matchesGlob(`${homedir()}/work/api`, '~/work/*')).toBe(true)
+    })
+  })
+
+  describe('resolveTarget', () => {
+    it('should resolve a session', () => {
+      expect(resolveTarget(panes, { session: 'ops' })).toEqual({
+        session: 'ops',
+        sessionId: '$1',
+      })
+    })
+
+    it('should resolve a window by name', () => {
+      expect(resolveTarget(panes, { session: 'dev', window: 'tests' })).toEqual(
+        { session: 'dev', window: '1', sessionId: '$0', windowId: '@1' },
+      )
+    })
+
+    it('should resolve panes by title and id', () => {
+      expect(resolveTarget(panes, { session: 'dev', pane: 'logs' })).toEqual({
+        session: 'dev',
+        window: '1',
+        pane: '1',
+        sessionId: '$0',
+        windowId: '@1',
+        paneId: '%2',
+      })
+      expect(resolveTarget(panes, { pane: '%3' })).toEqual({
+        session: 'ops',
+        window: '0',
+        pane: '0',
+        sessionId: '$1',
+        windowId: '@2',
+        paneId: '%3',
+      })
+    })
+
+    it('should resolve panes by cwd and command', () => {
+      expect(resolveTarget(panes, { cwd: 'api' })).toMatchObject({
+        session: 'ops',
+        window: '0',
+        pane: '0',
+        paneId: '%3',
+      })
+      expect(resolveTarget(panes, { command: 'vim' })).toMatchObject({
+        session: 'dev',
+        window: '0',
+        pane: '0',
+        paneId: '%0',
+      })
+    })
+
+    it('should match the full foreground command line', () => {
+      const foreground = new Map([[101, ['npm test', 'node jest']]])
+
+      expect(
+        resolveTarget(panes, { command: 'npm test' }, foreground),
+      ).toMatchObject({ session: 'dev', window: '1', pane: '0', paneId: '%1' })
+    })
+
+    it('should list sessions when the session does not exist', () => {
+      expect(() => resolveTarget(panes, { session: 'nope' })).toThrow(
+        "Session 'nope' does not exist. Available sessions: dev, ops",
+      )
+    })
+
+    it('should throw a SessionNotFoundError for missing sessions', () => {
+      let error: unknown
+      try {
+        resolveTarget(panes, { session: 'nope' })
+      } catch (caught) {
+        error = caught
+      }
+
+      expect(error).toBeInstanceOf(SessionNotFoundError)
+      expect(error).toMatchObject({
+        code: 'session_not_found',
+        session: 'nope',
+        candidates: ['dev', 'ops'],
+      })
+    })
+
+    it('should list windows when the window does not exist', () => {
+      expect(() =>
+        resolveTarget(panes, { session: 'dev', window: 'build' }),
+      ).toThrow(
+        "Window 'build' not found in session 'dev'. Available windows: dev:0 (editor), dev:1 (tests)",
+      )
+    })
+
+    it('should report ambiguous windows', () => {
+      expect(() => resolveTarget(panes, { window: 'tests' })).toThrow(
+        "Window 'tests' is ambiguous: dev:1 (tests), ops:0 (tests)",
+      )
+    })
+
+    it('should report ambiguous panes with their candidates', () => {
+      let error: unknown
+      try {
+        resolveTarget(panes, { cwd: '/src/**' })
+      } catch (caught) {
+        error = caught
+      }
+
+      expect(error).toBeInstanceOf(TargetError)
+      expect((error as TargetError).code).toBe('target_ambiguous')
+      expect((error as TargetError).message).toMatch(/^3 panes match: /)
+      expect((error as TargetError).candidates).toEqual([
+        'dev:0.0 (vim in /src/app)',
+        'dev:1.0 (node in /src/app)',
+        'dev:1.1 (zsh in /src/app/logs)',
+      ])
+    })
+
+    it('should list the panes in scope when no command matches', () => {
+      expect(() =>
+        resolveTarget(panes, { session: 'dev', command: 'cargo' }),
+      ).toThrow(
+        "No pane is running 'cargo'. Available panes: dev:0.0 (vim), dev:1.0 (node), dev:1.1 (zsh)",
+      )
+    })
+
+    it('should explain when tmux has no sessions', () => {
+      expect(() => resolveTarget([], { session: 'dev' })).toThrow(
+        "Session 'dev' does not exist (no tmux sessions found)",
+      )
+    })
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import { BUILTIN_TERMINALS, TerminalRegistry } from '../src/terminal'
+
+describe('TerminalRegistry', () => {
+  const registry = new TerminalRegistry()
+
+  describe('matchEnvironment', () => {
+    it('should match exact values and wildcards', () => {
+      expect(
+        registry.matchEnvironment({ TERM_PROGRAM: 'WezTerm' })?.terminal.name,
+      ).toBe('WezTerm')
+      expect(registry.matchEnvironment({ KITTY_WINDOW_ID: '1' })).toEqual({
+        terminal: expect.objectContaining({ name: 'Kitty' }),
+        rule: 'env KITTY_WINDOW_ID=1',
+      })
+      expect(registry.matchEnvironment({ TERM_PROGRAM: 'WezTerm2' })).toBe(
+        undefined,
+      )
+    })
+
+    it('should tell Cursor apart from VSCode', () => {
+      const hook = '/Users/me/Library/Application Support/Cursor/ipc.sock'
+      expect(
+        registry.matchEnvironment({ VSCODE_IPC_HOOK_CLI: hook })?.terminal.name,
+      ).toBe('Cursor')
+      expect(
+        registry.matchEnvironment({ VSCODE_IPC_HOOK_CLI: '/tmp/vscode.sock' })
+          ?.terminal.name,
+      ).toBe('VSCode')
+    })
+
+    it('should ignore empty variables', () => {
+      expect(registry.matchEnvironment({ WEZTERM_PANE: '' })).toBeUndefined()
+    })
+  })
+
+  describe('matchProcess', () => {
+    it('should match process names', () => {
+      expect(
+        registry.matchProcess('/Applications/Ghostty.app/Contents/MacOS/ghostty')
+          ?.terminal.name,
+      ).toBe('Ghostty')
+      expect(
+        registry.matchProcess(
+          '/Applications/WebStorm.app/Contents/MacOS/webstorm',
+        )?.terminal.name,
+      ).toBe('JetBrains')
+      expect(registry.matchProcess('-zsh')).toBeUndefined()
+    })
+  })
+
+  describe('matchTermname', () => {
+    it('should match the tmux client terminal type', () => {
+      expect(registry.matchTermname('xterm-kitty')).toEqual({
+        terminal: expect.objectContaining({ name: 'Kitty' }),
+        rule: 'tmux client termname xterm-kitty',
+      })
+    })
+  })
+
+  describe('custom terminals', () => {
+    it('should try custom terminals before the built-in ones', () => {
+      const custom = new TerminalRegistry([
+        { name: 'Rio', app: 'Rio', env: { TERM_PROGRAM: 'rio' } },
+        { name: 'Terminal', processes: ['Terminal'], app: 'Terminal' },
+      ])
+
+      expect(custom.names.slice(0, 3)).toEqual(['Rio', 'Terminal', 'Cursor'])
+      expect(custom.names).toHaveLength(BUILTIN_TERMINALS.length + 1)
+      expect(
+        custom.matchEnvironment({ TERM_PROGRAM: 'rio' })?.terminal.app,
+      ).toBe('Rio')
+      // Replacing a built-in drops its other rules
+      expect(
+        custom.matchEnvironment({ TERM_PROGRAM: 'Apple_Terminal' }),
+      ).toBeUndefined()
+    })
+
+    it('should know the names detection can report', () => {
+      expect(registry.has('Hyper')).toBe(true)
+      expect(registry.has('Unknown')).toBe(true)
+      expect(registry.has('xterm')).toBe(false)
+    })
+  })
+})
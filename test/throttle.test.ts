@@ -0,0 +1,90 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { Throttle } from '../src/throttle'
+
+describe('Throttle', () => {
+  let dir: string
+  let stateFile: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'macos-notify-throttle-'))
+    stateFile = join(dir, 'state', 'throttle.json')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const build = { title: 'Build', message: 'Done', session: 'dev' }
+
+  it('should allow the first notification', () => {
+    const throttle = new Throttle({ stateFile })
+
+    expect(throttle.check(build, 0)).toEqual({
+      allowed: true,
+      message: 'Done',
+    })
+  })
+
+  it('should suppress duplicates inside the dedupe window', () => {
+    const throttle = new Throttle({ stateFile, dedupeSeconds: 30 })
+
+    throttle.check(build, 0)
+    const decision = throttle.check(build, 5000)
+
+    expect(decision.allowed).toBe(false)
+    expect(decision.reason).toBe(
+      'duplicate of a notification sent 5s ago (x2)',
+    )
+  })
+
+  it('should report collapsed duplicates on the next delivery', () => {
+    const throttle = new Throttle({ stateFile, dedupeSeconds: 30 })
+
+    throttle.check(build, 0)
+    for (let i = 1; i <= 4; i++) throttle.check(build, i * 1000)
+    const decision = throttle.check(build, 31000)
+
+    expect(decision).toEqual({ allowed: true, message: 'Done (x5)' })
+    expect(throttle.check(build, 62000)).toEqual({
+      allowed: true,
+      message: 'Done',
+    })
+  })
+
+  it('should rate limit per title and session', () => {
+    const throttle = new Throttle({ stateFile, burst: 2, perMinute: 6 })
+
+    expect(throttle.check({ ...build, message: '1' }, 0).allowed).toBe(true)
+    expect(throttle.check({ ...build, message: '2' }, 0).allowed).toBe(true)
+    const limited = throttle.check({ ...build, message: '3' }, 0)
+    expect(limited.allowed).toBe(false)
+    expect(limited.reason).toBe(
+      'rate limit exceeded for "Build" (2 at once, 6 per minute)',
+    )
+
+    // Other sessions have their own bucket
+    expect(
+      throttle.check({ ...build, message: '3', session: 'web' }, 0).allowed,
+    ).toBe(true)
+    // One token is refilled every 10 seconds
+    expect(throttle.check({ ...build, message: '4' }, 10000).allowed).toBe(true)
+  })
+
+  it('should share state between instances', () => {
+    new Throttle({ stateFile }).check(build, 0)
+
+    expect(new Throttle({ stateFile }).check(build, 1000).allowed).toBe(false)
+  })
+
+  it('should recover from a corrupted state file', () => {
+    const path = join(dir, 'throttle.json')
+    writeFileSync(path, '{ nope')
+
+    expect(new Throttle({ stateFile: path }).check(build, 0).allowed).toBe(
+      true,
+    )
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatDuration,
+  parseDueTime,
+  parseDuration,
+  parseTimeInput,
+} from '../src/time'
+
+describe('time', () => {
+  const now = new Date('2026-10-19T12:00:00')
+
+  describe('parseDuration', () => {
+    it('should parse single and combined units', () => {
+      expect(parseDuration('90s')).toBe(90_000)
+      expect(parseDuration('20m')).toBe(1_200_000)
+      expect(parseDuration('1h30m')).toBe(5_400_000)
+      expect(parseDuration('2d')).toBe(172_800_000)
+    })
+
+    it('should reject anything else', () => {
+      expect(parseDuration('20')).toBeNull()
+      expect(parseDuration('soon')).toBeNull()
+      expect(parseDuration('')).toBeNull()
+    })
+  })
+
+  describe('parseTimeInput', () => {
+    it('should resolve durations in both directions', () => {
+      expect(parseTimeInput('2h', 'ago', now)).toEqual(
+        new Date('2026-10-19T10:00:00'),
+      )
+      expect(parseTimeInput('15m', 'ahead', now)).toEqual(
+        new Date('2026-10-19T12:15:00'),
+      )
+    })
+
+    it('should resolve HH:MM to today', () => {
+      expect(parseTimeInput('17:30', 'ahead', now)).toEqual(
+        new Date('2026-10-19T17:30:00'),
+      )
+      expect(parseTimeInput('24:00', 'ahead', now)).toBeNull()
+    })
+
+    it('should parse ISO dates', () => {
+      expect(parseTimeInput('2026-10-18T08:00:00Z', 'ago', now)).toEqual(
+        new Date('2026-10-18T08:00:00Z'),
+      )
+      expect(parseTimeInput('yesterday-ish', 'ago', now)).toBeNull()
+    })
+  })
+
+  describe('parseDueTime', () => {
+    it('should resolve a time that already passed to tomorrow', () => {
+      expect(parseDueTime('17:30', now)).toEqual(new Date('2026-10-19T17:30:00'))
+      expect(parseDueTime('08:00', now)).toEqual(new Date('2026-10-20T08:00:00'))
+    })
+
+    it('should keep durations and dates as they are', () => {
+      expect(parseDueTime('20m', now)).toEqual(new Date('2026-10-19T12:20:00'))
+      expect(parseDueTime('2026-10-18T08:00:00Z', now)).toEqual(
+        new Date('2026-10-18T08:00:00Z'),
+      )
+    })
+  })
+
+  describe('formatDuration', () => {
+    it('should use the two largest units', () => {
+      expect(formatDuration(400)).toBe('0s')
+      expect(formatDuration(45_000)).toBe('45s')
+      expect(formatDuration(133_000)).toBe('2m 13s')
+      expect(formatDuration(3_725_000)).toBe('1h 2m')
+    })
+  })
+})